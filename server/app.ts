@@ -0,0 +1,282 @@
+/**
+ * server/app.ts — Express 應用程式（路由與 middleware）
+ *
+ * 職責：
+ * 1. 提供 POST /api/chat 端點（用戶訊息或 UI 工具的互動結果），
+ *    以及對話歷史 API（/api/sessions）、長期記憶 API（/api/memories）、心情紀錄 API（/api/mood）
+ *    與練習作業 API（/api/homework）
+ * 2. 用 SSE（Server-Sent Events）把 Claude 的回覆串流給前端；斷線後可以續傳（chat-turns.ts）
+ * 3. 驗證請求參數
+ * 4. 危機篩檢：命中時送出 'crisis' 事件並寫入稽核紀錄（超過請求上限的訊息也會篩檢，結果附在 429 回應中）
+ * 5. 請求頻率與每日 token 上限：超過時回 429（見 rate-limit.ts）
+ *
+ * createApp() 只組裝 app，不初始化儲存也不監聽 port：
+ * index.ts 初始化後呼叫 app.listen()，測試（testing/harness.ts）則在隨機 port 上啟動。
+ *
+ * SSE 工作原理：
+ * - Content-Type: text/event-stream 告訴瀏覽器這是串流連線
+ * - 每個事件格式：`id: <序號>\nevent: <名稱>\ndata: <JSON>\n\n`
+ * - 連線保持開啟，直到我們呼叫 res.end()
+ */
+
+import express from 'express'
+import cors from 'cors'
+import { canAccessSession, checkInteraction, streamCounselorResponse } from './counselor.js'
+import { createTurn, findTurn, lastEventId, streamTurn } from './chat-turns.js'
+import { recordCrisisAudit, screenForCrisis, toCrisisEvent } from './crisis.js'
+import { parseInteraction, type Interaction } from './interactions.js'
+import { canAccessMemory } from './memory-owner.js'
+import { isValidUserId } from './mood.js'
+import { getChatRateLimiter } from './rate-limit.js'
+import { isValidSessionId } from './session-store.js'
+import { thoughtRecordText } from './thought-records.js'
+import { homeworkRouter } from './routes/homework.js'
+import { memoriesRouter } from './routes/memories.js'
+import { moodRouter } from './routes/mood.js'
+import { sessionsRouter } from './routes/sessions.js'
+import { getSkillRegistry } from './skills.js'
+
+export function createApp(): express.Express {
+  const app = express()
+
+  // ── Middleware（中介軟體）────────────────────────────────────────────────────
+  // Middleware 是在請求進到路由處理前先執行的函數
+
+  // CORS：允許前端（Vite dev server on :5173）呼叫這個後端
+  // 在生產環境，這裡要換成你的真實網域
+  app.use(
+    cors({
+      origin: ['http://localhost:5173', 'http://localhost:4173'],
+      credentials: true,
+    })
+  )
+
+  // JSON body parser：讓我們可以讀取 req.body
+  app.use(express.json())
+
+  // ── 路由 ─────────────────────────────────────────────────────────────────────
+
+  // 健康檢查端點（用來確認 server 是否在線）
+  // 同時列出已載入的技能與格式錯誤的技能，方便確認新增的 SKILL.md 是否生效
+  app.get('/api/health', (_req, res) => {
+    const { skills, errors } = getSkillRegistry()
+    res.json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      skills: skills.map((s) => s.name),
+      skillErrors: errors,
+    })
+  })
+
+  // 對話歷史：列出、讀取、刪除對話（見 routes/sessions.ts）
+  app.use('/api/sessions', sessionsRouter)
+
+  // 長期記憶：讓用戶查看、編輯、刪除 Claude 記住的內容（見 routes/memories.ts）
+  app.use('/api/memories', memoriesRouter)
+
+  // 心情紀錄：趨勢圖與每日心情打卡（見 routes/mood.ts）
+  app.use('/api/mood', moodRouter)
+
+  // 練習作業：列出 Claude 佈置的作業、標記完成或跳過（見 routes/homework.ts）
+  app.use('/api/homework', homeworkRouter)
+
+  // 聊天端點 — 核心功能
+  // body 是 { sessionId, message }（用戶打的訊息）或 { sessionId, interaction }（UI 工具的互動結果，見 interactions.ts）
+  // userId 可省略：有帶時才會記錄選牌的心情紀錄，Claude 也才讀得到心情趨勢、佈置與追蹤作業（見 mood.ts、homework.ts），
+  // 對話也才會出現在這個用戶的對話列表中（見 routes/sessions.ts）
+  app.post('/api/chat', async (req, res) => {
+    // 1. 驗證請求參數
+    const { sessionId, userId, message, interaction: rawInteraction } = req.body as {
+      sessionId?: string
+      userId?: unknown
+      message?: string
+      interaction?: unknown
+    }
+
+    if (!sessionId || typeof sessionId !== 'string') {
+      res.status(400).json({ error: 'sessionId 為必填欄位' })
+      return
+    }
+
+    if (!isValidSessionId(sessionId)) {
+      res.status(400).json({ error: '不合法的 sessionId' })
+      return
+    }
+
+    if (userId !== undefined && !isValidUserId(userId)) {
+      res.status(400).json({ error: '不合法的 userId' })
+      return
+    }
+
+    // 其他用戶的對話不能接著聊（沒有帶 userId 也一樣），否則會讀到對方的對話歷史
+    if (!(await canAccessSession(sessionId, userId ?? null))) {
+      res.status(403).json({ error: '無法存取這個對話' })
+      return
+    }
+
+    // 長期記憶只屬於一位用戶（見 memory-owner.ts）：其他用戶的對話裡 Claude 會讀到擁有者的記憶
+    if (!(await canAccessMemory(userId ?? null))) {
+      res.status(403).json({ error: '這個服務的長期記憶屬於另一位用戶，無法開始對話' })
+      return
+    }
+
+    // 互動結果要對照這個對話最後一次的 UI 工具呼叫（牌卡是否真的有提供過…），不符合就不開始這一輪
+    let input: string | Interaction
+    let interactionDisplay = ''
+    if (rawInteraction !== undefined) {
+      const interaction = parseInteraction(rawInteraction)
+      if (!interaction) {
+        res.status(400).json({ error: 'interaction 格式不正確' })
+        return
+      }
+      const checked = await checkInteraction(sessionId, interaction)
+      if (typeof checked === 'string') {
+        res.status(409).json({ error: checked })
+        return
+      }
+      input = interaction
+      interactionDisplay = checked.display
+    } else {
+      if (!message || typeof message !== 'string' || !message.trim()) {
+        res.status(400).json({ error: 'message 為必填欄位' })
+        return
+      }
+      input = message.trim()
+    }
+
+    // 依對話與來源 IP 檢查請求頻率與當天的 token 用量，超過就不開始這一輪
+    const client = { sessionId, ip: req.ip ?? 'unknown' }
+    const limited = getChatRateLimiter().check(client)
+
+    // 2. 危機篩檢：在 Agent 迴圈之前先做確定性的關鍵字比對（必要時再請模型確認）
+    //    超過上限的訊息一樣要篩檢（只用關鍵字層），不然用戶最需要幫助時只會看到 429
+    //    互動結果中只有思維記錄帶著用戶自己寫的文字（情境、自動化思考、證據…），一起篩檢；
+    //    其他互動結果只有選項與數字，不需要篩檢
+    const screenText =
+      typeof input === 'string' ? input : input.type === 'thought_record' ? thoughtRecordText(input.record) : null
+    const crisis = screenText === null ? null : await screenForCrisis(screenText, limited ? { modelCheck: false } : {})
+    if (crisis?.detected) {
+      console.warn(
+        `[Crisis] Session ${sessionId.slice(0, 8)}... 偵測到危機訊號（${crisis.level}，來源 ${crisis.source}）:`,
+        crisis.matches.map((m) => m.id).join(', ')
+      )
+      // 稽核紀錄寫入失敗不能擋住對話
+      await recordCrisisAudit(sessionId, crisis).catch((err: unknown) => {
+        console.error('[Crisis] 寫入稽核紀錄失敗:', err)
+      })
+    }
+
+    // Retry-After 是幾秒後可以再試；body 另外附上限制種類，前端據此顯示對應的說明
+    // 命中危機訊號時附上 crisis，前端照樣顯示求助資源橫幅
+    if (limited) {
+      console.warn(
+        `[RateLimit] Session ${sessionId.slice(0, 8)}... 超過${limited.limit === 'requests' ? '請求頻率' : '每日 token'}上限（${limited.scope}），${limited.retryAfterSeconds} 秒後可再試`
+      )
+      res
+        .status(429)
+        .set('Retry-After', String(limited.retryAfterSeconds))
+        .json({
+          error: limited.message,
+          limit: limited.limit,
+          scope: limited.scope,
+          retryAfter: limited.retryAfterSeconds,
+          ...(crisis?.detected ? { crisis: toCrisisEvent(crisis) } : {}),
+        })
+      return
+    }
+
+    // 3. 建立這一輪回覆的 turn，開始以 SSE 串流給前端
+    //    事件先寫進 turn 的緩衝區再送出，前端斷線後可以用 Last-Event-ID 續傳（見 chat-turns.ts）
+    //    第一個事件 'turn' 告訴前端 turnId
+    const turn = createTurn(sessionId)
+    streamTurn(turn, res)
+
+    // 4. 輔助函數：發送 SSE 事件（格式：`id: <序號>\nevent: <name>\ndata: <json>\n\n`）
+    const sendEvent = (event: string, data: unknown) => turn.push(event, data)
+    sendEvent('turn', { turnId: turn.id })
+
+    // 互動結果顯示成用戶訊息的文字由 server 產生（'interaction' 事件），前端不自己組句子
+    if (typeof input === 'string') {
+      console.log(`[Chat] Session ${sessionId.slice(0, 8)}... 收到訊息`)
+    } else {
+      sendEvent('interaction', { content: interactionDisplay })
+      console.log(`[Chat] Session ${sessionId.slice(0, 8)}... 收到互動結果（${input.type}）`)
+    }
+
+    // 危機篩檢命中時立即送出 'crisis' 事件，前端顯示無法關閉的求助資源橫幅，
+    // 不論 Claude 接下來怎麼回覆，用戶都一定看得到專線資訊
+    if (crisis?.detected) sendEvent('crisis', toCrisisEvent(crisis))
+
+    // 5. 呼叫核心諮詢函數（在 counselor.ts 中定義）
+    await streamCounselorResponse(
+      sessionId,
+      userId ?? null,
+      input,
+
+      // onTextDelta：Claude 輸出文字時 → SSE 'delta' 事件
+      (text) => {
+        sendEvent('delta', { text })
+      },
+
+      // onUi：Claude 呼叫任何技能宣告的 UI 工具時 → SSE 'ui' 事件 { tool, payload }
+      // 前端依 tool 名稱從元件 registry 找到對應元件渲染（牌卡、冥想引導…）
+      (uiEvent) => {
+        sendEvent('ui', uiEvent)
+      },
+
+      // onTool：工具開始 / 結束執行 → SSE 'tool_start' / 'tool_end' 事件
+      // 只含工具名稱與摘要，前端顯示成「正在查看記憶…」之類的狀態列
+      (toolEvent) => {
+        sendEvent(toolEvent.ok === undefined ? 'tool_start' : 'tool_end', toolEvent)
+      },
+
+      // onUsage：每次 API 呼叫用掉的 token 計入這個對話與 IP 當天的用量
+      (tokens) => {
+        getChatRateLimiter().recordTokens(client, tokens)
+      },
+
+      // onDone：Agent 迴圈完成時
+      () => {
+        sendEvent('done', { status: 'complete' })
+        console.log(`[Chat] Session ${sessionId.slice(0, 8)}... 回覆完成`)
+      },
+
+      // onError：發生錯誤時
+      (err) => {
+        console.error(`[Chat] 錯誤:`, err.message)
+        sendEvent('error', { message: err.message })
+      },
+
+      // signal：前端取消或斷線超過寬限期時中止 Agent 迴圈
+      turn.signal
+    )
+    // 不論完成、出錯或被中止，都結束所有正在聽這個 turn 的連線
+    turn.finish()
+  })
+
+  // 續傳：斷線後帶上最後收到的事件序號（Last-Event-ID），補送之後的事件並繼續串流
+  // turn 已經過期（或 server 重啟過）時回 404，前端改從對話歷史還原
+  app.get('/api/chat/turns/:turnId/events', (req, res) => {
+    const turn = findTurn(req.params.turnId, String(req.query.sessionId ?? ''))
+    if (!turn) {
+      res.status(404).json({ error: '找不到這一輪回覆，可能已經過期' })
+      return
+    }
+    const afterId = lastEventId(req.get('Last-Event-ID'), req.query.lastEventId)
+    console.log(`[Chat] Session ${turn.sessionId.slice(0, 8)}... 續傳回覆（從事件 ${afterId + 1} 開始）`)
+    streamTurn(turn, res, afterId)
+  })
+
+  // 取消：前端切換對話時呼叫，不等寬限期直接中止 Agent 迴圈
+  app.delete('/api/chat/turns/:turnId', (req, res) => {
+    const turn = findTurn(req.params.turnId, String(req.query.sessionId ?? ''))
+    if (!turn) {
+      res.status(404).json({ error: '找不到這一輪回覆，可能已經過期' })
+      return
+    }
+    turn.cancel('用戶取消')
+    res.status(204).end()
+  })
+
+  return app
+}
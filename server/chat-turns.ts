@@ -0,0 +1,163 @@
+/**
+ * chat-turns.ts — 可續傳的 SSE 回覆串流
+ *
+ * 原本 /api/chat 的回覆只寫進那一條 HTTP 連線：網路一斷，前端就只剩錯誤訊息，
+ * 即使 server 繼續把回覆生成完、存進了對話歷史，畫面上也看不到後半段。
+ *
+ * 現在每一輪回覆（turn）都有自己的 ID，事件先寫進 server 端的緩衝區再送出：
+ *   - 每個事件有遞增的序號，SSE 格式中的 `id:` 欄位
+ *   - 第一個事件是 'turn' { turnId }，前端記下來以便斷線後續傳
+ *   - GET /api/chat/turns/:turnId/events 帶上 Last-Event-ID，補送之後的事件並繼續即時串流
+ *
+ * 斷線處理：
+ *   - 沒有任何連線在聽時，回覆繼續生成 CHAT_RESUME_GRACE_MS（預設 60 秒）；
+ *     期間沒有人接回來才中止 Agent 迴圈（與原本斷線即中止的行為相同，只是多了寬限期）
+ *   - 前端切換對話時呼叫 DELETE /api/chat/turns/:turnId，立即中止
+ *   - 結束的 turn 保留 CHAT_TURN_RETENTION_MS（預設 5 分鐘）供續傳，之後從記憶體移除
+ */
+
+import { randomUUID } from 'node:crypto'
+import type { Response } from 'express'
+
+export interface TurnEvent {
+  id: number     // 同一個 turn 內遞增，從 0 開始
+  event: string
+  data: unknown
+}
+
+const RESUME_GRACE_MS = Number(process.env.CHAT_RESUME_GRACE_MS ?? 60_000)
+const TURN_RETENTION_MS = Number(process.env.CHAT_TURN_RETENTION_MS ?? 5 * 60_000)
+// 同時保留的 turn 上限，超過時先移除最舊的已結束 turn
+const MAX_TURNS = 200
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ChatTurn：一輪回覆的事件緩衝區
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class ChatTurn {
+  readonly id = randomUUID()
+  readonly events: TurnEvent[] = []
+  finished = false
+  private readonly abortController = new AbortController()
+  private readonly listeners = new Set<(event: TurnEvent) => void>()
+  private graceTimer: NodeJS.Timeout | null = null
+
+  constructor(readonly sessionId: string) {}
+
+  // 中止 Agent 迴圈用的 signal（交給 streamCounselorResponse）
+  get signal(): AbortSignal {
+    return this.abortController.signal
+  }
+
+  push(event: string, data: unknown): void {
+    if (this.finished) return
+    const entry = { id: this.events.length, event, data }
+    this.events.push(entry)
+    for (const listener of this.listeners) listener(entry)
+  }
+
+  // 回覆結束（done、error 或被中止）：通知所有連線結束，並排程從記憶體移除
+  finish(): void {
+    if (this.finished) return
+    this.finished = true
+    this.clearGraceTimer()
+    for (const listener of this.listeners) listener({ id: -1, event: '', data: null })
+    this.listeners.clear()
+    setTimeout(() => turns.delete(this.id), TURN_RETENTION_MS).unref()
+  }
+
+  cancel(reason: string): void {
+    if (this.finished || this.signal.aborted) return
+    console.log(`[Chat] Session ${this.sessionId.slice(0, 8)}... ${reason}，中止回覆`)
+    this.abortController.abort()
+  }
+
+  // 補送 afterId 之後的事件，再繼續接收新事件；回傳取消訂閱的函數
+  // listener 收到 id 為 -1 的事件代表 turn 已經結束
+  subscribe(afterId: number, listener: (event: TurnEvent) => void): () => void {
+    for (const entry of this.events) {
+      if (entry.id > afterId) listener(entry)
+    }
+    if (this.finished) {
+      listener({ id: -1, event: '', data: null })
+      return () => {}
+    }
+    this.clearGraceTimer()
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0 && !this.finished) this.startGraceTimer()
+    }
+  }
+
+  private startGraceTimer(): void {
+    this.clearGraceTimer()
+    this.graceTimer = setTimeout(() => this.cancel(`斷線超過 ${RESUME_GRACE_MS / 1000} 秒沒有續傳`), RESUME_GRACE_MS)
+  }
+
+  private clearGraceTimer(): void {
+    if (this.graceTimer) clearTimeout(this.graceTimer)
+    this.graceTimer = null
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Turn registry（只存在記憶體中；server 重啟後無法續傳，但回覆仍在對話歷史裡）
+// ─────────────────────────────────────────────────────────────────────────────
+
+const turns = new Map<string, ChatTurn>()
+
+export function createTurn(sessionId: string): ChatTurn {
+  if (turns.size >= MAX_TURNS) {
+    // Map 依插入順序迭代，第一個已結束的就是最舊的
+    for (const [id, turn] of turns) {
+      if (turn.finished) {
+        turns.delete(id)
+        break
+      }
+    }
+  }
+  const turn = new ChatTurn(sessionId)
+  turns.set(turn.id, turn)
+  return turn
+}
+
+// sessionId 必須相符，避免用別人的 turnId 讀取回覆
+export function findTurn(turnId: string, sessionId: string): ChatTurn | null {
+  const turn = turns.get(turnId)
+  return turn && turn.sessionId === sessionId ? turn : null
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SSE 輸出
+//
+// 格式：`id: <序號>\nevent: <名稱>\ndata: <JSON>\n\n`
+// 前端斷線後以最後收到的 id 作為 Last-Event-ID 續傳
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function streamTurn(turn: ChatTurn, res: Response, afterId = -1): void {
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('Connection', 'keep-alive')
+  res.setHeader('X-Accel-Buffering', 'no') // 停用 Nginx 緩衝（如果有的話）
+  res.flushHeaders() // 立即把 header 送出去，不要等到有資料
+
+  const unsubscribe = turn.subscribe(afterId, (entry) => {
+    // 連線已關閉時直接略過，避免寫入已銷毀的 socket
+    if (res.writableEnded || res.destroyed) return
+    if (entry.id === -1) {
+      res.end()
+      return
+    }
+    res.write(`id: ${entry.id}\nevent: ${entry.event}\ndata: ${JSON.stringify(entry.data)}\n\n`)
+  })
+  // res 'close' 在連線結束時一定會觸發；turn 還沒結束就代表是前端先離開
+  res.on('close', unsubscribe)
+}
+
+// Last-Event-ID header（瀏覽器 EventSource 自動帶上）或 ?lastEventId=（fetch 續傳時也可用 header）
+export function lastEventId(header: string | undefined, query: unknown): number {
+  const raw = header ?? (typeof query === 'string' ? query : undefined)
+  const id = Number(raw)
+  return raw !== undefined && Number.isInteger(id) && id >= -1 ? id : -1
+}
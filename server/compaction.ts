@@ -0,0 +1,148 @@
+/**
+ * compaction.ts — 短期記憶的摘要壓縮（Context Compaction）
+ *
+ * 以前 addToSession 只保留最近 50 則訊息，更早的對話直接被丟掉，
+ * 諮詢助手會默默忘記對話的開頭，而且完全沒有考慮訊息的 token 大小。
+ *
+ * 現在改成以 token 預算管理：
+ *   - 對話歷史的估計 token 數超過預算（HISTORY_TOKEN_BUDGET）時觸發壓縮
+ *   - 最近的 N 則訊息（HISTORY_KEEP_RECENT）原封不動保留
+ *   - 更早的訊息連同上一份摘要，交給較便宜的模型整理成一則「滾動摘要」
+ *   - 摘要以 summary: true 的訊息放在歷史最前面
+ *
+ * compactHistory 本身不直接呼叫 API，摘要函數由外部注入，
+ * 測試時可以換成固定回傳字串的 stub。
+ */
+
+import type Anthropic from '@anthropic-ai/sdk'
+import { describeMessage, isInteractionMessage, isToolResultMessage } from './history-blocks.js'
+import type { ShortTermMessage } from './session-store.js'
+
+// 摘要函數：輸入上一份摘要（可能沒有）與要被壓縮的訊息，回傳新的摘要文字
+export type Summarizer = (input: {
+  previousSummary: string | null
+  transcript: ShortTermMessage[]
+}) => Promise<string>
+
+export interface CompactionOptions {
+  budgetTokens: number       // 歷史超過這個估計 token 數就壓縮
+  keepRecentMessages: number // 保留原文的最近訊息數
+  summarize: Summarizer
+}
+
+export interface CompactionResult {
+  messages: ShortTermMessage[]
+  compacted: boolean
+  summarizedCount: number // 這次被併入摘要的訊息數
+  tokensBefore: number
+  tokensAfter: number
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Token 估計
+//
+// 不呼叫 count_tokens API（每輪都多一次請求），用字元數粗估：
+//   中日韓文字約 1 字 = 1 token，其他文字約 4 字元 = 1 token
+// 估計值只用來判斷「是否該壓縮」，不需要精確
+// ─────────────────────────────────────────────────────────────────────────────
+
+const CJK_RE = /[\u3000-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g
+
+export function estimateTokens(text: string): number {
+  const cjk = text.match(CJK_RE)?.length ?? 0
+  return cjk + Math.ceil((text.length - cjk) / 4)
+}
+
+export function estimateMessagesTokens(messages: ShortTermMessage[]): number {
+  // 每則訊息另外加上角色標記等固定開銷；含工具呼叫的訊息以完整區塊估計
+  return messages.reduce(
+    (sum, m) => sum + estimateTokens(m.blocks ? JSON.stringify(m.blocks) : m.content) + 4,
+    0
+  )
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 壓縮
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function compactHistory(
+  messages: ShortTermMessage[],
+  options: CompactionOptions
+): Promise<CompactionResult> {
+  const tokensBefore = estimateMessagesTokens(messages)
+  const unchanged = {
+    messages,
+    compacted: false,
+    summarizedCount: 0,
+    tokensBefore,
+    tokensAfter: tokensBefore,
+  }
+  if (tokensBefore <= options.budgetTokens) return unchanged
+
+  const hasSummary = messages[0]?.summary === true
+  const previousSummary = hasSummary ? messages[0].content : null
+  const body = hasSummary ? messages.slice(1) : messages
+
+  // 保留區必須從一則用戶訊息開始，避免把一問一答從中間切開
+  // 工具結果也是 user 訊息，但不能和對應的 tool_use 分開，所以不能當作起點
+  let split = Math.max(0, body.length - options.keepRecentMessages)
+  while (split > 0 && (body[split]?.role !== 'user' || isToolResultMessage(body[split]))) split--
+  const older = body.slice(0, split)
+  const recent = body.slice(split)
+  if (older.length === 0) return unchanged
+
+  const summary = await options.summarize({ previousSummary, transcript: older })
+  const next: ShortTermMessage[] = [
+    { role: 'user', content: summary.trim(), createdAt: new Date().toISOString(), summary: true },
+    ...recent,
+  ]
+  return {
+    messages: next,
+    compacted: true,
+    summarizedCount: older.length,
+    tokensBefore,
+    tokensAfter: estimateMessagesTokens(next),
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 預設設定與以模型實作的摘要函數
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const HISTORY_TOKEN_BUDGET = Number(process.env.HISTORY_TOKEN_BUDGET ?? 12000)
+export const HISTORY_KEEP_RECENT = Number(process.env.HISTORY_KEEP_RECENT ?? 10)
+const COMPACTION_MODEL = process.env.COMPACTION_MODEL ?? 'claude-haiku-4-5-20251001'
+
+const SUMMARY_PROMPT = `你是心理諮詢對話的記錄助手。請把以下對話整理成一份精簡的摘要，供諮詢助手在後續對話中參考。
+必須保留：用戶提到的主要困擾與情緒、重要的個人背景、已使用過的練習或技能與用戶的反應、諮詢助手給過的建議或約定、任何安全相關的訊息。
+如果有「先前的摘要」，請把它與新的對話內容整合成一份完整的摘要，而不是只摘要新的部分。
+以用戶使用的語言撰寫，使用條列式，不要加入對話中沒有的推測。`
+
+// 工具結果不列入逐字稿（互動結果以用戶的話列出），工具呼叫只留一行說明（見 history-blocks.ts）
+function formatTranscript(transcript: ShortTermMessage[]): string {
+  return transcript
+    .filter((m) => !isToolResultMessage(m) || isInteractionMessage(m))
+    .map((m) => `${m.role === 'user' ? '用戶' : '諮詢助手'}：${describeMessage(m)}`)
+    .join('\n\n')
+}
+
+export function createModelSummarizer(client: Anthropic, model: string = COMPACTION_MODEL): Summarizer {
+  return async ({ previousSummary, transcript }) => {
+    const sections = [
+      previousSummary ? `【先前的摘要】\n${previousSummary}` : null,
+      `【要整理的對話】\n${formatTranscript(transcript)}`,
+    ].filter(Boolean)
+    const response = await client.messages.create({
+      model,
+      max_tokens: 1024,
+      system: SUMMARY_PROMPT,
+      messages: [{ role: 'user', content: sections.join('\n\n') }],
+    })
+    const text = response.content
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('')
+      .trim()
+    if (!text) throw new Error('摘要模型沒有回傳文字')
+    return text
+  }
+}
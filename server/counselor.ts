@@ -2,7 +2,8 @@
  * counselor.ts — 心理諮詢 AI Agent 核心邏輯
  *
  * 這個檔案負責：
- * 1. 短期記憶：用 Map 儲存每個 session 的對話歷史（server 重啟後消失）
+ * 1. 短期記憶：透過 SessionStore 儲存每個 session 的對話歷史（預設存成檔案），
+ *    超過 token 預算時把較早的對話壓縮成摘要（見 compaction.ts）
  * 2. 長期記憶：用 Claude Memory Tool + 檔案系統持久化重要資訊
  * 3. 呼叫 Claude API：用 toolRunner 自動管理多輪工具呼叫
  * 4. 串流回應：把 Claude 的回覆即時傳給前端
@@ -14,48 +15,128 @@ import {
   betaMemoryTool,
   type MemoryToolHandlers,
 } from '@anthropic-ai/sdk/helpers/beta/memory.js'
+import { ToolError } from '@anthropic-ai/sdk/lib/tools/ToolError'
+import { randomUUID } from 'node:crypto'
 import * as fs from 'node:fs/promises'
 import { existsSync } from 'node:fs'
 import * as path from 'node:path'
+import {
+  InMemorySessionStore,
+  type MessageRole,
+  type SessionStore,
+  type SessionSummary,
+  type ShortTermMessage,
+} from './session-store.js'
+import {
+  buildSkillsRegistryTable,
+  getSkillRegistry,
+  type SkillMeta,
+  type UiToolDefinition,
+} from './skills.js'
+import {
+  compactHistory,
+  createModelSummarizer,
+  HISTORY_KEEP_RECENT,
+  HISTORY_TOKEN_BUDGET,
+  type CompactionOptions,
+} from './compaction.js'
+import {
+  elideToolHistory,
+  fromApiMessage,
+  HISTORY_TOOL_RESULT_MAX_CHARS,
+  HISTORY_TOOL_RESULT_TURNS,
+  mergeApiContent,
+  type ToolHistoryOptions,
+} from './history-blocks.js'
+import {
+  findPendingUiCall,
+  resolveInteraction,
+  settlePendingUiCall,
+  SKIPPED_RESULT,
+  type Interaction,
+  type ResolvedInteraction,
+} from './interactions.js'
+import { formatMoodSummary, getMoodEntries, recordMood, summarizeMood } from './mood.js'
+import { setCrisisClassifierClient } from './crisis.js'
+import { setConsolidationClient } from './memory-consolidation.js'
+import { claimMemoryOwner } from './memory-owner.js'
+import {
+  assignHomework,
+  HOMEWORK_INSTRUCTIONS_MAX_LENGTH,
+  HOMEWORK_MAX_DUE_DAYS,
+  HOMEWORK_TITLE_MAX_LENGTH,
+  reviewHomework,
+  takeHomeworkUpdates,
+} from './homework.js'
+import { appendThoughtRecord, THOUGHT_RECORDS_PATH, type ThoughtRecord } from './thought-records.js'
+import { appendJournal, clearJournal, type JournalSource } from './memory-journal.js'
+import { validateJsonSchema } from './json-schema.js'
+import { buildMemorySchemaGuide, formatSchemaError, schemaFor, validateMemoryContent } from './memory-schema.js'
 
 // ─────────────────────────────────────────────────────────────────────────────
 // 短期記憶（Short-term Memory）
 //
 // 原理：Claude API 是「無狀態」的 — 每次 API 呼叫都是全新的對話。
 // 要讓 Claude「記得」之前說了什麼，我們必須把整段對話歷史一起傳送。
-// 這裡用一個 Map 來儲存每個 sessionId 的對話歷史。
+// 實際的儲存方式由 SessionStore 決定（見 session-store.ts），
+// 預設存成檔案，server 重啟後對話依然存在。
+// 歷史不再固定截斷成 50 則，而是超過 token 預算時由 compactSession 壓縮成摘要。
 // ─────────────────────────────────────────────────────────────────────────────
 
-export type MessageRole = 'user' | 'assistant'
+export type { MessageRole, SessionSummary, ShortTermMessage } from './session-store.js'
 
-export interface ShortTermMessage {
-  role: MessageRole
-  content: string
-}
+// 啟動前先用記憶體 store，index.ts 初始化時會換成設定指定的實作
+let sessionStore: SessionStore = new InMemorySessionStore()
 
-// 模組層級的 Map：只要 server 不重啟，資料就會一直存在
-// key = sessionId（前端存在 localStorage 的 UUID）
-// value = 對話陣列
-const sessions = new Map<string, ShortTermMessage[]>()
+export function setSessionStore(store: SessionStore): void {
+  sessionStore = store
+}
 
-export function getSession(sessionId: string): ShortTermMessage[] {
-  if (!sessions.has(sessionId)) {
-    sessions.set(sessionId, [])
-  }
-  return sessions.get(sessionId)!
+export async function getSession(sessionId: string): Promise<ShortTermMessage[]> {
+  return sessionStore.load(sessionId)
 }
 
-export function addToSession(
+export async function addToSession(
   sessionId: string,
   role: MessageRole,
-  content: string
-): void {
-  const msgs = getSession(sessionId)
-  msgs.push({ role, content })
-  // 保留最近 50 則，避免 token 爆炸
-  if (msgs.length > 50) {
-    msgs.splice(0, msgs.length - 50)
-  }
+  content: string,
+  options: { truncated?: boolean } = {}
+): Promise<void> {
+  const msgs = await getSession(sessionId)
+  const createdAt = new Date().toISOString()
+  msgs.push(options.truncated ? { role, content, createdAt, truncated: true } : { role, content, createdAt })
+  await sessionStore.save(sessionId, msgs)
+}
+
+// 一次附加 Agent 迴圈產生的多則訊息（每次 API 呼叫的回覆與工具結果，見 history-blocks.ts），
+// 同時把較早輪次的大型工具結果省略，避免對話檔案無限制變大
+const TOOL_HISTORY_OPTIONS: ToolHistoryOptions = {
+  keepTurns: HISTORY_TOOL_RESULT_TURNS,
+  maxChars: HISTORY_TOOL_RESULT_MAX_CHARS,
+}
+
+export async function appendToSession(sessionId: string, messages: ShortTermMessage[]): Promise<void> {
+  if (messages.length === 0) return
+  const msgs = await getSession(sessionId)
+  msgs.push(...messages)
+  await sessionStore.save(sessionId, elideToolHistory(msgs, TOOL_HISTORY_OPTIONS))
+}
+
+// 對話列表與刪除（對話歷史側邊欄使用）
+// 長期記憶（/memories）不屬於任何單一對話，刪除對話不會影響它
+export async function listSessions(userId: string): Promise<SessionSummary[]> {
+  return sessionStore.list(userId)
+}
+
+// 對話屬於其他用戶時不能讀取、刪除或接著聊；沒有擁有者的舊對話不限制
+// （/api/chat 帶著 userId 時會成為它的擁有者，見 streamCounselorResponse）
+export async function canAccessSession(sessionId: string, userId: string | null): Promise<boolean> {
+  const owner = await sessionStore.ownerOf(sessionId)
+  return owner === null || owner === userId
+}
+
+export async function deleteSession(sessionId: string): Promise<boolean> {
+  return sessionStore.delete(sessionId)
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -71,12 +152,24 @@ export function addToSession(
 //
 // 我們要實作 MemoryToolHandlers 介面，告訴 SDK 如何執行這些操作。
 // betaMemoryTool() 會把這個實作包裝成 Claude 可以理解的工具定義。
+//
+// 每個會修改檔案的指令都會寫入 memory-journal.ts 的日誌（修改前後的內容、
+// 對話 ID、時間），模型改壞或刪掉記憶時可以還原任何一個版本。
+// 常用的記憶檔案（user_profile.xml 等）寫入前還會依 memory-schema.ts 檢查格式。
 // ─────────────────────────────────────────────────────────────────────────────
 
-// 記憶檔案存放位置
-const MEMORY_ROOT = path.resolve('./server/memories')
+// 記憶檔案存放位置（測試時用 MEMORY_DIR 指到暫存目錄）
+const MEMORY_ROOT = path.resolve(process.env.MEMORY_DIR ?? './server/memories')
+
+// 修改記憶的是誰：寫入日誌時使用
+export interface MemoryActor {
+  sessionId: string | null
+  source: JournalSource
+}
 
 class FileSystemMemoryHandlers implements MemoryToolHandlers {
+  constructor(private readonly actor: MemoryActor = { sessionId: null, source: 'system' }) {}
+
   // 啟動時呼叫，確保目錄存在
   static async init() {
     await fs.mkdir(MEMORY_ROOT, { recursive: true })
@@ -102,6 +195,75 @@ class FileSystemMemoryHandlers implements MemoryToolHandlers {
     return resolved
   }
 
+  // ── 格式檢查 ──
+  //
+  // 有規範的檔案：修改後的內容不符合規範就不寫入，回傳錯誤訊息讓 Claude 修正。
+  // 原本就已經壞掉的檔案，只要這次修改讓問題變少就允許寫入，逐步修好。
+  private schemaError(memPath: string, next: string, previous: string | null = null): string | null {
+    const problems = validateMemoryContent(memPath, next)
+    if (problems.length === 0) return null
+    if (previous !== null && problems.length < validateMemoryContent(memPath, previous).length) return null
+    console.warn(`[Memory] 拒絕不符合格式的寫入 ${memPath}：${problems[0]}`)
+    return formatSchemaError(memPath, problems)
+  }
+
+  // ── 修改日誌 ──
+  //
+  // 執行指令前後各拍一次「快照」（涉及的檔案；目錄則是底下所有檔案），
+  // 內容有變化的每個檔案各寫一筆日誌。隱藏檔（例如 .backups）不記錄。
+  private async journaled<T>(command: string, memPaths: string[], op: () => Promise<T>): Promise<T> {
+    const before = await this.snapshot(memPaths)
+    const result = await op()
+    const after = await this.snapshot(memPaths)
+    const changed = [...new Set([...before.keys(), ...after.keys()])].filter(
+      (p) => before.get(p) !== after.get(p)
+    )
+    if (changed.length > 0) {
+      try {
+        await appendJournal(
+          changed.map((p) => ({
+            ...this.actor,
+            command,
+            path: p,
+            before: before.get(p) ?? null,
+            after: after.get(p) ?? null,
+          }))
+        )
+      } catch (err) {
+        // 檔案已經改了，日誌寫不進去也只能記錄錯誤
+        console.error(`[Journal] 寫入日誌失敗（${command} ${changed.join(', ')}）:`, err)
+      }
+    }
+    return result
+  }
+
+  private async snapshot(memPaths: string[]): Promise<Map<string, string>> {
+    const files = new Map<string, string>()
+    const visit = async (full: string) => {
+      const logical = '/memories' + full.slice(MEMORY_ROOT.length).split(path.sep).join('/')
+      if (logical.split('/').some((segment) => segment.startsWith('.'))) return
+      let stat
+      try {
+        stat = await fs.stat(full)
+      } catch {
+        return
+      }
+      if (stat.isDirectory()) {
+        for (const name of await fs.readdir(full)) await visit(path.join(full, name))
+      } else {
+        files.set(logical, await fs.readFile(full, 'utf-8'))
+      }
+    }
+    for (const memPath of memPaths) {
+      try {
+        await visit(this.resolveSafePath(memPath))
+      } catch {
+        // 不合法的路徑交給指令本身回報錯誤
+      }
+    }
+    return files
+  }
+
   // VIEW：列出目錄內容 或 讀取檔案（可指定行範圍）
   async view(command: Parameters<MemoryToolHandlers['view']>[0]): Promise<string> {
     const fullPath = this.resolveSafePath(command.path)
@@ -155,84 +317,167 @@ class FileSystemMemoryHandlers implements MemoryToolHandlers {
 
   // CREATE：建立新檔案（檔案已存在則報錯）
   async create(command: Parameters<MemoryToolHandlers['create']>[0]): Promise<string> {
-    const fullPath = this.resolveSafePath(command.path)
-    if (existsSync(fullPath)) {
-      return `錯誤：檔案 ${command.path} 已存在`
-    }
-    await fs.mkdir(path.dirname(fullPath), { recursive: true })
-    await fs.writeFile(fullPath, command.file_text, 'utf-8')
-    return `檔案建立成功：${command.path}`
+    return this.journaled('create', [command.path], async () => {
+      const fullPath = this.resolveSafePath(command.path)
+      if (existsSync(fullPath)) {
+        return `錯誤：檔案 ${command.path} 已存在`
+      }
+      const invalid = this.schemaError(command.path, command.file_text)
+      if (invalid) return invalid
+      await fs.mkdir(path.dirname(fullPath), { recursive: true })
+      await fs.writeFile(fullPath, command.file_text, 'utf-8')
+      return `檔案建立成功：${command.path}`
+    })
   }
 
   // STR_REPLACE：精確找到字串並取代（必須唯一，否則拒絕）
   async str_replace(command: Parameters<MemoryToolHandlers['str_replace']>[0]): Promise<string> {
-    const fullPath = this.resolveSafePath(command.path)
-    let content: string
-    try {
-      content = await fs.readFile(fullPath, 'utf-8')
-    } catch {
-      return `錯誤：找不到 ${command.path}`
-    }
-    const count = content.split(command.old_str).length - 1
-    if (count === 0) {
-      return `取代失敗：在 ${command.path} 中找不到 \`${command.old_str}\``
-    }
-    if (count > 1) {
-      return `取代失敗：\`${command.old_str}\` 在 ${command.path} 中出現 ${count} 次，請確保目標字串唯一`
-    }
-    const newContent = content.replace(command.old_str, command.new_str)
-    await fs.writeFile(fullPath, newContent, 'utf-8')
-    return `記憶檔案已更新：${command.path}`
+    return this.journaled('str_replace', [command.path], async () => {
+      const fullPath = this.resolveSafePath(command.path)
+      let content: string
+      try {
+        content = await fs.readFile(fullPath, 'utf-8')
+      } catch {
+        return `錯誤：找不到 ${command.path}`
+      }
+      const count = content.split(command.old_str).length - 1
+      if (count === 0) {
+        return `取代失敗：在 ${command.path} 中找不到 \`${command.old_str}\``
+      }
+      if (count > 1) {
+        return `取代失敗：\`${command.old_str}\` 在 ${command.path} 中出現 ${count} 次，請確保目標字串唯一`
+      }
+      const newContent = content.replace(command.old_str, command.new_str)
+      const invalid = this.schemaError(command.path, newContent, content)
+      if (invalid) return invalid
+      await fs.writeFile(fullPath, newContent, 'utf-8')
+      return `記憶檔案已更新：${command.path}`
+    })
   }
 
   // INSERT：在指定行號後插入文字（行號 0 = 檔案最前面）
   async insert(command: Parameters<MemoryToolHandlers['insert']>[0]): Promise<string> {
-    const fullPath = this.resolveSafePath(command.path)
-    let content: string
-    try {
-      content = await fs.readFile(fullPath, 'utf-8')
-    } catch {
-      return `錯誤：找不到 ${command.path}`
-    }
-    const lines = content.split('\n')
-    if (command.insert_line < 0 || command.insert_line > lines.length) {
-      return `錯誤：insert_line ${command.insert_line} 超出範圍 [0, ${lines.length}]`
-    }
-    lines.splice(command.insert_line, 0, command.insert_text)
-    await fs.writeFile(fullPath, lines.join('\n'), 'utf-8')
-    return `已在第 ${command.insert_line} 行插入內容至 ${command.path}`
+    return this.journaled('insert', [command.path], async () => {
+      const fullPath = this.resolveSafePath(command.path)
+      let content: string
+      try {
+        content = await fs.readFile(fullPath, 'utf-8')
+      } catch {
+        return `錯誤：找不到 ${command.path}`
+      }
+      const lines = content.split('\n')
+      if (command.insert_line < 0 || command.insert_line > lines.length) {
+        return `錯誤：insert_line ${command.insert_line} 超出範圍 [0, ${lines.length}]`
+      }
+      lines.splice(command.insert_line, 0, command.insert_text)
+      const newContent = lines.join('\n')
+      const invalid = this.schemaError(command.path, newContent, content)
+      if (invalid) return invalid
+      await fs.writeFile(fullPath, newContent, 'utf-8')
+      return `已在第 ${command.insert_line} 行插入內容至 ${command.path}`
+    })
   }
 
   // DELETE：刪除檔案或目錄
   async delete(command: Parameters<MemoryToolHandlers['delete']>[0]): Promise<string> {
-    const fullPath = this.resolveSafePath(command.path)
+    return this.journaled('delete', [command.path], async () => {
+      const fullPath = this.resolveSafePath(command.path)
+      try {
+        await fs.rm(fullPath, { recursive: true, force: true })
+        return `已刪除 ${command.path}`
+      } catch {
+        return `錯誤：找不到 ${command.path}`
+      }
+    })
+  }
+
+  // RENAME：重新命名或移動檔案
+  async rename(command: Parameters<MemoryToolHandlers['rename']>[0]): Promise<string> {
+    return this.journaled('rename', [command.old_path, command.new_path], async () => {
+      const oldFull = this.resolveSafePath(command.old_path)
+      const newFull = this.resolveSafePath(command.new_path)
+      if (!existsSync(oldFull)) {
+        return `錯誤：找不到 ${command.old_path}`
+      }
+      if (existsSync(newFull)) {
+        return `錯誤：${command.new_path} 已存在`
+      }
+      // 改名成有規範的檔案（例如把草稿改名為 user_profile.xml）也要符合格式
+      if ((await fs.stat(oldFull)).isFile()) {
+        const invalid = this.schemaError(command.new_path, await fs.readFile(oldFull, 'utf-8'))
+        if (invalid) return invalid
+      }
+      await fs.rename(oldFull, newFull)
+      return `已將 ${command.old_path} 重新命名為 ${command.new_path}`
+    })
+  }
+
+  // ── 以下不是 Memory Tool 的指令，而是給 server 內部工作（例如記憶整理）使用 ──
+  // 同樣經過 resolveSafePath 檢查，只能存取 /memories 底下的檔案
+
+  // 列出目錄中的檔案（略過隱藏檔與隱藏目錄），回傳 /memories/... 形式的路徑
+  // recursive 為 true 時一併列出子目錄中的檔案
+  async listFiles(memDir: string = '/memories', recursive = false): Promise<string[]> {
+    const fullPath = this.resolveSafePath(memDir)
+    const logicalDir = memDir.replace(/\/$/, '')
+    let entries
     try {
-      await fs.rm(fullPath, { recursive: true, force: true })
-      return `已刪除 ${command.path}`
+      entries = await fs.readdir(fullPath, { withFileTypes: true })
     } catch {
-      return `錯誤：找不到 ${command.path}`
+      return []
+    }
+    const files: string[] = []
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue
+      const logical = `${logicalDir}/${entry.name}`
+      if (entry.isFile()) files.push(logical)
+      else if (entry.isDirectory() && recursive) files.push(...(await this.listFiles(logical, true)))
     }
+    return files.sort()
   }
 
-  // RENAME：重新命名或移動檔案
-  async rename(command: Parameters<MemoryToolHandlers['rename']>[0]): Promise<string> {
-    const oldFull = this.resolveSafePath(command.old_path)
-    const newFull = this.resolveSafePath(command.new_path)
-    if (!existsSync(oldFull)) {
-      return `錯誤：找不到 ${command.old_path}`
+  // 讀取整個檔案，不存在時回傳 null
+  async readFile(memPath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.resolveSafePath(memPath), 'utf-8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw err
     }
-    if (existsSync(newFull)) {
-      return `錯誤：${command.new_path} 已存在`
+  }
+
+  // 覆寫整個檔案：先寫暫存檔再 rename，Claude 不會讀到寫一半的內容
+  async writeFile(memPath: string, content: string): Promise<void> {
+    const fullPath = this.resolveSafePath(memPath)
+    await this.journaled('write', [memPath], async () => {
+      await fs.mkdir(path.dirname(fullPath), { recursive: true })
+      const tmp = `${fullPath}.${process.pid}.tmp`
+      await fs.writeFile(tmp, content, 'utf-8')
+      await fs.rename(tmp, fullPath)
+    })
+  }
+
+  // 清空所有記憶（包含 .backups 中的備份與修改日誌），保留根目錄本身
+  // 這是用戶主動要求「忘記一切」，所以不寫日誌，也不留任何可還原的版本
+  async clear(): Promise<void> {
+    const entries = await fs.readdir(MEMORY_ROOT)
+    for (const name of entries) {
+      await fs.rm(path.join(MEMORY_ROOT, name), { recursive: true, force: true })
     }
-    await fs.rename(oldFull, newFull)
-    return `已將 ${command.old_path} 重新命名為 ${command.new_path}`
+    await clearJournal()
   }
 }
 
 // 建立 Memory Tool 實例（供 toolRunner 使用）
 // betaMemoryTool() 把我們的 handlers 包裝成 Claude 可呼叫的工具格式
-const memoryHandlers = new FileSystemMemoryHandlers()
-export const memoryTool = betaMemoryTool(memoryHandlers)
+// 每個對話各自建立，日誌才能記下是哪個對話修改了記憶
+export function createMemoryTool(sessionId: string) {
+  return betaMemoryTool(new FileSystemMemoryHandlers({ sessionId, source: 'tool' }))
+}
+
+// server 內部工作用的 handlers；需要標記其他日誌來源時自行建立，例如
+// new FileSystemMemoryHandlers({ sessionId: null, source: 'user' })
+export const memoryHandlers = new FileSystemMemoryHandlers()
 export { FileSystemMemoryHandlers }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -254,44 +499,70 @@ export { FileSystemMemoryHandlers }
 //   read_skill       — 知識工具：動態載入 SKILL.md 的完整互動協議
 //   show_mood_cards  — UI 工具：觸發前端渲染牌卡選擇介面（透過 SSE）
 //   show_meditation  — UI 工具：觸發前端渲染冥想引導元件（透過 SSE）
+//   UI 工具由各技能在 SKILL.md frontmatter 的 ui_tool 宣告（見下方 createUiTool）
+//
+// UI 工具的前提「必須已呼叫 read_skill 載入技能協議」由 server 強制執行：
+// 每一輪對話記錄 read_skill 成功載入了哪些技能（TurnToolTracker），
+// 協議還沒載入就呼叫 UI 工具時回傳錯誤的工具結果，不送出 'ui' 事件，Claude 會先載入協議再重試。
+// 和 read_skill 在同一次回應中一起呼叫也不算：Claude 決定牌卡內容時還沒看到協議。
+// UI 工具檢查的是 skillsLoaded —— 每次 API 呼叫的工具開始執行前，從 skillsRead 拍下的快照，
+// 所以結果不取決於同一次回應中的工具誰先執行完（SDK 是同時執行的）。
 // ─────────────────────────────────────────────────────────────────────────────
 
-// SKILLS_DIR：技能檔案的存放根目錄
-const SKILLS_DIR = path.resolve('./server/skills')
+// 一輪對話中的工具呼叫紀錄（每次 streamCounselorResponse 建立一份）
+export interface TurnToolTracker {
+  sessionId: string
+  skillsRead: Set<string>    // read_skill 成功載入的技能（包含這次 API 呼叫中剛載入的）
+  skillsLoaded: Set<string>  // 之前的 API 呼叫已經載入、Claude 看得到協議的技能（UI 工具以此為準）
+  uiShown: string | null     // 實際送出 'ui' 事件的 UI 工具（被拒絕的不算）
+}
+
+function createTurnToolTracker(sessionId: string): TurnToolTracker {
+  return { sessionId, skillsRead: new Set(), skillsLoaded: new Set(), uiShown: null }
+}
 
-// readSkillTool：動態技能載入工具
+// createReadSkillTool：動態技能載入工具
 // 當 Claude 根據對話情境判斷需要使用某技能時，先呼叫此工具載入完整協議，
 // 再按照協議執行。這對應官方 Skills 架構中 Claude 讀取 SKILL.md 的機制。
-const readSkillTool = {
-  name: 'read_skill',
-  description: `載入指定技能的完整互動協議（SKILL.md）。
+// enum 由 skills.ts 掃描到的技能清單自動產生，新增技能不必再改這裡
+function createReadSkillTool(skills: SkillMeta[], tracker: TurnToolTracker) {
+  return {
+    name: 'read_skill',
+    description: `載入指定技能的完整互動協議（SKILL.md）。
 使用時機：當你根據對話情境判斷應啟動某項技能時，先呼叫此工具取得完整協議，再按照協議執行。
 重要：必須先讀取技能協議，再執行技能的任何步驟。`,
-  input_schema: {
-    type: 'object' as const,
-    properties: {
-      skill_name: {
-        type: 'string',
-        description: '技能名稱，對應 server/skills/ 目錄下的資料夾名稱',
-        enum: ['mood-awareness-cards', 'meditation-guide'],
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        skill_name: {
+          type: 'string',
+          description: '技能名稱，對應 server/skills/ 目錄下的資料夾名稱',
+          enum: skills.map((s) => s.name),
+        },
       },
+      required: ['skill_name'],
     },
-    required: ['skill_name'],
-  },
-  run: async (input: unknown) => {
-    const { skill_name } = input as { skill_name: string }
-    const skillPath = path.join(SKILLS_DIR, skill_name, 'SKILL.md')
-    try {
-      const content = await fs.readFile(skillPath, 'utf-8')
-      console.log(`[Skill] 載入技能協議: ${skill_name}`)
-      return content
-    } catch {
-      return `錯誤：找不到技能 "${skill_name}" 的協議檔案（路徑：${skillPath}）`
-    }
-  },
+    run: async (input: unknown) => {
+      const { skill_name } = input as { skill_name: string }
+      // 只允許讀取 registry 中的技能，不直接把輸入拼進路徑
+      const skill = skills.find((s) => s.name === skill_name)
+      if (!skill) {
+        return `錯誤：找不到技能 "${skill_name}"，可用的技能：${skills.map((s) => s.name).join('、')}`
+      }
+      try {
+        const content = await fs.readFile(skill.file, 'utf-8')
+        tracker.skillsRead.add(skill.name)
+        console.log(`[Skill] 載入技能協議: ${skill_name}`)
+        return content
+      } catch {
+        return `錯誤：找不到技能 "${skill_name}" 的協議檔案（路徑：${skill.file}）`
+      }
+    },
+  }
 }
 
 // ── 冥想引導技能型別 ──────────────────────────────────────────────────────────
+// show_meditation 的 payload（input_schema 定義在 meditation-guide/SKILL.md）
 
 export interface MeditationBreathing {
   inhale_seconds: number  // 吸氣秒數
@@ -300,14 +571,47 @@ export interface MeditationBreathing {
   rest_seconds: number    // 休息秒數（0 = 略過）
 }
 
+// 預設呼吸節奏，由前端換算成秒數（src/meditation.ts）
+export type BreathingPreset = 'box' | 'calming' | '4-7-8' | 'simple'
+
 export interface MeditationEvent {
-  title: string                  // 冥想主題，例如「正念呼吸」「焦慮舒緩」
-  guidance: string               // 開場引導語（2-3 句，根據對話情境定制）
-  duration_minutes: number       // 建議冥想時長（分鐘）
-  breathing: MeditationBreathing // 呼吸節奏
+  title: string                   // 冥想主題，例如「正念呼吸」「焦慮舒緩」
+  guidance: string                // 開場引導語（2-3 句，根據對話情境定制）
+  duration_minutes: number        // 建議冥想時長（分鐘）
+  preset?: BreathingPreset        // 預設呼吸節奏，與 breathing 擇一
+  breathing?: MeditationBreathing // 自訂呼吸節奏
+}
+
+// ── 漸進式肌肉放鬆技能型別 ────────────────────────────────────────────────────
+// show_pmr_sequence 的 payload（input_schema 定義在 progressive-muscle-relaxation/SKILL.md）
+
+export interface PmrStep {
+  muscle_group: string    // 肌肉群名稱，例如「肩膀」
+  instruction: string     // 收緊的方式，例如「把肩膀往耳朵方向聳起」
+  tense_seconds: number   // 收緊秒數
+  release_seconds: number // 放鬆秒數
+}
+
+export interface PmrEvent {
+  title: string     // 練習主題，例如「睡前放鬆」
+  guidance: string  // 開場引導語
+  steps: PmrStep[]  // 依序進行的肌肉群
+}
+
+// ── 思維記錄技能型別 ──────────────────────────────────────────────────────────
+// show_thought_record 的 payload（input_schema 定義在 thought-record/SKILL.md）
+// 用戶填完的記錄見 thought-records.ts 的 ThoughtRecord
+
+export interface ThoughtRecordEvent {
+  intro: string                    // 表單上方的引導語
+  situation?: string               // 以下三欄是從對話整理的預填內容，用戶可以修改
+  automatic_thought?: string
+  emotion?: string
+  suggested_distortions?: string[] // Claude 觀察到的認知扭曲 id，在表單中標示為建議
 }
 
 // ── 牌卡技能型別 ──────────────────────────────────────────────────────────────
+// show_mood_cards 的 payload（input_schema 定義在 mood-awareness-cards/SKILL.md）
 
 export interface MoodCard {
   id: string
@@ -323,100 +627,316 @@ export interface CardEvent {
   cards: MoodCard[] // 4-6 張牌卡
 }
 
-function createMoodCardsTool(onCards: (event: CardEvent) => void) {
+// ─────────────────────────────────────────────────────────────────────────────
+// 宣告式 UI 工具
+//
+// UI 工具不再逐一手寫：每個技能在 SKILL.md 的 frontmatter 宣告 ui_tool
+// （名稱、說明、input_schema、回傳訊息），這裡用同一個工廠產生工具定義。
+// Claude 呼叫任何 UI 工具時，都透過 onUi 送出同一種 'ui' SSE 事件：
+//   { tool: 'show_mood_cards', payload: { prompt, cards } }
+// 前端依 tool 名稱從元件 registry 找到要渲染的元件，
+// 所以新增互動式技能不必再改 /api/chat 或 streamCounselorResponse 的簽名。
+//
+// 呼叫 UI 工具後 Agent 迴圈就停下來等用戶互動（見 streamCounselorResponse），
+// 工具結果先是 SKILL.md 宣告的 result，收到互動結果後換成真正的結果（見 interactions.ts）。
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface UiEvent {
+  tool: string     // UI 工具名稱，對應前端 registry 的 key
+  payload: unknown // Claude 呼叫工具時的 input（格式由該工具的 input_schema 決定）
+}
+
+function createUiTool(
+  skill: SkillMeta,
+  def: UiToolDefinition,
+  onUi: (event: UiEvent) => void,
+  tracker: TurnToolTracker
+) {
   return {
-    name: 'show_mood_cards',
+    name: def.name,
     // description 只描述 UI 機制，不包含技能知識
     // 完整的技能協議（何時啟動、如何引導、如何解讀、如何應對）在 SKILL.md 中
-    // Claude 必須先呼叫 read_skill("mood-awareness-cards") 才能使用此工具
-    description: `心情覺察牌卡的 UI 工具 — 觸發前端顯示牌卡選擇介面。
-前提：必須已呼叫 read_skill("mood-awareness-cards") 載入技能協議。
-呼叫後請勿輸出任何文字，靜待用戶選擇。`,
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        prompt: {
-          type: 'string',
-          description: '邀請用戶選牌的溫暖引導語（繁體中文）',
-        },
-        cards: {
-          type: 'array',
-          description: '要顯示的牌卡，選 4-6 張與當前話題最相關的',
-          minItems: 4,
-          maxItems: 6,
-          items: {
-            type: 'object',
-            properties: {
-              id: { type: 'string' },
-              name: { type: 'string', description: '繁體中文名稱' },
-              english_name: { type: 'string' },
-              symbol: { type: 'string', description: 'Emoji 符號' },
-              color_theme: {
-                type: 'string',
-                enum: ['ocean', 'sunrise', 'forest', 'sunshine', 'blossom', 'mountain', 'lavender', 'moonlight'],
-                description: '對應的色彩主題',
-              },
-              description: { type: 'string', description: '1-2 句繁體中文的直覺感受描述' },
-            },
-            required: ['id', 'name', 'english_name', 'symbol', 'color_theme', 'description'],
-          },
-        },
-      },
-      required: ['prompt', 'cards'],
-    },
+    description: `${def.description}\n前提：必須已呼叫 read_skill("${skill.name}") 載入技能協議。`,
+    input_schema: def.input_schema as { type: 'object'; [key: string]: unknown },
     // run 函數：Claude 呼叫工具時，toolRunner 自動執行這個函數
-    // 透過 closure 存取外部的 onCards callback，
-    // 把牌卡資料傳出去（最終透過 SSE 送到前端）
+    // 透過 closure 存取外部的 onUi callback，
+    // 把工具 input 傳出去（最終透過 SSE 送到前端）
+    // 這一輪還沒載入技能協議、或 input 不符合 input_schema → 丟出 ToolError，
+    // toolRunner 把它當成 is_error 的工具結果回給 Claude
     run: async (input: unknown) => {
-      onCards(input as CardEvent)
-      return '心情覺察牌卡已顯示給用戶。請靜待用戶選擇，不需輸出任何文字。'
+      if (!tracker.skillsLoaded.has(skill.name)) {
+        console.warn(
+          `[Skill] Session ${tracker.sessionId.slice(0, 8)}... 拒絕 ${def.name}：這一輪還沒呼叫 read_skill("${skill.name}")`
+        )
+        throw new ToolError(
+          `錯誤：使用 ${def.name} 之前必須先呼叫 read_skill("${skill.name}") 載入技能協議。` +
+            `請先呼叫 read_skill，依照協議準備內容後再呼叫 ${def.name}。這次呼叫沒有顯示給用戶。`
+        )
+      }
+      // input_schema 只是給 Claude 的說明，API 不保證 input 符合；不符合的 input 不送到前端
+      const problems = [...validateJsonSchema(def.input_schema, input), ...duplicateIdProblems(input)]
+      if (problems.length > 0) {
+        console.warn(
+          `[Skill] Session ${tracker.sessionId.slice(0, 8)}... 拒絕 ${def.name}：input 不符合 input_schema（${problems.length} 處）`
+        )
+        throw new ToolError(
+          `錯誤：${def.name} 的 input 不符合 input_schema：\n` +
+            problems.map((p) => `- ${p}`).join('\n') +
+            `\n請修正以上欄位後重新呼叫 ${def.name}。這次呼叫沒有顯示給用戶。`
+        )
+      }
+      onUi({ tool: def.name, payload: input })
+      tracker.uiShown = def.name
+      return def.result
     },
   }
 }
 
-// createMeditationTool：冥想引導 UI 工具工廠
-// 觸發前端渲染冥想引導元件（呼吸動畫、計時器、引導文字）
-// 必須先呼叫 read_skill("meditation-guide") 載入完整協議再使用
-function createMeditationTool(onMeditation: (event: MeditationEvent) => void) {
+// input_schema 表達不了「陣列裡每一項的 id 不能重複」（uniqueItems 比的是整個項目），另外檢查。
+// 牌卡的 id 是前端的 React key，也是 card_selection 對回牌卡的依據（interactions.ts），
+// 重複時用戶選的可能被當成另一張牌
+function duplicateIdProblems(input: unknown): string[] {
+  if (!input || typeof input !== 'object') return []
+  const problems: string[] = []
+  for (const [name, items] of Object.entries(input)) {
+    if (!Array.isArray(items)) continue
+    const seen = new Map<unknown, number>()
+    items.forEach((item: unknown, i) => {
+      const id = item && typeof item === 'object' ? (item as { id?: unknown }).id : undefined
+      if (id === undefined) return
+      const first = seen.get(id)
+      if (first === undefined) seen.set(id, i)
+      else problems.push(`${name}[${i}].id：和 ${name}[${first}] 重複，收到 ${JSON.stringify(id)}`)
+    })
+  }
+  return problems
+}
+
+function createUiTools(skills: SkillMeta[], onUi: (event: UiEvent) => void, tracker: TurnToolTracker) {
+  return skills.flatMap((skill) => (skill.uiTool ? [createUiTool(skill, skill.uiTool, onUi, tracker)] : []))
+}
+
+function uiToolNames(skills: SkillMeta[]): Set<string> {
+  return new Set(skills.flatMap((skill) => (skill.uiTool ? [skill.uiTool.name] : [])))
+}
+
+// 對話目前在等哪個 UI 工具的互動結果（前端重新整理後用來還原牌卡、冥想引導）
+export async function getPendingUi(sessionId: string): Promise<UiEvent | null> {
+  const pending = findPendingUiCall(await getSession(sessionId), uiToolNames(getSkillRegistry().skills))
+  return pending ? { tool: pending.tool, payload: pending.input } : null
+}
+
+// 對照等待中的 UI 工具呼叫驗證互動結果；回傳字串代表不接受的原因
+export async function checkInteraction(
+  sessionId: string,
+  interaction: Interaction
+): Promise<ResolvedInteraction | string> {
+  const history = await getSession(sessionId)
+  return resolveInteraction(findPendingUiCall(history, uiToolNames(getSkillRegistry().skills)), interaction)
+}
+
+// 完成的思維記錄由 server 直接存入長期記憶（和 memory 工具一樣寫入修改日誌），
+// 工具結果附上是否存成功，Claude 就不必再用 memory 工具存一次
+async function saveThoughtRecord(sessionId: string, record: ThoughtRecord, result: string): Promise<string> {
+  try {
+    await appendThoughtRecord(new FileSystemMemoryHandlers({ sessionId, source: 'tool' }), record)
+    console.log(`[Memory] 已存入思維記錄 ${THOUGHT_RECORDS_PATH}`)
+    return `${result}\n\n這份記錄已自動存入 ${THOUGHT_RECORDS_PATH}，不需要再用 memory 工具儲存。`
+  } catch (err) {
+    console.error('[Memory] 思維記錄存檔失敗:', err)
+    return `${result}\n\n這份記錄沒有存入長期記憶（存檔失敗），需要時可以用 memory 工具重點記錄在 user_profile.xml。`
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 心情紀錄
+//
+// 用戶每次選心情牌卡都存成一筆心情紀錄（每日打卡由 routes/mood.ts 寫入），
+// Claude 透過 read_mood_trends 讀取最近的趨勢摘要，在對話中回映用戶的心情變化。
+// ─────────────────────────────────────────────────────────────────────────────
+
+// 存檔失敗不影響這一輪對話，只記錄錯誤
+async function recordCardMood(userId: string, sessionId: string, event: CardEvent, cardId: string): Promise<void> {
+  const card = event.cards.find((c) => c.id === cardId)
+  if (!card) return
+  try {
+    await recordMood(userId, {
+      source: 'card',
+      card: { id: card.id, name: card.name, symbol: card.symbol, colorTheme: card.color_theme },
+      sessionId,
+    })
+    console.log(`[Mood] 用戶 ${userId.slice(0, 8)}... 選了牌卡「${card.name}」`)
+  } catch (err) {
+    console.error('[Mood] 心情紀錄存檔失敗:', err)
+  }
+}
+
+// 最近幾筆紀錄附在摘要後面，讓 Claude 看得到最新的狀態
+const MOOD_TOOL_RECENT_ENTRIES = 5
+
+function createMoodTool(userId: string | null) {
   return {
-    name: 'show_meditation',
-    description: `冥想引導的 UI 工具 — 觸發前端顯示冥想引導元件（呼吸動畫、計時器、引導文字）。
-前提：必須已呼叫 read_skill("meditation-guide") 載入技能協議。
-呼叫後請勿輸出任何文字，讓用戶進入冥想狀態。`,
+    name: 'read_mood_trends',
+    description: `讀取用戶最近 30 天的心情紀錄摘要：每日心情打卡的分數與趨勢、最常選的心情牌卡與色彩主題，以及最近幾筆紀錄。
+使用時機：對話開始時了解用戶最近的狀態、用戶提到「最近」的心情、或想回映一段時間以來的模式時。唯讀，不需要參數。`,
+    input_schema: {
+      type: 'object' as const,
+      properties: {},
+    },
+    run: async () => {
+      if (!userId) return '無法讀取心情紀錄：這個對話沒有提供用戶 ID。'
+      const entries = await getMoodEntries(userId)
+      return formatMoodSummary(summarizeMood(entries), entries.slice(-MOOD_TOOL_RECENT_ENTRIES))
+    },
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 練習作業
+//
+// Claude 用 assign_homework 佈置結構化的練習（存在 server，見 homework.ts），
+// 下次對話開始時前端會列出還沒完成的作業讓用戶回報；
+// 回報結果在下一輪附進 System Prompt（不必等 Claude 想到要查），review_homework 則隨時可以查看全部作業。
+// ─────────────────────────────────────────────────────────────────────────────
+
+function createHomeworkTools(userId: string | null, sessionId: string) {
+  const assign = {
+    name: 'assign_homework',
+    description: `為用戶佈置一份對話之後的練習作業（例如每天記錄一次自動化思考、睡前做一次呼吸練習）。
+作業會存起來，下次對話開始時畫面會列出來，讓用戶標記完成或跳過並留言。
+使用時機：和用戶討論並同意一個具體、可行的練習之後。一次只佈置一到兩份，不要在用戶沒有同意時佈置。`,
     input_schema: {
       type: 'object' as const,
       properties: {
         title: {
           type: 'string',
-          description: '冥想主題，例如「正念呼吸」「焦慮舒緩」「深度放鬆」',
+          description: `作業的簡短標題（${HOMEWORK_TITLE_MAX_LENGTH} 字以內），例如「每天一則思維記錄」`,
         },
-        guidance: {
+        instructions: {
           type: 'string',
-          description: '個性化的開場引導語（2-3 句，根據用戶當前狀態定制，語氣溫柔平靜）',
+          description: `具體的做法：做什麼、什麼時候做、做多久（${HOMEWORK_INSTRUCTIONS_MAX_LENGTH} 字以內）`,
         },
-        duration_minutes: {
-          type: 'number',
-          description: '建議冥想時長（分鐘），通常 3-10 分鐘',
+        due_in_days: {
+          type: 'integer',
+          description: `幾天內完成（1 到 ${HOMEWORK_MAX_DUE_DAYS}），通常是到下次對話前`,
           minimum: 1,
-          maximum: 30,
-        },
-        breathing: {
-          type: 'object',
-          description: '呼吸節奏設定',
-          properties: {
-            inhale_seconds:  { type: 'number', description: '吸氣秒數', minimum: 2, maximum: 10 },
-            hold_seconds:    { type: 'number', description: '屏氣秒數，0 表示略過', minimum: 0, maximum: 10 },
-            exhale_seconds:  { type: 'number', description: '呼氣秒數', minimum: 2, maximum: 10 },
-            rest_seconds:    { type: 'number', description: '休息秒數，0 表示略過', minimum: 0, maximum: 10 },
-          },
-          required: ['inhale_seconds', 'hold_seconds', 'exhale_seconds', 'rest_seconds'],
+          maximum: HOMEWORK_MAX_DUE_DAYS,
         },
       },
-      required: ['title', 'guidance', 'duration_minutes', 'breathing'],
+      required: ['title', 'instructions', 'due_in_days'],
+    },
+    run: async (input: unknown) => {
+      if (!userId) return '錯誤：這個對話沒有提供用戶 ID，無法佈置作業'
+      const { title, instructions, due_in_days } = input as { title: unknown; instructions: unknown; due_in_days: unknown }
+      if (typeof title !== 'string' || !title.trim() || title.length > HOMEWORK_TITLE_MAX_LENGTH) {
+        return `錯誤：title 必須是 ${HOMEWORK_TITLE_MAX_LENGTH} 字以內的文字`
+      }
+      if (typeof instructions !== 'string' || !instructions.trim() || instructions.length > HOMEWORK_INSTRUCTIONS_MAX_LENGTH) {
+        return `錯誤：instructions 必須是 ${HOMEWORK_INSTRUCTIONS_MAX_LENGTH} 字以內的文字`
+      }
+      if (!Number.isInteger(due_in_days) || (due_in_days as number) < 1 || (due_in_days as number) > HOMEWORK_MAX_DUE_DAYS) {
+        return `錯誤：due_in_days 必須是 1 到 ${HOMEWORK_MAX_DUE_DAYS} 的整數`
+      }
+      const assignment = await assignHomework(userId, sessionId, {
+        title: title.trim(),
+        instructions: instructions.trim(),
+        dueInDays: due_in_days as number,
+      })
+      console.log(`[Homework] 用戶 ${userId.slice(0, 8)}... 新作業「${assignment.title}」（期限 ${assignment.dueDate}）`)
+      return `已佈置作業「${assignment.title}」，期限 ${assignment.dueDate}（id: ${assignment.id}）。下次對話開始時會提醒用戶回報，不需要再寫進 session_summaries.xml。`
+    },
+  }
+
+  const review = {
+    name: 'review_homework',
+    description: `讀取用戶的練習作業：進行中的作業（含是否過期），以及最近完成或跳過的作業和用戶留言。
+使用時機：對話開始時、佈置新作業之前、或用戶提到之前的練習時。唯讀，不需要參數。`,
+    input_schema: {
+      type: 'object' as const,
+      properties: {},
     },
+    run: async () => {
+      if (!userId) return '無法讀取作業：這個對話沒有提供用戶 ID。'
+      return reviewHomework(userId)
+    },
+  }
+
+  return [assign, review]
+}
+
+// 讀取失敗不影響這一輪對話，下一輪再附上
+async function homeworkUpdatesFor(userId: string | null): Promise<string | null> {
+  if (!userId) return null
+  try {
+    return await takeHomeworkUpdates(userId)
+  } catch (err) {
+    console.error('[Homework] 讀取作業回報失敗:', err)
+    return null
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 工具活動事件
+//
+// 讀記憶、載入技能時，用戶原本只看到「思考中」的動畫好幾秒。
+// 每個工具執行前後各送出一次事件（SSE tool_start / tool_end），前端顯示成狀態列。
+//
+// 事件只帶工具名稱與不敏感的摘要：
+//   memory      — 指令（view、create…）；路徑只在是 System Prompt 定義的常用檔案時才附上，
+//                 Claude 自己命名的檔案名稱可能就含有個人資訊
+//   read_skill  — 技能名稱
+//   UI 工具     — 不帶摘要（payload 另外透過 'ui' 事件送出）
+// 工具的輸入內容與回傳結果（例如記憶檔案內容）一律不送到前端。
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ToolActivitySummary {
+  command?: string // memory 工具的指令
+  path?: string    // 只有常用記憶檔案才會出現
+  skill?: string   // read_skill 載入的技能
+}
+
+export interface ToolActivityEvent {
+  id: string       // 同一次工具呼叫的 tool_start 與 tool_end 使用相同 id
+  tool: string
+  summary: ToolActivitySummary
+  ok?: boolean     // 只出現在 tool_end：工具是否執行成功
+}
+
+function summarizeToolInput(tool: string, input: unknown): ToolActivitySummary {
+  const fields = (input ?? {}) as Record<string, unknown>
+  if (tool === 'memory') {
+    const command = typeof fields.command === 'string' ? fields.command : undefined
+    const target = fields.path ?? fields.old_path
+    const known = typeof target === 'string' && (path.posix.normalize(target) === '/memories' || schemaFor(target))
+    return { command, path: known ? path.posix.normalize(target) : undefined }
+  }
+  if (tool === 'read_skill') {
+    return { skill: typeof fields.skill_name === 'string' ? fields.skill_name : undefined }
+  }
+  return {}
+}
+
+// 包裝工具的 run：執行前後通知 onTool，其餘欄位（name、input_schema、parse…）原封不動
+function withToolActivity<T extends { name: string; run: (input: never) => unknown }>(
+  tool: T,
+  onTool: (event: ToolActivityEvent) => void
+): T {
+  const run = tool.run as (input: unknown) => unknown
+  return {
+    ...tool,
     run: async (input: unknown) => {
-      onMeditation(input as MeditationEvent)
-      return '冥想引導元件已顯示給用戶。請靜待用戶完成冥想，不需輸出任何文字。'
+      const id = randomUUID()
+      onTool({ id, tool: tool.name, summary: summarizeToolInput(tool.name, input) })
+      try {
+        const result = await run(input)
+        // 工具以「錯誤：」開頭的文字回報失敗（例如找不到檔案、格式不符）
+        const ok = !(typeof result === 'string' && result.startsWith('錯誤：'))
+        onTool({ id, tool: tool.name, summary: {}, ok })
+        return result
+      } catch (err) {
+        onTool({ id, tool: tool.name, summary: {}, ok: false })
+        throw err
+      }
     },
   }
 }
@@ -430,9 +950,10 @@ function createMeditationTool(onMeditation: (event: MeditationEvent) => void) {
 //
 // Skills Registry 只包含：技能名稱、一句話描述、啟動時機關鍵字
 // 完整的技能知識（解讀框架、應對策略、詳細流程）由 Claude 按需載入
+// Registry 表格由 skills.ts 依照各 SKILL.md 的 frontmatter 自動產生
 // ─────────────────────────────────────────────────────────────────────────────
 
-export const COUNSELOR_SYSTEM_PROMPT = `
+const COUNSELOR_BASE_PROMPT = `
 You are a warm, compassionate psychological counseling assistant trained in Cognitive Behavioral Therapy (CBT) and evidence-based approaches. Respond in the same language the user uses (Traditional Chinese or English).
 
 你是一位溫暖、富有同理心的心理諮詢助手，接受過認知行為治療（CBT）與實證諮詢方法的訓練。請以用戶使用的語言（繁體中文或英文）回應。
@@ -468,14 +989,30 @@ You are a warm, compassionate psychological counseling assistant trained in Cogn
 2. **對話摘要** (\`/memories/session_summaries.xml\`) — 儲存：
    - 每次對話的日期和主要主題
    - 取得的進展和獲得的洞察
-   - 佈置的功課或練習
+   - 佈置的功課或練習（具體的作業請用 \`assign_homework\` 建立，這裡只需一句帶過）
    - 用戶對不同技巧的反應
+   - 每筆摘要請加上日期屬性，例如 \`<session date="2026-03-01">\`
+   - 較早的摘要會被定期彙整成 \`<digest period="YYYY-MM">\`，請保留這些彙整，不要刪除
 
 3. **重複主題** (\`/memories/recurring_themes.xml\`) — 儲存：
    - 跨對話觀察到的模式
    - 已識別的觸發因素
    - 用戶展現的優勢和資源
 
+**檔案格式（寫入時會檢查，不符合會被拒絕並告訴你哪裡需要修正）：**
+${buildMemorySchemaGuide()}
+
+4. **心情紀錄**（\`read_mood_trends\` 工具，唯讀）— 由系統自動記錄：
+   - 用戶每次選的心情牌卡，以及每日心情打卡的分數（1-5）
+   - 可以用來溫柔地回映一段時間的變化，例如「這兩週你常選『疲憊』這張牌」
+   - 不需要用 memory 工具重複記錄這些數據
+
+5. **練習作業**（\`assign_homework\`、\`review_homework\` 工具）：
+   - 和用戶一起決定對話後的練習時，用 \`assign_homework\` 建立，寫清楚做法與期限
+   - 用戶會在下次對話開始時標記完成或跳過並留言，回報結果會出現在下方的「練習作業回報」段落
+   - 想查看所有進行中或最近結束的作業時，用 \`review_homework\`
+   - 回應作業結果時：完成了就肯定努力並問問發現了什麼，跳過了就好奇地了解阻礙，不要責備
+
 **使用時機：**
 - 對話開始時，先查看記憶以提供連貫性
 - 發現重要資訊時，主動儲存
@@ -505,49 +1042,163 @@ You are a warm, compassionate psychological counseling assistant trained in Cogn
 
 以下技能的完整協議存放於獨立的 SKILL.md 檔案中。
 **使用任何技能前，必須先呼叫 \`read_skill\` 工具載入完整協議，再按協議執行。**
-
-| 技能名稱 | 說明 | 建議啟動時機 |
-|---------|------|------------|
-| mood-awareness-cards | 心情覺察牌卡 — 透過直覺式視覺選擇幫助接觸深層情緒 | 用戶難以言語化情緒（說不清楚/很複雜/不知道）；對話開始的暖身；對話陷入瓶頸；用戶過度理智化 |
-| meditation-guide | 冥想引導 — 結構化呼吸練習幫助放鬆、減壓、穩定身心 | 用戶說「太緊張」「好焦慮」「需要放鬆」「想冥想」；情緒激動需先穩定；明確要求呼吸練習 |
 `.trim()
 
+export function buildCounselorSystemPrompt(skills: SkillMeta[]): string {
+  return `${COUNSELOR_BASE_PROMPT}\n\n${buildSkillsRegistryTable(skills)}`
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 對話歷史壓縮（Compaction）
+//
+// 每輪對話開始前檢查歷史的估計 token 數，超過預算時：
+//   較早的訊息 + 上一份摘要 → 較便宜的模型整理成新摘要
+//   最近的訊息 → 原文保留
+// 壓縮結果直接寫回 SessionStore，之後每輪都從摘要 + 最近訊息開始。
+// ─────────────────────────────────────────────────────────────────────────────
+
+let anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+})
+
+let compactionOptions: CompactionOptions = {
+  budgetTokens: HISTORY_TOKEN_BUDGET,
+  keepRecentMessages: HISTORY_KEEP_RECENT,
+  summarize: createModelSummarizer(anthropic),
+}
+
+// 換掉所有 API 呼叫使用的 client：Agent 迴圈、對話摘要、危機確認（crisis.ts）、記憶彙整（memory-consolidation.ts）
+// 測試時傳入 testing/scripted-client.ts 的假 client，不需要 API Key 也不會真的呼叫 API
+export function setAnthropicClient(client: Anthropic): void {
+  anthropic = client
+  compactionOptions = { ...compactionOptions, summarize: createModelSummarizer(client) }
+  setCrisisClassifierClient(client)
+  setConsolidationClient(client)
+}
+
+// 測試或調整用：例如換成不呼叫 API 的 stub summarizer
+export function setCompactionOptions(options: Partial<CompactionOptions>): void {
+  compactionOptions = { ...compactionOptions, ...options }
+}
+
+// 摘要失敗不應該讓這輪對話失敗：記錄錯誤後沿用完整歷史，下一輪再試
+export async function compactSession(sessionId: string): Promise<ShortTermMessage[]> {
+  const msgs = await getSession(sessionId)
+  try {
+    const result = await compactHistory(msgs, compactionOptions)
+    if (!result.compacted) return msgs
+    await sessionStore.save(sessionId, result.messages)
+    console.log(
+      `[Compaction] Session ${sessionId.slice(0, 8)}... 已將 ${result.summarizedCount} 則較早的訊息整理成摘要` +
+        `（約 ${result.tokensBefore} → ${result.tokensAfter} tokens）`
+    )
+    return result.messages
+  } catch (err) {
+    console.error(`[Compaction] Session ${sessionId.slice(0, 8)}... 摘要失敗，本輪沿用完整歷史:`, err)
+    return msgs
+  }
+}
+
+// 把短期記憶轉成 API 的 messages 格式
+//   - 含工具呼叫的訊息直接使用保存的內容區塊（tool_use / tool_result）
+//   - 摘要加上說明前綴，讓 Claude 知道這不是用戶說的話
+//   - 被中斷的回覆加上標註，讓 Claude 知道上一則沒有說完
+//   - 相同角色的連續訊息合併成一則（摘要後面緊接著的就是用戶訊息；
+//     工具結果後面緊接著的可能是下一輪的用戶訊息）
+const SUMMARY_PREFIX = '【先前對話摘要】以下是這段對話較早內容的整理，原始訊息已不在對話歷史中：'
+
+type ApiMessage = Anthropic.Beta.Messages.BetaMessageParam
+
+function toApiMessages(history: ShortTermMessage[]): ApiMessage[] {
+  const messages: ApiMessage[] = []
+  for (const m of history) {
+    const content = m.blocks
+      ? m.blocks
+      : m.summary
+        ? `${SUMMARY_PREFIX}\n${m.content}`
+        : m.truncated
+          ? `${m.content}\n\n${TRUNCATED_NOTE}`
+          : m.content
+    const last = messages[messages.length - 1]
+    if (last?.role === m.role) {
+      last.content = mergeApiContent(last.content, content)
+    } else {
+      messages.push({ role: m.role, content })
+    }
+  }
+  return messages
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 核心函數：串流諮詢回應
 //
 // 原理：
-// 1. 把用戶訊息加入短期記憶
+// 1. 把用戶訊息（或 UI 工具的互動結果）加入短期記憶（必要時先壓縮較早的歷史）
 // 2. 用 toolRunner 啟動 Agent 迴圈：
 //    Claude → 工具呼叫（讀/寫記憶）→ Claude → ... → 最終文字回覆
+//    Claude 呼叫 UI 工具時停在工具結果，等用戶互動後的下一次請求再繼續
 // 3. 透過 runner.on('text') 把文字串流傳給呼叫者
-// 4. 把最終文字存回短期記憶
+// 4. 把每次 API 呼叫的回覆與工具結果存回短期記憶
+// 每次 API 呼叫結束後透過 onUsage 回報用掉的 token（每日上限見 rate-limit.ts）
 // ─────────────────────────────────────────────────────────────────────────────
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-})
-
 export async function streamCounselorResponse(
   sessionId: string,
-  userMessage: string,
+  // 前端產生的用戶 ID，用來存取心情紀錄（見 mood.ts）；舊版前端沒有送時為 null
+  userId: string | null,
+  // 用戶打的訊息，或 UI 工具的互動結果（呼叫前先用 checkInteraction 驗證）
+  input: string | Interaction,
   onTextDelta: (text: string) => void,
-  onCards: (event: CardEvent) => void,
-  onMeditation: (event: MeditationEvent) => void,
+  onUi: (event: UiEvent) => void,
+  // onTool：每個工具執行前後各呼叫一次（只含工具名稱與摘要，不含內容）
+  onTool: (event: ToolActivityEvent) => void,
+  // onUsage：每次 API 呼叫結束後呼叫一次，回報這次的 input + output token 數
+  onUsage: (tokens: number) => void,
   onDone: () => void,
-  onError: (err: Error) => void
+  onError: (err: Error) => void,
+  // signal：前端斷線時由 index.ts 觸發，用來中止 Agent 迴圈
+  signal?: AbortSignal
 ): Promise<void> {
-  // 1. 把用戶訊息加入短期記憶
-  addToSession(sessionId, 'user', userMessage)
+  // 目前這一次 API 呼叫已經送出的文字（中斷時只有這部分還沒成為完整的訊息）
+  let iterationText = ''
+  // 已經完成的 API 呼叫（assistant 訊息與工具結果），由 toolRunner 累積
+  let completedMessages: () => ApiMessage[] = () => []
 
-  // 2. 從短期記憶取得完整對話歷史
-  const messages = getSession(sessionId).map((m) => ({
-    role: m.role as 'user' | 'assistant',
-    content: m.content,
-  }))
+  try {
+    const { skills } = getSkillRegistry()
+    const uiTools = uiToolNames(skills)
+    const tracker = createTurnToolTracker(sessionId)
 
-  let fullAssistantText = ''
+    // 1. 把用戶訊息加入短期記憶（store 讀寫失敗也走 onError）；帶著 userId 時記下對話與長期記憶的擁有者
+    //    上一輪停在 UI 工具等用戶互動時：
+    //      互動結果 → 換成那個工具的結果，Claude 接著解讀
+    //      用戶直接打字 → 工具結果註明用戶沒有使用介面，再接上用戶的訊息
+    if (userId) {
+      await claimMemoryOwner(userId)
+      await sessionStore.claim(sessionId, userId)
+    }
+    const history = await getSession(sessionId)
+    const pending = findPendingUiCall(history, uiTools)
+    if (typeof input === 'string') {
+      const settled = pending ? settlePendingUiCall(history, pending, SKIPPED_RESULT) : history
+      await sessionStore.save(sessionId, [
+        ...settled,
+        { role: 'user', content: input, createdAt: new Date().toISOString() },
+      ])
+    } else {
+      const resolved = resolveInteraction(pending, input)
+      if (typeof resolved === 'string') throw new Error(`錯誤：${resolved}`)
+      const result = input.type === 'thought_record' ? await saveThoughtRecord(sessionId, input.record, resolved.result) : resolved.result
+      await sessionStore.save(sessionId, settlePendingUiCall(history, resolved.pending, result, resolved.display))
+      if (input.type === 'card_selection' && userId) {
+        await recordCardMood(userId, sessionId, resolved.pending.input as CardEvent, input.cardId)
+      }
+    }
+
+    // 2. 取得對話歷史：超過 token 預算時先把較早的訊息壓縮成摘要
+    const messages = toApiMessages(await compactSession(sessionId))
+    const homeworkUpdates = await homeworkUpdatesFor(userId)
 
-  try {
     // 3. 啟動 toolRunner（串流模式）
     //
     // TypeScript SDK 的串流方式：加上 stream: true，用 for await 雙層迴圈讀取
@@ -560,43 +1211,129 @@ export async function streamCounselorResponse(
     //   content_block_delta + text_delta = Claude 正在輸出文字
     //
     // 注意：runner.on('text', ...) 是 Python SDK 的寫法，TypeScript 不支援
+    //
+    // 每次請求都從最新的 Skills Registry 產生 System Prompt 與 read_skill 工具，
+    // 開發時修改 SKILL.md 後不必重啟 server
     const runner = anthropic.beta.messages.toolRunner({
       model: 'claude-haiku-4-5-20251001',
       max_tokens: 4096,
-      system: COUNSELOR_SYSTEM_PROMPT,
+      // 用戶剛回報的練習作業附在最後（只出現在回報後的第一輪）
+      system: homeworkUpdates ? `${buildCounselorSystemPrompt(skills)}\n\n${homeworkUpdates}` : buildCounselorSystemPrompt(skills),
       // 工具列表：
-      //   memoryTool          — 長期記憶讀寫（永久載入）
-      //   readSkillTool       — 技能協議動態載入（永久載入，但協議內容按需讀取）
-      //   createMoodCardsTool — 牌卡 UI 觸發（永久載入，但必須先讀取技能協議才使用）
-      tools: [memoryTool, readSkillTool, createMoodCardsTool(onCards), createMeditationTool(onMeditation)],
+      //   memory              — 長期記憶讀寫（永久載入，修改會寫入日誌）
+      //   read_skill          — 技能協議動態載入（永久載入，但協議內容按需讀取）
+      //   read_mood_trends    — 心情紀錄摘要（永久載入，唯讀）
+      //   assign_homework     — 佈置練習作業（永久載入）
+      //   review_homework     — 作業狀態與用戶回報（永久載入，唯讀）
+      //   UI 工具             — 由技能宣告（永久載入，但必須先讀取技能協議才使用）
+      //   每個工具都經過 withToolActivity 包裝，執行時通知前端
+      tools: [
+        createMemoryTool(sessionId),
+        createReadSkillTool(skills, tracker),
+        createMoodTool(userId),
+        ...createHomeworkTools(userId, sessionId),
+        ...createUiTools(skills, onUi, tracker),
+      ].map(
+        (tool) => withToolActivity(tool, onTool)
+      ),
       betas: ['context-management-2025-06-27'],
       messages,
       max_iterations: 10,
       stream: true,  // 啟用串流模式
     })
+    completedMessages = () => runner.params.messages.slice(messages.length)
+    // 呼叫了 UI 工具的那次 API 呼叫與工具結果（toolRunner 還沒把它們加進 params.messages 就停下來了）
+    let awaitingUser: ApiMessage[] = []
 
     // 4. 雙層 for await 迴圈讀取串流
+    //
+    // 中斷處理：
+    //   - 串流進行中斷線 → messageStream.abort() 讓內層迴圈拋出 APIUserAbortError
+    //   - 兩輪之間斷線 → 在取下一個 messageStream 前 break
+    //   break 外層迴圈會結束 runner，尚未執行的工具（例如寫入記憶）不會再跑
     for await (const messageStream of runner) {
-      // messageStream = 單次 API 呼叫的串流
-      for await (const event of messageStream) {
-        if (
-          event.type === 'content_block_delta' &&
-          event.delta.type === 'text_delta'
-        ) {
-          // 每個文字片段即時傳給前端（透過 SSE）
-          fullAssistantText += event.delta.text
-          onTextDelta(event.delta.text)
+      if (signal?.aborted) break
+      // 這次 API 呼叫的工具要等串流讀完才執行：先記下之前已經載入的技能
+      tracker.skillsLoaded = new Set(tracker.skillsRead)
+
+      const abortStream = () => messageStream.abort()
+      signal?.addEventListener('abort', abortStream, { once: true })
+      iterationText = ''
+      try {
+        // messageStream = 單次 API 呼叫的串流
+        for await (const event of messageStream) {
+          if (
+            event.type === 'content_block_delta' &&
+            event.delta.type === 'text_delta'
+          ) {
+            // 每個文字片段即時傳給前端（透過 SSE）
+            iterationText += event.delta.text
+            onTextDelta(event.delta.text)
+          }
+        }
+      } finally {
+        signal?.removeEventListener('abort', abortStream)
+      }
+
+      if (signal?.aborted) break
+
+      // Claude 呼叫了 UI 工具：執行這次的工具（送出 'ui' 事件）後就結束這一輪，
+      // 不再讓 Claude 繼續回覆，等用戶互動結果當作工具結果送回來
+      // UI 工具被拒絕（還沒載入技能協議）時沒有顯示任何東西，讓迴圈繼續，Claude 收到錯誤後會先呼叫 read_skill
+      // （generateToolResponse 的結果會被快取，toolRunner 繼續時不會重複執行工具）
+      const message = await messageStream.finalMessage()
+      const { input_tokens, output_tokens, cache_creation_input_tokens, cache_read_input_tokens } = message.usage
+      onUsage(input_tokens + output_tokens + (cache_creation_input_tokens ?? 0) + (cache_read_input_tokens ?? 0))
+      if (message.content.some((block) => block.type === 'tool_use' && uiTools.has(block.name))) {
+        const toolResponse = await runner.generateToolResponse()
+        if (tracker.uiShown) {
+          awaitingUser = [{ role: message.role, content: message.content }, ...(toolResponse ? [toolResponse] : [])]
+          break
         }
       }
     }
 
-    // 5. 把最終文字存入短期記憶
-    if (fullAssistantText.trim()) {
-      addToSession(sessionId, 'assistant', fullAssistantText)
+    if (signal?.aborted) {
+      await handleCancelledTurn(sessionId, completedMessages(), iterationText)
+      return
     }
 
+    // 5. 把這一輪的完整內容存入短期記憶：每次 API 呼叫的文字與工具呼叫、工具結果
+    //    下一輪 Claude 看得到自己讀過哪個技能、提供過哪些牌卡、改過哪些記憶
+    const createdAt = new Date().toISOString()
+    await appendToSession(
+      sessionId,
+      [...completedMessages(), ...awaitingUser].map((m) => fromApiMessage(m, createdAt))
+    )
+
     onDone()
   } catch (err) {
+    // 斷線造成的中止不是錯誤：前端已經離開，不需要（也無法）再送 error 事件
+    if (signal?.aborted) {
+      await handleCancelledTurn(sessionId, completedMessages(), iterationText)
+      return
+    }
     onError(err instanceof Error ? err : new Error(String(err)))
   }
 }
+
+// 被中斷的回覆：已經完成的 API 呼叫（含工具呼叫與結果）照常保存，
+// 最後一次呼叫已經送到前端的部分文字也保留下來並標記為 truncated，
+// 下次對話時 Claude 會看到這則回覆沒有說完，而不是假裝什麼都沒發生
+const TRUNCATED_NOTE = '（此回覆因用戶中斷連線而未完成）'
+
+async function handleCancelledTurn(sessionId: string, completed: ApiMessage[], partialText: string) {
+  const kept = partialText.trim() ? partialText.length : 0
+  console.log(
+    `[Chat] Session ${sessionId.slice(0, 8)}... 用戶中斷連線，已取消 Agent 迴圈` +
+      (kept ? `（保留 ${kept} 字未完成回覆）` : '（尚無回覆內容）')
+  )
+  const createdAt = new Date().toISOString()
+  const messages = completed.map((m) => fromApiMessage(m, createdAt))
+  if (kept) messages.push({ role: 'assistant', content: partialText, createdAt, truncated: true })
+  try {
+    await appendToSession(sessionId, messages)
+  } catch (err) {
+    console.error(`[Chat] 儲存未完成回覆失敗:`, err)
+  }
+}
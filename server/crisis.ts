@@ -0,0 +1,219 @@
+/**
+ * crisis.ts — 伺服器端危機偵測
+ *
+ * 危機處理協議原本只寫在 System Prompt 裡，用戶會不會看到求助專線，
+ * 完全取決於模型有沒有照做。這裡在每則訊息進入 Agent 迴圈之前，
+ * 先做一次「確定性」的篩檢：
+ *
+ *   1. 關鍵字與句型比對（繁中、簡中、英文、日文）
+ *      - high：明確的自殺／自傷意圖 → 直接觸發
+ *      - possible：語意模糊的說法（例如「消失就好了」）→ 視設定交給模型判斷
+ *   2. （選用）模型分類：CRISIS_MODEL_CHECK=true 時，possible 的訊息再請模型確認
+ *      模型呼叫失敗時一律視為危機（寧可多顯示資源，也不要漏掉）
+ *
+ * 觸發時 index.ts 會送出 'crisis' SSE 事件（前端顯示無法關閉的求助資源橫幅），
+ * 並寫入一筆稽核紀錄 —— 不論 Claude 接下來怎麼回覆。
+ */
+
+import Anthropic from '@anthropic-ai/sdk'
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+
+export type CrisisLevel = 'high' | 'possible'
+
+interface CrisisPattern {
+  id: string
+  level: CrisisLevel
+  pattern: RegExp
+  words?: boolean // true：比對保留單字間空白的文字（英文），否則比對移除空白的文字（中文、日文）
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 關鍵字與句型
+//
+// 比對前會轉成小寫。中文、日文沒有單字間的空白，比對前移除所有空白，所以「想 死」也能命中；
+// 英文則保留單字邊界（多個空白視為一個），pattern 用 \b 與 \s* 比對，
+// 否則「going to diet」去掉空白後會變成 goingtodie 而誤判。
+// 中文同時列出繁體與簡體寫法。
+// ─────────────────────────────────────────────────────────────────────────────
+
+const CRISIS_PATTERNS: CrisisPattern[] = [
+  // 繁體中文 / 簡體中文
+  { id: 'zh-suicide', level: 'high', pattern: /自殺|自杀|輕生|轻生|尋死|寻死/ },
+  { id: 'zh-want-die', level: 'high', pattern: /(想|好想|很想|想要)(去)?死|不想活|活不下去|不想再活/ },
+  { id: 'zh-end-life', level: 'high', pattern: /(結束|结束|了結|了结)(自己的|我的)?(生命|性命|一切)/ },
+  { id: 'zh-self-harm', level: 'high', pattern: /(傷害|伤害|割)(自己|手腕)|割腕|自殘|自残|自傷|自伤/ },
+  { id: 'zh-method', level: 'high', pattern: /跳樓|跳楼|燒炭|烧炭|上吊|吞(藥|药|安眠藥|安眠药)/ },
+  { id: 'zh-disappear', level: 'possible', pattern: /(消失|不在了|離開這個世界|离开这个世界)(就好|算了|比較好|比较好)/ },
+  { id: 'zh-burden', level: 'possible', pattern: /沒有我(會|大家會)?(更好|比較好)|没有我(会|大家会)?(更好|比较好)/ },
+  { id: 'zh-no-point', level: 'possible', pattern: /活著(沒有|没有)意義|活着没有意义|(沒有|没有)活下去的理由/ },
+
+  // English（比對保留空白的文字；\s* 讓「kill myself」「killmyself」都能命中）
+  {
+    id: 'en-suicide',
+    level: 'high',
+    words: true,
+    pattern: /\bsuicid(e|al)\b|\bkill\s*my\s*self\b|\bend\s*my\s*life\b|\btake\s*my\s*own\s*life\b/,
+  },
+  {
+    id: 'en-want-die',
+    level: 'high',
+    words: true,
+    pattern: /\b(want\s*to|wanna|going\s*to)\s*die\b|\bdon['’]?t\s*want\s*to\s*(live|be\s*alive)\b/,
+  },
+  {
+    id: 'en-self-harm',
+    level: 'high',
+    words: true,
+    pattern: /\bself-?\s*harm|\bhurt\s*my\s*self\b|\bcut\s*my\s*self\b|\boverdos(e|ed|ing)\b/,
+  },
+  {
+    id: 'en-burden',
+    level: 'possible',
+    words: true,
+    pattern: /\bbetter\s*off\s*without\s*me\b|\bno\s*reason\s*to\s*live\b|\bcan['’]?t\s*go\s*on\b|\bwant\s*to\s*disappear\b/,
+  },
+
+  // 日本語
+  { id: 'ja-want-die', level: 'high', pattern: /死にたい|自殺|自傷|リスカ/ },
+  { id: 'ja-disappear', level: 'possible', pattern: /消えたい|生きる意味がない/ },
+]
+
+export interface CrisisMatch {
+  id: string
+  level: CrisisLevel
+  text: string // 命中的片段（稽核用，不保存整則訊息）
+}
+
+export interface CrisisAssessment {
+  detected: boolean
+  level: CrisisLevel | null
+  source: 'keyword' | 'model' | null
+  matches: CrisisMatch[]
+}
+
+// 零寬字元一律移除；words 版本把連續空白合併成一個，compact 版本移除所有空白
+function normalize(message: string): { words: string; compact: string } {
+  const text = message.normalize('NFKC').toLowerCase().replace(/[\u200b-\u200d\ufeff]/g, '')
+  return { words: text.replace(/\s+/g, ' '), compact: text.replace(/\s+/g, '') }
+}
+
+export function matchCrisisPatterns(message: string): CrisisMatch[] {
+  const text = normalize(message)
+  const matches: CrisisMatch[] = []
+  for (const { id, level, pattern, words } of CRISIS_PATTERNS) {
+    const m = pattern.exec(words ? text.words : text.compact)
+    if (m) matches.push({ id, level, text: m[0] })
+  }
+  return matches
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 模型分類（選用）
+//
+// 只在關鍵字層結果是 possible 時才呼叫，避免每則訊息都多一次 API 費用
+// ─────────────────────────────────────────────────────────────────────────────
+
+const CLASSIFIER_PROMPT = `You are a safety classifier for a mental-health support chat.
+Decide whether the user's message indicates suicidal ideation, self-harm, or immediate danger to themselves.
+Reply with exactly one word: CRISIS or SAFE.`
+
+let anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+})
+
+// 換掉模型分類使用的 API client（counselor.ts 的 setAnthropicClient 會一起換）
+export function setCrisisClassifierClient(client: Anthropic): void {
+  anthropic = client
+}
+
+async function classifyWithModel(message: string): Promise<boolean> {
+  try {
+    const response = await anthropic.messages.create({
+      model: 'claude-haiku-4-5-20251001',
+      max_tokens: 5,
+      system: CLASSIFIER_PROMPT,
+      messages: [{ role: 'user', content: message }],
+    })
+    const first = response.content[0]
+    const answer = first?.type === 'text' ? first.text.trim().toUpperCase() : ''
+    return !answer.startsWith('SAFE')
+  } catch (err) {
+    console.error('[Crisis] 模型分類失敗，視為危機處理:', err)
+    return true
+  }
+}
+
+// modelCheck: false 時只做關鍵字層（例如超過請求頻率的訊息，不值得多花一次 API 呼叫），possible 也直接觸發
+export async function screenForCrisis(
+  message: string,
+  options: { modelCheck?: boolean } = {}
+): Promise<CrisisAssessment> {
+  const matches = matchCrisisPatterns(message)
+  if (matches.some((m) => m.level === 'high')) {
+    return { detected: true, level: 'high', source: 'keyword', matches }
+  }
+  if (matches.length === 0) {
+    return { detected: false, level: null, source: null, matches }
+  }
+
+  // 只有 possible 的命中：有開啟模型分類就請模型確認，沒開就直接觸發
+  if (options.modelCheck ?? process.env.CRISIS_MODEL_CHECK === 'true') {
+    const confirmed = await classifyWithModel(message)
+    return confirmed
+      ? { detected: true, level: 'possible', source: 'model', matches }
+      : { detected: false, level: null, source: 'model', matches }
+  }
+  return { detected: true, level: 'possible', source: 'keyword', matches }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 'crisis' SSE 事件內容：求助資源由 server 決定，不依賴模型輸出
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CrisisResource {
+  name: string
+  contact: string
+  href?: string // tel: 或 https: 連結
+}
+
+export interface CrisisEvent {
+  level: CrisisLevel
+  resources: CrisisResource[]
+}
+
+export const CRISIS_RESOURCES: CrisisResource[] = [
+  { name: '台灣 自殺防治專線（24 小時）', contact: '1925', href: 'tel:1925' },
+  { name: '台灣 張老師專線', contact: '1980', href: 'tel:1980' },
+  { name: '緊急救護 / Emergency', contact: '119', href: 'tel:119' },
+  { name: 'Crisis Text Line', contact: 'Text HOME to 741741', href: 'sms:741741?body=HOME' },
+  { name: 'International helplines', contact: 'findahelpline.com', href: 'https://findahelpline.com' },
+]
+
+export function toCrisisEvent(assessment: CrisisAssessment): CrisisEvent {
+  return { level: assessment.level ?? 'possible', resources: CRISIS_RESOURCES }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 稽核紀錄
+//
+// 每次觸發都附加一行 JSON 到 server/audit/crisis.jsonl
+// 只記錄命中的片段與規則 ID，不保存整則訊息內容
+// ─────────────────────────────────────────────────────────────────────────────
+
+const AUDIT_DIR = path.resolve(process.env.AUDIT_DIR ?? './server/audit')
+
+export async function recordCrisisAudit(
+  sessionId: string,
+  assessment: CrisisAssessment
+): Promise<void> {
+  const record = {
+    timestamp: new Date().toISOString(),
+    sessionId,
+    level: assessment.level,
+    source: assessment.source,
+    matches: assessment.matches,
+  }
+  await fs.mkdir(AUDIT_DIR, { recursive: true })
+  await fs.appendFile(path.join(AUDIT_DIR, 'crisis.jsonl'), JSON.stringify(record) + '\n', 'utf-8')
+}
@@ -0,0 +1,171 @@
+/**
+ * history-blocks.ts — 短期記憶中的工具呼叫紀錄（tool_use / tool_result）
+ *
+ * 以前每一輪只把最終的文字回覆存進對話歷史。下一輪 Claude 看不到自己呼叫過
+ * show_mood_cards、提供了哪些牌卡、read_skill 讀到什麼、改了哪些記憶，
+ * 結果重複載入技能，或是在解讀用戶選的牌卡時已經不記得當初的情境。
+ *
+ * 現在 Agent 迴圈的每一次 API 呼叫都完整保存：
+ *   assistant 訊息 — content 是該輪的文字，blocks 是完整的內容區塊（text + tool_use）
+ *   user 訊息      — 工具結果，content 為空字串，blocks 是 tool_result 區塊
+ * 下一輪送給 API 時直接使用 blocks，Claude 看到的對話與當時完全相同。
+ *
+ * 儲存大小：較早幾輪的大型工具結果（例如 SKILL.md 全文、記憶檔案內容）
+ * 會被替換成簡短的說明，工具呼叫本身（名稱、輸入）仍然保留。
+ *
+ * 給前端的對話歷史不含 blocks（記憶檔案內容不能送到瀏覽器），見 toDisplayMessages。
+ */
+
+import type Anthropic from '@anthropic-ai/sdk'
+import type { ShortTermMessage } from './session-store.js'
+
+export type HistoryBlock = Anthropic.Beta.Messages.BetaContentBlockParam
+type ApiMessage = Anthropic.Beta.Messages.BetaMessageParam
+
+export interface ToolHistoryOptions {
+  keepTurns: number // 最近幾輪（以用戶訊息計）的工具結果保留原文
+  maxChars: number  // 更早的工具結果或工具輸入字串超過這個長度就省略
+}
+
+export const HISTORY_TOOL_RESULT_TURNS = Number(process.env.HISTORY_TOOL_RESULT_TURNS ?? 3)
+export const HISTORY_TOOL_RESULT_MAX_CHARS = Number(process.env.HISTORY_TOOL_RESULT_MAX_CHARS ?? 800)
+
+// 只有工具結果的 user 訊息：不是用戶說的話，不顯示、不當作對話的一輪
+export function isToolResultMessage(message: ShortTermMessage): boolean {
+  return (
+    message.role === 'user' &&
+    !!message.blocks?.length &&
+    message.blocks.every((block) => block.type === 'tool_result')
+  )
+}
+
+// UI 工具的互動結果（見 interactions.ts）：對 Claude 是工具結果，對用戶是自己送出的選擇，
+// content 是顯示用的文字，例如「我選擇了「平靜」🌊」
+export function isInteractionMessage(message: ShortTermMessage): boolean {
+  return isToolResultMessage(message) && message.content !== ''
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// API 訊息 ↔ 短期記憶
+// ─────────────────────────────────────────────────────────────────────────────
+
+function textOf(blocks: HistoryBlock[]): string {
+  return blocks.map((block) => (block.type === 'text' ? block.text : '')).join('')
+}
+
+// toolRunner 產生的訊息轉成短期記憶；只有文字的訊息不另存 blocks
+export function fromApiMessage(message: ApiMessage, createdAt: string): ShortTermMessage {
+  if (typeof message.content === 'string') {
+    return { role: message.role, content: message.content, createdAt }
+  }
+  const blocks = message.content
+  const content = textOf(blocks)
+  if (blocks.every((block) => block.type === 'text')) {
+    return { role: message.role, content, createdAt }
+  }
+  return { role: message.role, content, createdAt, blocks }
+}
+
+// 同角色的連續訊息要合併成一則送出；只要有一邊是區塊陣列，就合併成區塊陣列
+export function mergeApiContent(a: ApiMessage['content'], b: ApiMessage['content']): ApiMessage['content'] {
+  if (typeof a === 'string' && typeof b === 'string') return a && b ? `${a}\n\n${b}` : a || b
+  const toBlocks = (c: ApiMessage['content']): HistoryBlock[] =>
+    typeof c === 'string' ? (c ? [{ type: 'text', text: c }] : []) : c
+  return [...toBlocks(a), ...toBlocks(b)]
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 省略較早的大型工具結果
+//
+// 只處理最近 keepTurns 則用戶訊息「之前」的部分；省略後的說明文字很短，
+// 重複執行不會再改變內容。tool_use 的 id 與 tool_result 的對應關係不變。
+// ─────────────────────────────────────────────────────────────────────────────
+
+function resultLength(content: Extract<HistoryBlock, { type: 'tool_result' }>['content']): number {
+  if (content === undefined) return 0
+  if (typeof content === 'string') return content.length
+  return content.reduce((sum, part) => sum + (part.type === 'text' ? part.text.length : 0), 0)
+}
+
+// 已經省略過的字串結尾有這段說明；maxChars 小於省略後的長度時也不會再省略一次
+const ELIDED_SUFFIX = /…（已省略 \d+ 字）$/
+
+function elideInput(input: unknown, maxChars: number): unknown {
+  if (typeof input === 'string') {
+    if (input.length <= maxChars || ELIDED_SUFFIX.test(input)) return input
+    return `${input.slice(0, 200)}…（已省略 ${input.length - 200} 字）`
+  }
+  if (Array.isArray(input)) return input.map((item) => elideInput(item, maxChars))
+  if (input && typeof input === 'object') {
+    return Object.fromEntries(Object.entries(input).map(([key, value]) => [key, elideInput(value, maxChars)]))
+  }
+  return input
+}
+
+function elideBlock(block: HistoryBlock, toolNames: Map<string, string>, maxChars: number): HistoryBlock {
+  if (block.type === 'tool_result') {
+    const length = resultLength(block.content)
+    if (length <= maxChars) return block
+    const tool = toolNames.get(block.tool_use_id) ?? '工具'
+    return { ...block, content: `（較早的 ${tool} 結果已省略，原長 ${length} 字；需要時請重新呼叫）` }
+  }
+  if (block.type === 'tool_use') {
+    return { ...block, input: elideInput(block.input, maxChars) }
+  }
+  return block
+}
+
+export function elideToolHistory(history: ShortTermMessage[], options: ToolHistoryOptions): ShortTermMessage[] {
+  // 找出第 keepTurns 則（從後面數）用戶訊息的位置，之前的才處理
+  let turns = 0
+  let boundary = 0
+  for (let i = history.length - 1; i >= 0; i--) {
+    const m = history[i]
+    if (m.role === 'user' && !m.summary && !isToolResultMessage(m) && ++turns === options.keepTurns) {
+      boundary = i
+      break
+    }
+  }
+
+  const toolNames = new Map<string, string>()
+  for (const m of history) {
+    for (const block of m.blocks ?? []) {
+      if (block.type === 'tool_use') toolNames.set(block.id, block.name)
+    }
+  }
+
+  return history.map((m, i) =>
+    i >= boundary || !m.blocks ? m : { ...m, blocks: m.blocks.map((b) => elideBlock(b, toolNames, options.maxChars)) }
+  )
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 給人看的形式
+// ─────────────────────────────────────────────────────────────────────────────
+
+// 摘要模型用的逐字稿：工具呼叫只留一行說明，工具結果不列出
+export function describeMessage(message: ShortTermMessage): string {
+  const calls = (message.blocks ?? []).flatMap((block) =>
+    block.type === 'tool_use' ? [`（使用工具 ${block.name}：${JSON.stringify(block.input).slice(0, 200)}）`] : []
+  )
+  return [message.content, ...calls].filter(Boolean).join('\n')
+}
+
+// 前端顯示用：去掉 blocks 與工具結果訊息（互動結果保留顯示用的文字），
+// 同一輪中被工具呼叫隔開的回覆文字合併成一則（與串流時前端看到的一樣，是同一個訊息泡泡）
+export function toDisplayMessages(history: ShortTermMessage[]): Omit<ShortTermMessage, 'blocks'>[] {
+  const display: Omit<ShortTermMessage, 'blocks'>[] = []
+  for (const m of history) {
+    if (isToolResultMessage(m) && !isInteractionMessage(m)) continue
+    const rest = { ...m }
+    delete rest.blocks
+    const last = display[display.length - 1]
+    if (last && last.role === 'assistant' && m.role === 'assistant' && !last.summary) {
+      last.content += m.content
+      if (m.truncated) last.truncated = true
+      continue
+    }
+    display.push(rest)
+  }
+  return display.filter((m) => m.summary || m.content !== '')
+}
@@ -0,0 +1,268 @@
+/**
+ * homework.ts — 練習作業（跨對話追蹤）
+ *
+ * 以前 Claude 佈置的功課只寫在 session_summaries.xml 的文字裡，下次對話沒有人會再提起。
+ * 現在作業是結構化的資料，依用戶分開存放：
+ *
+ *   { id, title, instructions, dueDate, status: 'open' | 'done' | 'skipped', note?, ... }
+ *
+ *   1. Claude 用 assign_homework 工具建立作業（標題、做法、幾天內完成）
+ *   2. 下次開新對話時，前端列出還沒完成的作業，用戶可以標記「完成」或「跳過」並留一句話
+ *      （PATCH /api/homework/:id，見 routes/homework.ts）
+ *   3. 用戶回報後的第一輪對話，回報結果會附在 System Prompt 裡，Claude 就知道要追問
+ *      （附上之後標記為已追蹤）；Claude 也可以隨時用 review_homework 工具查看所有作業
+ *
+ *   InMemoryHomeworkStore — 只存在記憶體中，適合開發或測試
+ *   FileHomeworkStore     — 每個用戶一個 JSON 檔（server/homework/<userId>.json）（預設）
+ *
+ * 透過環境變數 HOMEWORK_STORE=memory | file 切換。
+ */
+
+import { randomUUID } from 'node:crypto'
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import { isValidUserId } from './mood.js'
+
+export type HomeworkStatus = 'open' | 'done' | 'skipped'
+
+export interface HomeworkAssignment {
+  id: string
+  title: string
+  instructions: string
+  dueDate: string           // YYYY-MM-DD
+  createdAt: string         // ISO 時間
+  sessionId: string | null  // 在哪個對話中佈置的
+  status: HomeworkStatus
+  note?: string             // 用戶標記完成 / 跳過時留的話
+  closedAt?: string         // 標記完成 / 跳過的時間
+  followedUp?: boolean      // 回報結果是否已經附給 Claude（只有結束的作業才有這個欄位）
+}
+
+export interface HomeworkStore {
+  list(userId: string): Promise<HomeworkAssignment[]> // 依建立時間先後排序
+  save(userId: string, assignments: HomeworkAssignment[]): Promise<void>
+}
+
+export const HOMEWORK_TITLE_MAX_LENGTH = 100
+export const HOMEWORK_INSTRUCTIONS_MAX_LENGTH = 1000
+export const HOMEWORK_NOTE_MAX_LENGTH = 500
+export const HOMEWORK_MAX_DUE_DAYS = 30
+
+// ─────────────────────────────────────────────────────────────────────────────
+// InMemoryHomeworkStore：資料只存在記憶體中，server 重啟後消失
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class InMemoryHomeworkStore implements HomeworkStore {
+  private assignments = new Map<string, HomeworkAssignment[]>()
+
+  async list(userId: string): Promise<HomeworkAssignment[]> {
+    return (this.assignments.get(userId) ?? []).map((a) => ({ ...a }))
+  }
+
+  async save(userId: string, assignments: HomeworkAssignment[]): Promise<void> {
+    this.assignments.set(userId, assignments.map((a) => ({ ...a })))
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// FileHomeworkStore：每個用戶存成 <dir>/<userId>.json
+//
+// 和 FileSessionStore 一樣先寫暫存檔再 rename；讀取和寫入在同一個用戶的佇列中依序執行
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class FileHomeworkStore implements HomeworkStore {
+  private writeQueues = new Map<string, Promise<void>>()
+
+  constructor(private readonly dir: string) {}
+
+  async init() {
+    await fs.mkdir(this.dir, { recursive: true })
+    console.log(`[Homework] 作業目錄就緒: ${this.dir}`)
+  }
+
+  // userId 來自前端，只允許 UUID 常見的字元，防止路徑穿越
+  private filePath(userId: string): string {
+    if (!isValidUserId(userId)) {
+      throw new Error(`不合法的 userId: ${userId}`)
+    }
+    return path.join(this.dir, `${userId}.json`)
+  }
+
+  async list(userId: string): Promise<HomeworkAssignment[]> {
+    const file = this.filePath(userId)
+    await this.writeQueues.get(userId)
+    try {
+      const data = JSON.parse(await fs.readFile(file, 'utf-8')) as { assignments?: HomeworkAssignment[] }
+      return Array.isArray(data.assignments) ? data.assignments : []
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw err
+    }
+  }
+
+  async save(userId: string, assignments: HomeworkAssignment[]): Promise<void> {
+    const file = this.filePath(userId)
+    const previous = this.writeQueues.get(userId) ?? Promise.resolve()
+    const next = previous.then(async () => {
+      const tmp = `${file}.${process.pid}.tmp`
+      await fs.writeFile(tmp, JSON.stringify({ userId, assignments }, null, 2), 'utf-8')
+      await fs.rename(tmp, file)
+    })
+    // 佇列本身不應因為某次失敗而卡住後續寫入
+    this.writeQueues.set(userId, next.catch(() => {}))
+    await next
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 依環境變數建立 store；counselor.ts 與 routes/homework.ts 透過下方函數存取
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const HOMEWORK_DIR = path.resolve(process.env.HOMEWORK_DIR ?? './server/homework')
+
+export async function createHomeworkStore(): Promise<HomeworkStore> {
+  const kind = process.env.HOMEWORK_STORE ?? 'file'
+  if (kind === 'memory') {
+    console.log('[Homework] 使用記憶體儲存（server 重啟後作業會消失）')
+    return new InMemoryHomeworkStore()
+  }
+  if (kind !== 'file') {
+    throw new Error(`未知的 HOMEWORK_STORE: ${kind}（可用值：memory、file）`)
+  }
+  const store = new FileHomeworkStore(HOMEWORK_DIR)
+  await store.init()
+  return store
+}
+
+// 啟動前先用記憶體 store，index.ts 初始化時會換成設定指定的實作
+let homeworkStore: HomeworkStore = new InMemoryHomeworkStore()
+
+export function setHomeworkStore(store: HomeworkStore): void {
+  homeworkStore = store
+}
+
+// 同一個用戶的「讀取 → 修改 → 寫回」依序執行，避免 Claude 佈置作業和用戶標記完成同時發生時互相覆蓋
+const userQueues = new Map<string, Promise<unknown>>()
+
+function updateAssignments<T>(
+  userId: string,
+  update: (assignments: HomeworkAssignment[]) => { assignments: HomeworkAssignment[] | null; result: T }
+): Promise<T> {
+  const previous = userQueues.get(userId) ?? Promise.resolve()
+  const next = previous.then(async () => {
+    const { assignments, result } = update(await homeworkStore.list(userId))
+    if (assignments) await homeworkStore.save(userId, assignments)
+    return result
+  })
+  userQueues.set(userId, next.catch(() => {}))
+  return next
+}
+
+export async function getHomework(userId: string): Promise<HomeworkAssignment[]> {
+  return homeworkStore.list(userId)
+}
+
+function addDays(date: Date, days: number): string {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+export async function assignHomework(
+  userId: string,
+  sessionId: string | null,
+  fields: { title: string; instructions: string; dueInDays: number }
+): Promise<HomeworkAssignment> {
+  const now = new Date()
+  const assignment: HomeworkAssignment = {
+    id: randomUUID(),
+    title: fields.title,
+    instructions: fields.instructions,
+    dueDate: addDays(now, fields.dueInDays),
+    createdAt: now.toISOString(),
+    sessionId,
+    status: 'open',
+  }
+  return updateAssignments(userId, (assignments) => ({ assignments: [...assignments, assignment], result: assignment }))
+}
+
+// 用戶標記完成或跳過；找不到作業回傳 'not_found'，已經標記過回傳 'already_closed'
+export async function closeHomework(
+  userId: string,
+  id: string,
+  status: Exclude<HomeworkStatus, 'open'>,
+  note: string
+): Promise<HomeworkAssignment | 'not_found' | 'already_closed'> {
+  return updateAssignments<HomeworkAssignment | 'not_found' | 'already_closed'>(userId, (assignments) => {
+    const target = assignments.find((a) => a.id === id)
+    if (!target) return { assignments: null, result: 'not_found' }
+    if (target.status !== 'open') return { assignments: null, result: 'already_closed' }
+    const closed: HomeworkAssignment = {
+      ...target,
+      status,
+      ...(note ? { note } : {}),
+      closedAt: new Date().toISOString(),
+      followedUp: false,
+    }
+    return { assignments: assignments.map((a) => (a.id === id ? closed : a)), result: closed }
+  })
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 給 Claude 的作業狀態
+//
+// takeHomeworkUpdates — 用戶回報後、Claude 還沒看過的結果；每輪對話開始時附在 System Prompt，
+//                       附上後標記為已追蹤，下一輪就不會重複出現
+// reviewHomework      — review_homework 工具的結果：進行中的作業與最近結束的作業
+// ─────────────────────────────────────────────────────────────────────────────
+
+const REVIEW_CLOSED_DAYS = 14
+
+const STATUS_LABELS: Record<HomeworkStatus, string> = {
+  open: '進行中',
+  done: '已完成',
+  skipped: '跳過了',
+}
+
+function formatAssignment(a: HomeworkAssignment, today: string): string {
+  const due = a.status === 'open' && a.dueDate < today ? `${a.dueDate}（已過期）` : a.dueDate
+  const lines = [`- 「${a.title}」（${STATUS_LABELS[a.status]}，期限 ${due}，id: ${a.id}）`, `  做法：${a.instructions}`]
+  if (a.status !== 'open') {
+    lines.push(`  用戶在 ${a.closedAt?.slice(0, 10)} 標記為${STATUS_LABELS[a.status]}` + (a.note ? `，留言：${a.note}` : '，沒有留言'))
+  }
+  return lines.join('\n')
+}
+
+export async function takeHomeworkUpdates(userId: string): Promise<string | null> {
+  return updateAssignments(userId, (assignments) => {
+    const unseen = assignments.filter((a) => a.followedUp === false)
+    if (unseen.length === 0) return { assignments: null, result: null }
+    const today = new Date().toISOString().slice(0, 10)
+    return {
+      assignments: assignments.map((a) => (a.followedUp === false ? { ...a, followedUp: true } : a)),
+      result: `## 練習作業回報 / Homework Updates
+
+用戶在這次對話開始前回報了之前的練習作業。請在回應時自然地提起：完成了就肯定努力並問問發現了什麼，跳過了就好奇地了解阻礙，不要責備。
+
+${unseen.map((a) => formatAssignment(a, today)).join('\n')}`,
+    }
+  })
+}
+
+export async function reviewHomework(userId: string): Promise<string> {
+  const assignments = await homeworkStore.list(userId)
+  const now = new Date()
+  const today = now.toISOString().slice(0, 10)
+  const since = addDays(now, -REVIEW_CLOSED_DAYS)
+  const open = assignments.filter((a) => a.status === 'open')
+  const closed = assignments.filter((a) => a.status !== 'open' && (a.closedAt ?? '') >= since)
+  if (open.length === 0 && closed.length === 0) {
+    return '目前沒有進行中的作業，最近兩週也沒有結束的作業。'
+  }
+  const sections = []
+  if (open.length > 0) {
+    sections.push(`進行中的作業：\n${open.map((a) => formatAssignment(a, today)).join('\n')}`)
+  }
+  if (closed.length > 0) {
+    sections.push(`最近兩週結束的作業：\n${closed.map((a) => formatAssignment(a, today)).join('\n')}`)
+  }
+  return sections.join('\n\n')
+}
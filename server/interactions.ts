@@ -0,0 +1,227 @@
+/**
+ * interactions.ts — UI 工具的互動結果（選了哪張牌卡、冥想進行了多久…）
+ *
+ * 以前前端把互動結果組成一句用戶訊息送出（「我選擇了「平靜」🌊…」），
+ * server 分不出這是用戶打的字還是介面產生的，也無法確認那張牌卡真的有提供過。
+ *
+ * 現在的流程：
+ *   1. Claude 呼叫 UI 工具（例如 show_mood_cards）後，Agent 迴圈就停下來等用戶，
+ *      對話歷史的最後是該工具的 tool_result，內容暫時是 SKILL.md 宣告的 result（「請靜待用戶選擇」）
+ *   2. 前端送出結構化的互動結果：{ type: 'card_selection', cardId }、
+ *      { type: 'meditation_result', completed, elapsedSeconds }、
+ *      { type: 'pmr_result', completed, completedSteps, elapsedSeconds } 或 { type: 'thought_record', record }
+ *   3. server 對照那次工具呼叫的 input 驗證（牌卡必須是當時提供的其中一張…），
+ *      把暫時的內容換成真正的結果，Claude 收到的是同一個 tool_use 的工具結果
+ *   4. 顯示在對話中的文字（「我選擇了「平靜」🌊」）也由 server 產生，存在同一則訊息的 content
+ *
+ * 用戶沒有使用介面、直接打字時，工具結果會改成「用戶沒有使用這個介面」，再接上用戶的訊息。
+ *
+ * 新增互動式技能時，除了 SKILL.md 與前端元件，還要在下方 INTERACTION_HANDLERS 登記互動類型。
+ */
+
+import type { CardEvent, MeditationEvent, PmrEvent } from './counselor.js'
+import { isToolResultMessage, type HistoryBlock } from './history-blocks.js'
+import type { ShortTermMessage } from './session-store.js'
+import {
+  parseThoughtRecord,
+  thoughtRecordDisplay,
+  thoughtRecordResult,
+  type ThoughtRecord,
+} from './thought-records.js'
+
+export type Interaction =
+  | { type: 'card_selection'; cardId: string }
+  | { type: 'meditation_result'; completed: boolean; elapsedSeconds: number }
+  | { type: 'pmr_result'; completed: boolean; completedSteps: number; elapsedSeconds: number }
+  | { type: 'thought_record'; record: ThoughtRecord }
+
+// 等待互動結果的 UI 工具呼叫
+export interface PendingUiCall {
+  messageIndex: number // 含這個工具結果的訊息在對話歷史中的位置
+  toolUseId: string
+  tool: string
+  input: unknown
+}
+
+// 驗證通過的互動結果
+export interface ResolvedInteraction {
+  pending: PendingUiCall
+  result: string  // 給 Claude 的工具結果
+  display: string // 顯示在對話中的用戶訊息
+}
+
+export const SKIPPED_RESULT = '用戶沒有使用這個介面，而是直接輸入了下一則訊息（見下方）。'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 請求格式檢查（還不需要對話歷史）
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function parseInteraction(raw: unknown): Interaction | null {
+  if (!raw || typeof raw !== 'object') return null
+  const fields = raw as Record<string, unknown>
+  switch (fields.type) {
+    case 'card_selection':
+      return typeof fields.cardId === 'string' && fields.cardId.length > 0 && fields.cardId.length <= 100
+        ? { type: 'card_selection', cardId: fields.cardId }
+        : null
+    case 'meditation_result':
+      return typeof fields.completed === 'boolean' &&
+        Number.isInteger(fields.elapsedSeconds) &&
+        (fields.elapsedSeconds as number) >= 0
+        ? { type: 'meditation_result', completed: fields.completed, elapsedSeconds: fields.elapsedSeconds as number }
+        : null
+    case 'pmr_result':
+      return typeof fields.completed === 'boolean' &&
+        Number.isInteger(fields.completedSteps) &&
+        (fields.completedSteps as number) >= 0 &&
+        Number.isInteger(fields.elapsedSeconds) &&
+        (fields.elapsedSeconds as number) >= 0
+        ? {
+            type: 'pmr_result',
+            completed: fields.completed,
+            completedSteps: fields.completedSteps as number,
+            elapsedSeconds: fields.elapsedSeconds as number,
+          }
+        : null
+    case 'thought_record': {
+      const record = parseThoughtRecord(fields.record)
+      return record ? { type: 'thought_record', record } : null
+    }
+    default:
+      return null
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 各互動類型：對應的 UI 工具，以及如何對照工具 input 產生結果
+// resolve 回傳字串代表驗證失敗的原因
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface InteractionHandler<T extends Interaction> {
+  tool: string
+  resolve(input: unknown, interaction: T): Omit<ResolvedInteraction, 'pending'> | string
+}
+
+function formatDuration(seconds: number): string {
+  const mins = Math.floor(seconds / 60)
+  const secs = seconds % 60
+  return mins > 0 ? `${mins} 分 ${secs} 秒` : `${secs} 秒`
+}
+
+const cardSelection: InteractionHandler<Extract<Interaction, { type: 'card_selection' }>> = {
+  tool: 'show_mood_cards',
+  resolve(input, { cardId }) {
+    const card = (input as CardEvent).cards?.find((c) => c.id === cardId)
+    if (!card) return `牌卡 ${cardId} 不在這次提供的牌卡中`
+    return {
+      result: `用戶選擇了「${card.name}」${card.symbol}（${card.english_name}，id: ${card.id}）。牌卡描述：${card.description}`,
+      display: `我選擇了「${card.name}」${card.symbol}\n（${card.description}）`,
+    }
+  },
+}
+
+const meditationResult: InteractionHandler<Extract<Interaction, { type: 'meditation_result' }>> = {
+  tool: 'show_meditation',
+  resolve(input, { completed, elapsedSeconds }) {
+    const { title, duration_minutes } = input as MeditationEvent
+    const totalSeconds = Math.round(duration_minutes * 60)
+    if (elapsedSeconds > totalSeconds) return `冥想時間 ${elapsedSeconds} 秒超過設定的 ${totalSeconds} 秒`
+    if (completed && elapsedSeconds < totalSeconds) return '冥想還沒有進行到設定的時長，不能標記為完成'
+    const time = formatDuration(elapsedSeconds)
+    return completed
+      ? {
+          result: `用戶完成了冥想練習「${title}」，共進行了 ${time}（設定 ${duration_minutes} 分鐘）。`,
+          display: `我完成了冥想練習，共進行了 ${time}。`,
+        }
+      : {
+          result: `用戶提前結束了冥想練習「${title}」，進行了 ${time}（設定 ${duration_minutes} 分鐘）。`,
+          display: `我提前結束了冥想，共進行了 ${time}。`,
+        }
+  },
+}
+
+const pmrResult: InteractionHandler<Extract<Interaction, { type: 'pmr_result' }>> = {
+  tool: 'show_pmr_sequence',
+  resolve(input, { completed, completedSteps, elapsedSeconds }) {
+    const { title, steps } = input as PmrEvent
+    const totalSeconds = Math.round(steps.reduce((sum, s) => sum + s.tense_seconds + s.release_seconds, 0))
+    if (completedSteps > steps.length) return `完成的肌肉群 ${completedSteps} 組超過設定的 ${steps.length} 組`
+    if (elapsedSeconds > totalSeconds) return `練習時間 ${elapsedSeconds} 秒超過設定的 ${totalSeconds} 秒`
+    if (completed && completedSteps < steps.length) return '還沒有做完所有肌肉群，不能標記為完成'
+    const time = formatDuration(elapsedSeconds)
+    if (completed) {
+      return {
+        result: `用戶完成了漸進式肌肉放鬆「${title}」，${steps.length} 組肌肉群全部做完，共進行了 ${time}。`,
+        display: `我完成了漸進式肌肉放鬆，共進行了 ${time}。`,
+      }
+    }
+    // 停在哪一組：做完的下一組就是進行中被打斷的
+    const stoppedAt = steps[completedSteps]?.muscle_group
+    const done = steps.slice(0, completedSteps).map((s) => s.muscle_group).join('、') || '無'
+    return {
+      result: `用戶提前結束了漸進式肌肉放鬆「${title}」，完成 ${completedSteps} / ${steps.length} 組（已完成：${done}${stoppedAt ? `；停在：${stoppedAt}` : ''}），進行了 ${time}。`,
+      display: `我提前結束了肌肉放鬆練習，完成了 ${completedSteps} / ${steps.length} 組。`,
+    }
+  },
+}
+
+// 表單內容在 parseInteraction 已經驗證過；存入長期記憶由 counselor.ts 處理
+const thoughtRecord: InteractionHandler<Extract<Interaction, { type: 'thought_record' }>> = {
+  tool: 'show_thought_record',
+  resolve(_input, { record }) {
+    return { result: thoughtRecordResult(record), display: thoughtRecordDisplay(record) }
+  },
+}
+
+const INTERACTION_HANDLERS: { [K in Interaction['type']]: InteractionHandler<Extract<Interaction, { type: K }>> } = {
+  card_selection: cardSelection,
+  meditation_result: meditationResult,
+  pmr_result: pmrResult,
+  thought_record: thoughtRecord,
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 對照對話歷史
+// ─────────────────────────────────────────────────────────────────────────────
+
+// 對話歷史的最後一則是 UI 工具的結果、而且還沒有收到互動結果，就是在等用戶
+export function findPendingUiCall(history: ShortTermMessage[], uiTools: Set<string>): PendingUiCall | null {
+  const messageIndex = history.length - 1
+  const last = history[messageIndex]
+  const call = history[messageIndex - 1]
+  if (!last || !call || !isToolResultMessage(last) || last.content !== '' || call.role !== 'assistant') return null
+  for (const block of call.blocks ?? []) {
+    if (block.type !== 'tool_use' || !uiTools.has(block.name)) continue
+    // is_error 的結果是被拒絕的呼叫（例如還沒載入技能協議），沒有顯示給用戶，不算在等待互動
+    const answered = last.blocks?.some((b) => b.type === 'tool_result' && b.tool_use_id === block.id && !b.is_error)
+    if (answered) return { messageIndex, toolUseId: block.id, tool: block.name, input: block.input }
+  }
+  return null
+}
+
+export function resolveInteraction(
+  pending: PendingUiCall | null,
+  interaction: Interaction
+): ResolvedInteraction | string {
+  const handler = INTERACTION_HANDLERS[interaction.type] as InteractionHandler<Interaction>
+  if (!pending) return '目前沒有等待回覆的互動'
+  if (pending.tool !== handler.tool) return `目前等待的是 ${pending.tool} 的結果，不是 ${interaction.type}`
+  const resolved = handler.resolve(pending.input, interaction)
+  return typeof resolved === 'string' ? resolved : { pending, ...resolved }
+}
+
+// 把等待中的工具結果換成真正的結果；display 不是空字串時，這則訊息會顯示成用戶的話
+export function settlePendingUiCall(
+  history: ShortTermMessage[],
+  pending: PendingUiCall,
+  result: string,
+  display = ''
+): ShortTermMessage[] {
+  return history.map((m, i) => {
+    if (i !== pending.messageIndex) return m
+    const blocks = m.blocks?.map((block): HistoryBlock =>
+      block.type === 'tool_result' && block.tool_use_id === pending.toolUseId ? { ...block, content: result } : block
+    )
+    return { ...m, content: display, createdAt: new Date().toISOString(), blocks }
+  })
+}
@@ -0,0 +1,162 @@
+/**
+ * json-schema.ts — UI 工具 input 的 JSON Schema 檢查
+ *
+ * SKILL.md 的 ui_tool.input_schema 只是給 Claude 的說明，API 不保證工具 input 一定符合：
+ * 少了一張牌卡、不存在的色彩主題、超出範圍的冥想時長都可能原封不動送到前端。
+ * createUiTool（counselor.ts）在送出 'ui' 事件之前用這裡的 validateJsonSchema 檢查，
+ * 不符合時把逐項的錯誤回給 Claude 自行修正。
+ *
+ * 只實作技能實際用到的關鍵字（見 SUPPORTED_KEYWORDS），不是完整的 JSON Schema 實作。
+ * 載入技能時 unsupportedSchemaKeywords 會列出不支援的關鍵字，
+ * 避免 SKILL.md 寫了某個限制、執行期卻默默沒有檢查。
+ */
+
+type Schema = Record<string, unknown>
+
+const SUPPORTED_KEYWORDS = new Set([
+  'type',
+  'description',
+  'properties',
+  'required',
+  'additionalProperties',
+  'items',
+  'enum',
+  'minimum',
+  'maximum',
+  'minLength',
+  'maxLength',
+  'minItems',
+  'maxItems',
+])
+
+const TYPE_LABELS: Record<string, string> = {
+  object: '物件',
+  array: '陣列',
+  string: '字串',
+  number: '數字',
+  integer: '整數',
+  boolean: '布林值',
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 載入技能時：檢查 schema 本身
+// ─────────────────────────────────────────────────────────────────────────────
+
+// 回傳不支援的關鍵字與位置，例如 ['properties.cards.uniqueItems']
+export function unsupportedSchemaKeywords(schema: Schema, at = ''): string[] {
+  const found: string[] = []
+  for (const [keyword, value] of Object.entries(schema)) {
+    const where = at ? `${at}.${keyword}` : keyword
+    if (!SUPPORTED_KEYWORDS.has(keyword)) {
+      found.push(where)
+    } else if (keyword === 'type' && (typeof value !== 'string' || !(value in TYPE_LABELS))) {
+      found.push(`${where}: ${JSON.stringify(value)}`)
+    } else if (keyword === 'items' && isSchema(value)) {
+      found.push(...unsupportedSchemaKeywords(value, where))
+    } else if (keyword === 'properties' && isSchema(value)) {
+      for (const [name, child] of Object.entries(value)) {
+        if (isSchema(child)) found.push(...unsupportedSchemaKeywords(child, `${where}.${name}`))
+      }
+    }
+  }
+  return found
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 執行期：檢查工具 input
+// ─────────────────────────────────────────────────────────────────────────────
+
+// 回傳所有不符合的地方（空陣列代表通過），每一項都帶著欄位路徑，例如
+//   cards：需要 4 到 6 項，收到 3 項
+//   cards[2].color_theme：必須是 ocean、sunrise…其中之一，收到 "teal"
+export function validateJsonSchema(schema: Schema, value: unknown, at = ''): string[] {
+  const label = at || '(input)'
+  const type = schema.type as string | undefined
+
+  if (type && !matchesType(type, value)) {
+    return [`${label}：必須是${TYPE_LABELS[type] ?? type}，收到 ${describe(value)}`]
+  }
+
+  const problems: string[] = []
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => option === value)) {
+    problems.push(`${label}：必須是 ${schema.enum.join('、')} 其中之一，收到 ${describe(value)}`)
+  }
+
+  if (typeof value === 'number') {
+    const { minimum, maximum } = schema as { minimum?: number; maximum?: number }
+    if (minimum !== undefined && value < minimum) problems.push(`${label}：不能小於 ${minimum}，收到 ${value}`)
+    if (maximum !== undefined && value > maximum) problems.push(`${label}：不能大於 ${maximum}，收到 ${value}`)
+  }
+
+  if (typeof value === 'string') {
+    const { minLength, maxLength } = schema as { minLength?: number; maxLength?: number }
+    const length = [...value].length
+    if (minLength !== undefined && length < minLength) problems.push(`${label}：至少要 ${minLength} 個字，收到 ${length} 個字`)
+    if (maxLength !== undefined && length > maxLength) problems.push(`${label}：最多 ${maxLength} 個字，收到 ${length} 個字`)
+  }
+
+  if (Array.isArray(value)) {
+    const { minItems, maxItems } = schema as { minItems?: number; maxItems?: number }
+    if ((minItems !== undefined && value.length < minItems) || (maxItems !== undefined && value.length > maxItems)) {
+      const range =
+        minItems !== undefined && maxItems !== undefined
+          ? `${minItems} 到 ${maxItems} 項`
+          : minItems !== undefined
+            ? `至少 ${minItems} 項`
+            : `最多 ${maxItems} 項`
+      problems.push(`${label}：需要 ${range}，收到 ${value.length} 項`)
+    }
+    if (isSchema(schema.items)) {
+      const items = schema.items
+      value.forEach((item, i) => problems.push(...validateJsonSchema(items, item, `${at}[${i}]`)))
+    }
+  }
+
+  if (isSchema(value)) {
+    const properties = isSchema(schema.properties) ? schema.properties : {}
+    const required = Array.isArray(schema.required) ? (schema.required as string[]) : []
+    for (const name of required) {
+      if (value[name] === undefined) problems.push(`${join(at, name)}：缺少必要欄位`)
+    }
+    for (const [name, child] of Object.entries(value)) {
+      const childSchema = properties[name]
+      if (isSchema(childSchema)) {
+        problems.push(...validateJsonSchema(childSchema, child, join(at, name)))
+      } else if (schema.additionalProperties === false) {
+        problems.push(`${join(at, name)}：不是這個工具接受的欄位`)
+      }
+    }
+  }
+
+  return problems
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'object':
+      return isSchema(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'integer':
+      return Number.isInteger(value)
+    default:
+      return typeof value === type
+  }
+}
+
+function isSchema(value: unknown): value is Schema {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function join(at: string, name: string): string {
+  return at ? `${at}.${name}` : name
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return '(沒有值)'
+  const text = JSON.stringify(value)
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
@@ -0,0 +1,369 @@
+/**
+ * memory-consolidation.ts — 長期記憶整理
+ *
+ * System Prompt 要求 Claude 持續把內容附加到 session_summaries.xml、recurring_themes.xml，
+ * 但從來沒有人清理這些檔案。時間一久，每次 view 都會讀回一個巨大的檔案，
+ * 每輪對話的 token 都被灌大。這裡提供一次「整理」流程（全部透過 FileSystemMemoryHandlers）：
+ *
+ *   1. 合併重複：同一個標籤、屬性與文字內容都相同的子元素只保留最後一筆
+ *   2. 彙整舊摘要：session_summaries.xml 中超過 MEMORY_DIGEST_AFTER_DAYS 天的對話摘要，
+ *      依月份交給模型整理成 <digest period="YYYY-MM">
+ *   3. 大小上限：session_summaries.xml 仍超過 MEMORY_FILE_MAX_BYTES 時，先把更多舊摘要彙整，
+ *      最後才從最舊的子元素開始移除。其他檔案（user_profile.xml、thought_records.xml 等）
+ *      不是依時間累積的紀錄，最舊的子元素不代表最不重要，超過上限只回報（oversize），不移除內容
+ *
+ * 改寫前會把原檔備份到 /memories/.backups/（Claude 的目錄列表看不到隱藏目錄），
+ * 每個檔案保留最近 MEMORY_BACKUP_KEEP 份，可用 restoreMemoryBackup 還原。
+ *
+ * 執行方式：
+ *   npm run memory:consolidate                  — 手動執行一次
+ *   MEMORY_CONSOLIDATE_INTERVAL_HOURS=24        — server 啟動後定期執行
+ */
+
+import Anthropic from '@anthropic-ai/sdk'
+import type { FileSystemMemoryHandlers } from './counselor.js'
+import {
+  entryDate,
+  escapeXml,
+  parseMemoryXml,
+  serializeMemoryXml,
+  type XmlEntry,
+} from './memory-xml.js'
+
+// 整理流程需要的檔案操作（FileSystemMemoryHandlers 的一部分）
+export type MemoryFiles = Pick<FileSystemMemoryHandlers, 'listFiles' | 'readFile' | 'writeFile' | 'delete'>
+
+// 彙整函數：輸入某個月份的對話摘要（含先前的彙整），回傳一段純文字
+export type Digester = (input: { period: string; entries: string[] }) => Promise<string>
+
+export interface ConsolidationOptions {
+  maxFileBytes: number       // 每個記憶檔案的大小上限
+  digestAfterDays: number    // 超過幾天的對話摘要要彙整
+  keepRecentSessions: number // 為了大小上限而提前彙整時，至少保留原文的最近幾次對話
+  backupsToKeep: number      // 每個檔案保留幾份備份
+  digest: Digester
+  now?: Date
+  dryRun?: boolean           // 只回報會做什麼，不寫入任何檔案
+}
+
+export interface ConsolidationReport {
+  file: string
+  status: 'unchanged' | 'consolidated' | 'skipped'
+  reason?: string // skipped 的原因
+  duplicatesRemoved: number
+  entriesDigested: number
+  entriesDropped: number
+  oversize: boolean // 整理後仍超過大小上限（只有不能移除內容的檔案會發生）
+  bytesBefore: number
+  bytesAfter: number
+  backup?: string
+}
+
+const BACKUP_DIR = '/memories/.backups'
+const MEMORY_BACKUP_KEEP = Number(process.env.MEMORY_BACKUP_KEEP ?? 5)
+const SESSION_SUMMARIES = 'session_summaries.xml'
+
+function byteLength(text: string): number {
+  return Buffer.byteLength(text, 'utf-8')
+}
+
+function baseName(memPath: string): string {
+  return memPath.slice(memPath.lastIndexOf('/') + 1)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 1. 合併重複
+// ─────────────────────────────────────────────────────────────────────────────
+
+function removeDuplicates(entries: XmlEntry[]): XmlEntry[] {
+  const seen = new Set<string>()
+  const kept: XmlEntry[] = []
+  // 從後往前掃，保留最後（最新）出現的那一筆
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i]
+    // 屬性不同（例如不同 date 的同一段文字）就不算重複
+    const attrs = JSON.stringify(Object.entries(entry.attrs).sort(([a], [b]) => a.localeCompare(b)))
+    const key = `${entry.tag}\n${attrs}\n${entry.text || entry.raw}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    kept.unshift(entry)
+  }
+  return kept
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 2. 依月份彙整對話摘要
+//
+// 同一個月份已經有 <digest> 的話，會把舊的彙整一起交給模型，產生新的一份取代它
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function digestEntries(
+  entries: XmlEntry[],
+  shouldDigest: (entry: XmlEntry, index: number) => boolean,
+  digest: Digester
+): Promise<{ entries: XmlEntry[]; digested: number }> {
+  const groups = new Map<string, number[]>()
+  entries.forEach((entry, index) => {
+    const date = entry.tag === 'digest' ? null : entryDate(entry)
+    if (!date || !shouldDigest(entry, index)) return
+    const period = date.slice(0, 7)
+    groups.set(period, [...(groups.get(period) ?? []), index])
+  })
+  if (groups.size === 0) return { entries, digested: 0 }
+
+  const replaced = new Map<number, XmlEntry>() // 彙整結果放在該月第一筆的位置
+  const removed = new Set<number>()
+  let digested = 0
+  for (const [period, indexes] of groups) {
+    const existing = entries.findIndex((e) => e.tag === 'digest' && e.attrs.period === period)
+    const previousCount = existing >= 0 ? Number(entries[existing].attrs.sessions) || 0 : 0
+    const inputs = [
+      ...(existing >= 0 ? [entries[existing].text] : []),
+      ...indexes.map((i) => entries[i].raw),
+    ]
+    const summary = (await digest({ period, entries: inputs })).trim()
+    if (!summary) throw new Error(`${period} 的彙整結果是空的`)
+
+    const sessions = previousCount + indexes.length
+    const raw = `<digest period="${period}" sessions="${sessions}">${escapeXml(summary)}</digest>`
+    const position = existing >= 0 ? Math.min(existing, indexes[0]) : indexes[0]
+    for (const i of indexes) removed.add(i)
+    if (existing >= 0) removed.add(existing)
+    removed.delete(position)
+    replaced.set(position, {
+      raw,
+      tag: 'digest',
+      attrs: { period, sessions: String(sessions) },
+      text: summary,
+    })
+    digested += indexes.length
+  }
+
+  const next = entries
+    .map((entry, index) => replaced.get(index) ?? entry)
+    .filter((_, index) => !removed.has(index))
+  return { entries: next, digested }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 整理單一檔案
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function consolidateMemoryFile(
+  files: MemoryFiles,
+  memPath: string,
+  options: ConsolidationOptions
+): Promise<ConsolidationReport> {
+  const report: ConsolidationReport = {
+    file: memPath,
+    status: 'unchanged',
+    duplicatesRemoved: 0,
+    entriesDigested: 0,
+    entriesDropped: 0,
+    oversize: false,
+    bytesBefore: 0,
+    bytesAfter: 0,
+  }
+
+  const original = await files.readFile(memPath)
+  if (original === null) return { ...report, status: 'skipped', reason: '檔案不存在' }
+  report.bytesBefore = report.bytesAfter = byteLength(original)
+
+  // 格式不是我們能安全處理的 XML 就不動它，寧可留著大檔案也不要改壞
+  let doc
+  try {
+    doc = parseMemoryXml(original)
+  } catch (err) {
+    return { ...report, status: 'skipped', reason: err instanceof Error ? err.message : String(err) }
+  }
+
+  let entries = removeDuplicates(doc.entries)
+  report.duplicatesRemoved = doc.entries.length - entries.length
+
+  const size = () => byteLength(serializeMemoryXml({ ...doc, entries }))
+  if (baseName(memPath) === SESSION_SUMMARIES) {
+    const now = options.now ?? new Date()
+    const cutoff = new Date(now.getTime() - options.digestAfterDays * 86_400_000).toISOString().slice(0, 10)
+    const old = await digestEntries(entries, (e) => (entryDate(e) ?? '') < cutoff, options.digest)
+    entries = old.entries
+    report.entriesDigested += old.digested
+
+    // 還是太大：除了最近幾次對話，其餘全部彙整
+    if (size() > options.maxFileBytes) {
+      const dated = entries
+        .map((e, i) => ({ date: e.tag === 'digest' ? null : entryDate(e), i }))
+        .filter((x): x is { date: string; i: number } => x.date !== null)
+        .sort((a, b) => a.date.localeCompare(b.date) || a.i - b.i)
+      const recent = new Set(dated.slice(-options.keepRecentSessions).map((x) => x.i))
+      const more = await digestEntries(entries, (_, i) => !recent.has(i), options.digest)
+      entries = more.entries
+      report.entriesDigested += more.digested
+    }
+
+    // 最後手段：從最舊的子元素開始移除（原內容仍保留在備份中）
+    while (size() > options.maxFileBytes && entries.length > 1) {
+      entries = entries.slice(1)
+      report.entriesDropped++
+    }
+  }
+  report.oversize = size() > options.maxFileBytes
+
+  if (report.duplicatesRemoved + report.entriesDigested + report.entriesDropped === 0) {
+    return report
+  }
+
+  const next = serializeMemoryXml({ ...doc, entries })
+  report.bytesAfter = byteLength(next)
+  report.status = 'consolidated'
+  if (options.dryRun) return report
+
+  // 彙整期間 Claude 可能剛好寫入這個檔案：內容變了就放棄這次，下次再整理
+  if ((await files.readFile(memPath)) !== original) {
+    return { ...report, status: 'skipped', reason: '整理期間檔案被修改，下次再處理' }
+  }
+  report.backup = await backupMemoryFile(files, memPath, original, options.backupsToKeep)
+  await files.writeFile(memPath, next)
+  return report
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 備份與還原
+//
+// 備份檔名：/memories/.backups/<檔名>.<ISO 時間>.bak，時間字串可以直接排序
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function listBackups(files: MemoryFiles, memPath: string): Promise<string[]> {
+  const prefix = `${BACKUP_DIR}/${baseName(memPath)}.`
+  return (await files.listFiles(BACKUP_DIR)).filter((f) => f.startsWith(prefix) && f.endsWith('.bak'))
+}
+
+async function backupMemoryFile(
+  files: MemoryFiles,
+  memPath: string,
+  content: string,
+  keep: number
+): Promise<string> {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+  const backup = `${BACKUP_DIR}/${baseName(memPath)}.${stamp}.bak`
+  await files.writeFile(backup, content)
+  const backups = await listBackups(files, memPath)
+  for (const old of backups.slice(0, Math.max(0, backups.length - keep))) {
+    await files.delete({ command: 'delete', path: old })
+  }
+  return backup
+}
+
+// 用最新的備份還原檔案；還原前會先備份目前的內容，所以還原本身也可以再撤銷
+export async function restoreMemoryBackup(
+  files: MemoryFiles,
+  memPath: string,
+  backupsToKeep: number = MEMORY_BACKUP_KEEP
+): Promise<string> {
+  const backups = await listBackups(files, memPath)
+  const latest = backups[backups.length - 1]
+  if (!latest) throw new Error(`${memPath} 沒有任何備份`)
+  const content = await files.readFile(latest)
+  if (content === null) throw new Error(`讀取備份失敗：${latest}`)
+  const current = await files.readFile(memPath)
+  if (current !== null) {
+    await backupMemoryFile(files, memPath, current, backupsToKeep)
+  }
+  await files.writeFile(memPath, content)
+  return latest
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 整理所有記憶檔案
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function consolidateMemories(
+  files: MemoryFiles,
+  options: ConsolidationOptions
+): Promise<ConsolidationReport[]> {
+  const reports: ConsolidationReport[] = []
+  const targets = (await files.listFiles('/memories')).filter((f) => f.endsWith('.xml'))
+  for (const file of targets) {
+    let report: ConsolidationReport
+    try {
+      report = await consolidateMemoryFile(files, file, options)
+    } catch (err) {
+      console.error(`[Memory] 整理 ${file} 失敗，檔案維持原狀:`, err)
+      continue
+    }
+    reports.push(report)
+    if (report.status === 'consolidated') {
+      console.log(
+        `[Memory] ${options.dryRun ? '（試跑）' : ''}已整理 ${file}：` +
+          `移除 ${report.duplicatesRemoved} 筆重複、彙整 ${report.entriesDigested} 筆舊摘要、` +
+          `移除 ${report.entriesDropped} 筆最舊內容（${report.bytesBefore} → ${report.bytesAfter} bytes）`
+      )
+    } else if (report.status === 'skipped') {
+      console.warn(`[Memory] 略過 ${file}：${report.reason}`)
+    }
+    if (report.oversize) {
+      console.warn(`[Memory] ${file} 仍超過大小上限（${report.bytesAfter} bytes），需要人工檢視`)
+    }
+  }
+  return reports
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 預設設定：以模型彙整，數值可用環境變數調整
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DIGEST_PROMPT = `你是心理諮詢記錄的整理助手。以下是同一個月份的多筆對話摘要（可能包含先前的彙整），
+請整合成一段精簡的月份彙整，保留：主要困擾與情緒變化、取得的進展與洞察、使用過的技巧與用戶的反應、佈置的功課、任何安全相關的訊息。
+以原文使用的語言撰寫，只輸出純文字，不要輸出 XML 標籤，不要加入原文沒有的推測。`
+
+export function createModelDigester(
+  client: Anthropic,
+  model: string = process.env.MEMORY_CONSOLIDATION_MODEL ?? 'claude-haiku-4-5-20251001'
+): Digester {
+  return async ({ period, entries }) => {
+    const response = await client.messages.create({
+      model,
+      max_tokens: 1024,
+      system: DIGEST_PROMPT,
+      messages: [{ role: 'user', content: `【${period}】\n\n${entries.join('\n\n')}` }],
+    })
+    return response.content
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('')
+      .trim()
+  }
+}
+
+let anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+})
+
+// 換掉預設彙整函數使用的 API client（counselor.ts 的 setAnthropicClient 會一起換）
+export function setConsolidationClient(client: Anthropic): void {
+  anthropic = client
+}
+
+export function defaultConsolidationOptions(): ConsolidationOptions {
+  return {
+    maxFileBytes: Number(process.env.MEMORY_FILE_MAX_BYTES ?? 16_384),
+    digestAfterDays: Number(process.env.MEMORY_DIGEST_AFTER_DAYS ?? 60),
+    keepRecentSessions: 5,
+    backupsToKeep: MEMORY_BACKUP_KEEP,
+    digest: createModelDigester(anthropic),
+  }
+}
+
+// 定期執行：前一次還沒跑完就略過這次
+export function scheduleMemoryConsolidation(files: MemoryFiles, intervalHours: number): void {
+  let running = false
+  const timer = setInterval(() => {
+    if (running) return
+    running = true
+    consolidateMemories(files, defaultConsolidationOptions())
+      .catch((err: unknown) => console.error('[Memory] 定期整理失敗:', err))
+      .finally(() => {
+        running = false
+      })
+  }, intervalHours * 3_600_000)
+  timer.unref()
+  console.log(`[Memory] 每 ${intervalHours} 小時整理一次長期記憶`)
+}
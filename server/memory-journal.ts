@@ -0,0 +1,120 @@
+/**
+ * memory-journal.ts — 長期記憶的修改日誌（Journal）
+ *
+ * Memory Tool 的 create、str_replace、insert、delete、rename 都是直接覆寫檔案，
+ * 模型一次錯誤的操作（例如 delete /memories）就會永久毀掉用戶的紀錄。
+ * 現在 FileSystemMemoryHandlers 的每個修改指令都會在這裡附加一筆紀錄：
+ *
+ *   { id, timestamp, sessionId, source, command, path, before, after }
+ *
+ * before / after 是檔案修改前後的完整內容（null 代表檔案不存在），
+ * 所以任何一個版本都可以還原。日誌是 append-only 的 JSONL，
+ * 存放在記憶目錄之外（MEMORY_JOURNAL_DIR），刪除 /memories 也不會連帶刪掉它。
+ *
+ * 唯一的例外是用戶主動「忘記一切」：那時日誌也會一起清空。
+ */
+
+import { randomUUID } from 'node:crypto'
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import type { FileSystemMemoryHandlers } from './counselor.js'
+
+// 誰做了這次修改
+//   tool          — Claude 透過 Memory Tool
+//   user          — 用戶在記憶面板中編輯或刪除
+//   consolidation — 記憶整理工作
+//   restore       — 從日誌還原版本
+//   repair        — 修復不符合格式規範的檔案（memory-schema.ts）
+//   system        — 其他 server 內部操作
+export type JournalSource = 'tool' | 'user' | 'consolidation' | 'restore' | 'repair' | 'system'
+
+export interface JournalEntry {
+  id: string
+  timestamp: string        // ISO 時間
+  sessionId: string | null // 只有 Memory Tool 的修改才有對話 ID
+  source: JournalSource
+  command: string          // create、str_replace、insert、delete、rename、write
+  path: string             // /memories/... 形式的檔案路徑（目錄操作會拆成每個檔案一筆）
+  before: string | null    // 修改前的內容，null 表示原本不存在
+  after: string | null     // 修改後的內容，null 表示被刪除
+}
+
+// 列表用：不含檔案內容，避免一次傳回大量文字
+export type JournalSummary = Omit<JournalEntry, 'before' | 'after'> & {
+  beforeSize: number | null
+  afterSize: number | null
+}
+
+export const MEMORY_JOURNAL_DIR = path.resolve(process.env.MEMORY_JOURNAL_DIR ?? './server/memory-journal')
+const JOURNAL_FILE = path.join(MEMORY_JOURNAL_DIR, 'journal.jsonl')
+
+// 同一個 process 內的寫入依序排隊，避免兩筆紀錄交錯
+let writeQueue: Promise<void> = Promise.resolve()
+
+export async function appendJournal(
+  changes: Omit<JournalEntry, 'id' | 'timestamp'>[]
+): Promise<JournalEntry[]> {
+  const timestamp = new Date().toISOString()
+  const entries = changes.map((change) => ({ id: randomUUID(), timestamp, ...change }))
+  const lines = entries.map((entry) => JSON.stringify(entry) + '\n').join('')
+  const next = writeQueue.then(async () => {
+    await fs.mkdir(MEMORY_JOURNAL_DIR, { recursive: true })
+    await fs.appendFile(JOURNAL_FILE, lines, 'utf-8')
+  })
+  writeQueue = next.catch(() => {})
+  await next
+  return entries
+}
+
+export async function readJournal(filter: { path?: string } = {}): Promise<JournalEntry[]> {
+  await writeQueue
+  let raw: string
+  try {
+    raw = await fs.readFile(JOURNAL_FILE, 'utf-8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw err
+  }
+  const entries: JournalEntry[] = []
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      entries.push(JSON.parse(line) as JournalEntry)
+    } catch {
+      // 寫入途中當機可能留下半行，略過即可
+      console.warn('[Journal] 略過無法解析的日誌行')
+    }
+  }
+  return filter.path ? entries.filter((e) => e.path === filter.path) : entries
+}
+
+export function summarizeJournalEntry({ before, after, ...rest }: JournalEntry): JournalSummary {
+  return { ...rest, beforeSize: before?.length ?? null, afterSize: after?.length ?? null }
+}
+
+export async function findJournalEntry(id: string): Promise<JournalEntry | null> {
+  return (await readJournal()).find((e) => e.id === id) ?? null
+}
+
+export async function clearJournal(): Promise<void> {
+  await writeQueue
+  await fs.rm(JOURNAL_FILE, { force: true })
+}
+
+// 把檔案還原成某筆紀錄修改前（before）或修改後（after）的內容
+// 還原本身也透過 handlers 寫入，所以會留下一筆 source: 'restore' 的紀錄，可以再撤銷
+export async function restoreJournalEntry(
+  handlers: Pick<FileSystemMemoryHandlers, 'writeFile' | 'delete'>,
+  entry: JournalEntry,
+  version: 'before' | 'after' = 'before'
+): Promise<void> {
+  const content = entry[version]
+  if (content === null) {
+    await handlers.delete({ command: 'delete', path: entry.path })
+  } else {
+    await handlers.writeFile(entry.path, content)
+  }
+  console.log(
+    `[Journal] 已將 ${entry.path} 還原為 ${entry.timestamp} ${entry.command} ${version === 'before' ? '之前' : '之後'}的版本`
+  )
+}
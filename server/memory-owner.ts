@@ -0,0 +1,60 @@
+/**
+ * memory-owner.ts — 長期記憶的擁有者
+ *
+ * 長期記憶（/memories）只有一份，所有對話共用 —— 這個 prototype 是給單一用戶使用的。
+ * 第一個帶著 userId 呼叫 /api/chat 的用戶成為擁有者，之後：
+ *
+ *   記憶 API（routes/memories.ts）— 只接受擁有者的 userId
+ *   /api/chat                    — 其他 userId（或沒帶 userId）的對話不能開始，
+ *                                   否則 Claude 會把擁有者的記憶讀給對方聽
+ *
+ * 擁有者存在 MEMORY_OWNER_FILE（記憶目錄之外），「忘記一切」不會清掉它。
+ * 要換另一個人使用時，刪除這個檔案並清空記憶目錄。
+ * 還沒有擁有者時（剛安裝、舊資料）不限制。
+ */
+
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+
+// 測試時用 MEMORY_OWNER_FILE 指到暫存目錄
+const MEMORY_OWNER_FILE = path.resolve(process.env.MEMORY_OWNER_FILE ?? './server/memory-owner.json')
+
+let cachedOwner: string | null | undefined
+
+export async function getMemoryOwner(): Promise<string | null> {
+  if (cachedOwner !== undefined) return cachedOwner
+  try {
+    const data = JSON.parse(await fs.readFile(MEMORY_OWNER_FILE, 'utf-8')) as { userId?: unknown }
+    cachedOwner = typeof data.userId === 'string' ? data.userId : null
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    cachedOwner = null
+  }
+  return cachedOwner
+}
+
+// 還沒有擁有者時記下這個用戶；已經有擁有者時不變。回傳目前的擁有者
+// 用 wx 建立檔案：兩個請求同時搶先時只有一個會寫入成功
+export async function claimMemoryOwner(userId: string): Promise<string> {
+  const owner = await getMemoryOwner()
+  if (owner !== null) return owner
+  try {
+    await fs.mkdir(path.dirname(MEMORY_OWNER_FILE), { recursive: true })
+    await fs.writeFile(MEMORY_OWNER_FILE, JSON.stringify({ userId, claimedAt: new Date().toISOString() }) + '\n', {
+      encoding: 'utf-8',
+      flag: 'wx',
+    })
+    cachedOwner = userId
+    console.log(`[Memory] 用戶 ${userId.slice(0, 8)}... 成為長期記憶的擁有者`)
+    return userId
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err
+    cachedOwner = undefined
+    return (await getMemoryOwner()) ?? userId
+  }
+}
+
+export async function canAccessMemory(userId: string | null): Promise<boolean> {
+  const owner = await getMemoryOwner()
+  return owner === null || owner === userId
+}
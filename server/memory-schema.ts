@@ -0,0 +1,262 @@
+/**
+ * memory-schema.ts — 常用記憶檔案的格式規範
+ *
+ * System Prompt 定義了 user_profile.xml、session_summaries.xml、recurring_themes.xml
+ * 三個檔案（另外還有 server 寫入的 thought_records.xml），但 Memory Tool 的 create / str_replace / insert 原本接受任何文字，
+ * 格式錯誤或各自發明的 XML 會越積越多，之後讀取時反而讓 Claude 混淆。
+ *
+ * 這裡為每個檔案定義一份簡單的規範（根元素、允許的子元素、必要屬性），
+ * FileSystemMemoryHandlers 在每次修改「寫入之前」先檢查修改後的內容：
+ *   - 不符合規範 → 不寫入，回傳說明哪裡錯、正確格式長什麼樣的錯誤訊息，讓 Claude 自行修正
+ *   - 已經壞掉的舊檔案 → 用 npm run memory:repair 修復（修復也會寫入修改日誌，可以還原）
+ *
+ * 規範以外的檔案（Claude 自己建立的其他檔案）不做檢查。
+ */
+
+import * as path from 'node:path'
+import type { FileSystemMemoryHandlers } from './counselor.js'
+import { entryDate, escapeXml, parseMemoryXml, serializeMemoryXml, xmlText, type XmlEntry } from './memory-xml.js'
+
+interface EntryRule {
+  label: string                    // 說明用途（出現在錯誤訊息與 System Prompt）
+  single?: boolean                 // 最多只能出現一次
+  attrs?: Record<string, RegExp>   // 必要屬性與格式
+  example: string                  // 範例（出現在錯誤訊息與 System Prompt）
+}
+
+export interface MemorySchema {
+  root: string
+  entries: Record<string, EntryRule>
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+const MONTH = /^\d{4}-\d{2}$/
+
+// 每個檔案都允許 <note>：放不進其他欄位的內容，也是修復時收容無法辨識內容的地方
+const NOTE: EntryRule = { label: '其他備註', example: '<note>…</note>' }
+
+export const MEMORY_SCHEMAS: Record<string, MemorySchema> = {
+  '/memories/user_profile.xml': {
+    root: 'user_profile',
+    entries: {
+      name: { label: '姓名或稱呼', single: true, example: '<name>小明</name>' },
+      preferred_language: { label: '偏好語言', single: true, example: '<preferred_language>繁體中文</preferred_language>' },
+      concern: { label: '主要困擾（可多筆）', example: '<concern>工作壓力大，常失眠</concern>' },
+      goal: { label: '治療目標（可多筆）', example: '<goal>每週至少三天 12 點前入睡</goal>' },
+      background: { label: '重要背景（可多筆）', example: '<background>與父母同住，在科技業工作</background>' },
+      note: NOTE,
+    },
+  },
+  '/memories/session_summaries.xml': {
+    root: 'session_summaries',
+    entries: {
+      session: {
+        label: '單次對話摘要，date 為 YYYY-MM-DD',
+        attrs: { date: DATE },
+        example: '<session date="2026-03-01">主題、進展、功課、對技巧的反應</session>',
+      },
+      digest: {
+        label: '較早對話的月份彙整（由系統產生，請保留）',
+        attrs: { period: MONTH },
+        example: '<digest period="2026-01" sessions="4">…</digest>',
+      },
+      note: NOTE,
+    },
+  },
+  '/memories/recurring_themes.xml': {
+    root: 'recurring_themes',
+    entries: {
+      pattern: { label: '跨對話觀察到的模式', example: '<pattern>遇到批評時容易自我否定</pattern>' },
+      trigger: { label: '已識別的觸發因素', example: '<trigger>週日晚上想到隔天上班</trigger>' },
+      strength: { label: '優勢和資源', example: '<strength>有一位願意傾聽的好友</strength>' },
+      note: NOTE,
+    },
+  },
+  // 思維記錄由 server 在用戶完成表單時寫入（見 thought-records.ts），Claude 通常只需要讀取
+  '/memories/thought_records.xml': {
+    root: 'thought_records',
+    entries: {
+      record: {
+        label: '一份思維記錄，date 為 YYYY-MM-DD',
+        attrs: { date: DATE },
+        example:
+          '<record date="2026-03-01"><situation>…</situation><automatic_thought>…</automatic_thought>' +
+          '<emotion intensity="80" after="40">焦慮</emotion><balanced_thought>…</balanced_thought></record>',
+      },
+      note: NOTE,
+    },
+  },
+}
+
+// 路徑正規化後再查表，/memories//user_profile.xml 之類的寫法也算同一個檔案
+export function schemaFor(memPath: string): MemorySchema | null {
+  return MEMORY_SCHEMAS[path.posix.normalize(memPath)] ?? null
+}
+
+export function schemaExample(schema: MemorySchema): string {
+  const lines = Object.values(schema.entries).map((rule) => `  ${rule.example}`)
+  return [`<${schema.root}>`, ...lines, `</${schema.root}>`].join('\n')
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 檢查
+// ─────────────────────────────────────────────────────────────────────────────
+
+function entryProblems(schema: MemorySchema, entry: XmlEntry, position: number): string[] {
+  if (entry.tag === '#comment') return []
+  const where = `第 ${position + 1} 筆 <${entry.tag}>`
+  const rule = schema.entries[entry.tag]
+  if (!rule) {
+    return [`${where} 不是允許的標籤（允許：${Object.keys(schema.entries).join('、')}）`]
+  }
+  const problems: string[] = []
+  for (const [name, pattern] of Object.entries(rule.attrs ?? {})) {
+    const value = entry.attrs[name]
+    if (value === undefined) problems.push(`${where} 缺少 ${name} 屬性`)
+    else if (!pattern.test(value)) problems.push(`${where} 的 ${name}="${value}" 格式不正確`)
+  }
+  if (!entry.text) problems.push(`${where} 沒有內容`)
+  return problems
+}
+
+// 回傳問題清單；空陣列代表符合規範（或這個路徑沒有規範）
+export function validateMemoryContent(memPath: string, content: string): string[] {
+  const schema = schemaFor(memPath)
+  if (!schema) return []
+
+  let doc
+  try {
+    doc = parseMemoryXml(content)
+  } catch (err) {
+    return [`不是格式正確的 XML：${err instanceof Error ? err.message : String(err)}`]
+  }
+
+  const problems: string[] = []
+  if (doc.rootTag !== schema.root) {
+    problems.push(`根元素必須是 <${schema.root}>，目前是 <${doc.rootTag}>`)
+  }
+  doc.entries.forEach((entry, i) => problems.push(...entryProblems(schema, entry, i)))
+  for (const [tag, rule] of Object.entries(schema.entries)) {
+    const count = doc.entries.filter((e) => e.tag === tag).length
+    if (rule.single && count > 1) problems.push(`<${tag}> 只能有一筆，目前有 ${count} 筆`)
+  }
+  return problems
+}
+
+// 給 Claude 看的錯誤訊息：說明哪裡錯、檔案沒有被修改、正確格式長什麼樣
+export function formatSchemaError(memPath: string, problems: string[]): string {
+  const schema = schemaFor(memPath)
+  const shown = problems.slice(0, 8)
+  return [
+    `錯誤：寫入被拒絕，${memPath} 不符合格式規範，檔案未被修改。`,
+    ...shown.map((p) => `- ${p}`),
+    ...(problems.length > shown.length ? [`- …另外還有 ${problems.length - shown.length} 個問題`] : []),
+    ...(schema ? ['正確格式：', schemaExample(schema)] : []),
+    '請修正內容後重新送出。',
+  ].join('\n')
+}
+
+// System Prompt 用的格式說明
+export function buildMemorySchemaGuide(): string {
+  return Object.entries(MEMORY_SCHEMAS)
+    .map(([memPath, schema]) => {
+      const rules = Object.entries(schema.entries)
+        .map(([tag, rule]) => `\`<${tag}>\` ${rule.label}${rule.single ? '（只能一筆）' : ''}`)
+        .join('；')
+      return `- \`${memPath}\`：根元素 \`<${schema.root}>\`，子元素 ${rules}`
+    })
+    .join('\n')
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 修復
+//
+// 盡量保留內容，只調整結構：
+//   - XML 本身壞掉 → 取出純文字，整份放進一筆 <note>
+//   - 根元素名稱不對 → 改成規範的名稱
+//   - 不認得的標籤、缺少或格式錯誤的屬性 → 能推斷日期就補上，否則轉成 <note from="原標籤">
+//   - 只能一筆的欄位重複 → 保留最後一筆，其餘轉成 <note>
+//   - 沒有內容的子元素 → 移除
+// ─────────────────────────────────────────────────────────────────────────────
+
+function toNote(entry: XmlEntry): XmlEntry {
+  const raw = `<note from="${escapeXml(entry.tag)}">${escapeXml(entry.text)}</note>`
+  return { raw, tag: 'note', attrs: { from: entry.tag }, text: entry.text }
+}
+
+function repairEntry(schema: MemorySchema, entry: XmlEntry): XmlEntry | null {
+  if (entry.tag === '#comment') return entry
+  if (!entry.text) return null
+  const rule = schema.entries[entry.tag]
+  if (!rule) return toNote(entry)
+
+  let raw = entry.raw
+  const attrs = { ...entry.attrs }
+  for (const [name, pattern] of Object.entries(rule.attrs ?? {})) {
+    if (attrs[name] !== undefined && pattern.test(attrs[name])) continue
+    // session 的日期可能寫在 <date> 子元素或寫成 2026-03-01T10:00 之類的格式
+    const inferred = name === 'date' ? entryDate(entry) : null
+    if (!inferred) return toNote(entry)
+    attrs[name] = inferred
+    const openTag = raw.slice(0, raw.indexOf('>') + 1)
+    const withoutAttr = openTag.replace(new RegExp(`\\s${name}\\s*=\\s*("[^"]*"|'[^']*')`), '')
+    raw = withoutAttr.replace(/^<([^\s/>]+)/, `<$1 ${name}="${inferred}"`) + raw.slice(openTag.length)
+  }
+  return { ...entry, raw, attrs }
+}
+
+export function repairMemoryContent(memPath: string, content: string): string | null {
+  const schema = schemaFor(memPath)
+  if (!schema || validateMemoryContent(memPath, content).length === 0) return null
+
+  let doc
+  try {
+    doc = parseMemoryXml(content)
+  } catch {
+    const text = xmlText(content)
+    const entries = text ? [toNote({ raw: '', tag: 'recovered', attrs: {}, text })] : []
+    return serializeMemoryXml({ prolog: '', rootTag: schema.root, rootAttrs: '', entries })
+  }
+
+  let entries = doc.entries
+    .map((entry) => repairEntry(schema, entry))
+    .filter((entry): entry is XmlEntry => entry !== null)
+  for (const [tag, rule] of Object.entries(schema.entries)) {
+    if (!rule.single) continue
+    let last = -1
+    entries.forEach((e, i) => {
+      if (e.tag === tag) last = i
+    })
+    entries = entries.map((e, i) => (e.tag === tag && i !== last ? toNote(e) : e))
+  }
+  return serializeMemoryXml({ ...doc, rootTag: schema.root, rootAttrs: '', entries })
+}
+
+export interface RepairReport {
+  path: string
+  problems: string[] // 修復前的問題
+  repaired: boolean
+}
+
+// 檢查（並修復）所有有規範的檔案；寫入透過 handlers，所以會留下修改紀錄
+export async function repairMemories(
+  handlers: Pick<FileSystemMemoryHandlers, 'readFile' | 'writeFile'>,
+  options: { dryRun?: boolean } = {}
+): Promise<RepairReport[]> {
+  const reports: RepairReport[] = []
+  for (const memPath of Object.keys(MEMORY_SCHEMAS)) {
+    const content = await handlers.readFile(memPath)
+    if (content === null) continue
+    const problems = validateMemoryContent(memPath, content)
+    if (problems.length === 0) {
+      reports.push({ path: memPath, problems, repaired: false })
+      continue
+    }
+    const repaired = repairMemoryContent(memPath, content)
+    if (repaired !== null && !options.dryRun) {
+      await handlers.writeFile(memPath, repaired)
+    }
+    reports.push({ path: memPath, problems, repaired: repaired !== null && !options.dryRun })
+  }
+  return reports
+}
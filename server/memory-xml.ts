@@ -0,0 +1,152 @@
+/**
+ * memory-xml.ts — 長期記憶 XML 檔案的簡易解析
+ *
+ * 記憶檔案由 Claude 自己撰寫，格式並不固定，但大致都是：
+ *   <session_summaries>
+ *     <session date="2026-03-01">...</session>
+ *     <session date="2026-03-08">...</session>
+ *   </session_summaries>
+ *
+ * 記憶整理（memory-consolidation.ts）只需要把根元素底下的「第一層子元素」
+ * 一筆一筆切出來，所以這裡不做完整的 XML 解析，只追蹤標籤的開合：
+ *   - 每個子元素保留原始文字（raw），寫回時原封不動
+ *   - 標籤沒有正確開合時直接 throw，呼叫者應略過這個檔案而不是冒險改寫
+ */
+
+export interface XmlEntry {
+  raw: string                   // 子元素的原始 XML 文字
+  tag: string                   // 標籤名稱；註解為 '#comment'
+  attrs: Record<string, string> // 開始標籤上的屬性
+  text: string                  // 去掉標籤、合併空白後的純文字（比對重複用）
+}
+
+export interface XmlDocument {
+  prolog: string // 根元素之前的內容，例如 <?xml ...?>
+  rootTag: string
+  rootAttrs: string // 根元素開始標籤上的屬性原文
+  entries: XmlEntry[]
+}
+
+// 依序比對：註解、CDATA、處理指令（<?xml?>）、DOCTYPE、一般標籤
+const TOKEN_RE =
+  /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<![^>]*>|<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[^\s=>/]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g
+
+const ATTR_RE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+function parseAttrs(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  for (const m of source.matchAll(ATTR_RE)) {
+    attrs[m[1]] = m[2] ?? m[3] ?? ''
+  }
+  return attrs
+}
+
+export function xmlText(raw: string): string {
+  return raw
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(lt|gt|quot|apos|amp);/g, (_, name: string) => XML_ENTITIES[name])
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' }
+
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+export function parseMemoryXml(content: string): XmlDocument {
+  const stack: string[] = []
+  const entries: XmlEntry[] = []
+  let prolog = ''
+  let rootTag = ''
+  let rootAttrs = ''
+  let rootClosed = false
+  let entryStart = -1
+  let entryTag = ''
+  let entryAttrs: Record<string, string> = {}
+  let lastIndex = 0
+
+  const checkLooseText = (from: number, to: number) => {
+    // 根元素外、或根元素直接底下的非空白文字，表示這不是我們能安全整理的格式
+    if (content.slice(from, to).trim() && stack.length <= 1 && entryStart < 0) {
+      throw new Error('根元素底下有不屬於任何子元素的文字')
+    }
+  }
+
+  for (const m of content.matchAll(TOKEN_RE)) {
+    const start = m.index
+    const end = start + m[0].length
+    checkLooseText(lastIndex, start)
+    lastIndex = end
+
+    const [token, closing, name, attrSource, selfClosing] = m
+    if (!name) {
+      // 註解、CDATA、處理指令
+      if (!rootTag) {
+        prolog += token
+      } else if (stack.length === 1 && entryStart < 0 && token.startsWith('<!--')) {
+        entries.push({ raw: token, tag: '#comment', attrs: {}, text: token.slice(4, -3).trim() })
+      } else if (stack.length <= 1 && entryStart < 0 && !token.startsWith('<!--')) {
+        throw new Error('根元素底下有不屬於任何子元素的內容')
+      }
+      continue
+    }
+
+    if (rootClosed) throw new Error('根元素之後還有其他元素')
+
+    if (closing) {
+      const open = stack.pop()
+      if (open !== name) {
+        throw new Error(`標籤沒有正確關閉：預期 </${open ?? '（無）'}>，卻遇到 </${name}>`)
+      }
+      if (stack.length === 1 && entryStart >= 0) {
+        const raw = content.slice(entryStart, end)
+        entries.push({ raw, tag: entryTag, attrs: entryAttrs, text: xmlText(raw) })
+        entryStart = -1
+      }
+      if (stack.length === 0) rootClosed = true
+      continue
+    }
+
+    if (!rootTag) {
+      if (selfClosing) throw new Error('根元素不能是空標籤')
+      rootTag = name
+      rootAttrs = attrSource.trim()
+      stack.push(name)
+      continue
+    }
+
+    if (stack.length === 1) {
+      entryStart = start
+      entryTag = name
+      entryAttrs = parseAttrs(attrSource)
+      if (selfClosing) {
+        entries.push({ raw: token, tag: name, attrs: entryAttrs, text: '' })
+        entryStart = -1
+        continue
+      }
+    }
+    if (!selfClosing) stack.push(name)
+  }
+
+  checkLooseText(lastIndex, content.length)
+  if (!rootTag) throw new Error('找不到根元素')
+  if (!rootClosed) throw new Error(`根元素 <${rootTag}> 沒有關閉`)
+  return { prolog: prolog.trim(), rootTag, rootAttrs, entries }
+}
+
+// 寫回時每個子元素各自一段，縮排兩格
+export function serializeMemoryXml(doc: XmlDocument): string {
+  const open = doc.rootAttrs ? `<${doc.rootTag} ${doc.rootAttrs}>` : `<${doc.rootTag}>`
+  const body = doc.entries.map((e) => `  ${e.raw.trim()}`).join('\n')
+  const lines = [doc.prolog, open, body, `</${doc.rootTag}>`].filter(Boolean)
+  return lines.join('\n') + '\n'
+}
+
+// 子元素的日期：優先看 date 屬性，其次看 <date> 子元素，格式需以 YYYY-MM-DD 開頭
+export function entryDate(entry: XmlEntry): string | null {
+  const candidate = entry.attrs.date ?? /<date>\s*([^<]+?)\s*<\/date>/.exec(entry.raw)?.[1]
+  return candidate && /^\d{4}-\d{2}-\d{2}/.test(candidate) ? candidate.slice(0, 10) : null
+}
@@ -0,0 +1,253 @@
+/**
+ * mood.ts — 心情紀錄（時間序列）
+ *
+ * 以前用戶選的心情牌卡只存在當輪的對話裡，過幾天就看不出心情的變化。
+ * 現在每次選牌、每次每日心情打卡都存成一筆帶時間的紀錄：
+ *
+ *   { id, createdAt, source: 'card', card: { id, name, symbol, colorTheme }, sessionId }
+ *   { id, createdAt, source: 'checkin', rating: 1-5, note? }
+ *
+ * 紀錄依用戶分開存放（userId 由前端產生並存在 localStorage），是結構化的 JSON，
+ * 不放在 /memories 的 XML 裡：數字與時間要能直接統計，也不需要 Claude 自己維護格式。
+ *
+ *   InMemoryMoodStore — 只存在記憶體中，適合開發或測試
+ *   FileMoodStore     — 每個用戶一個 JSONL 檔（server/mood/<userId>.jsonl），只附加不改寫（預設）
+ *
+ * 透過環境變數 MOOD_STORE=memory | file 切換。
+ * GET /api/mood 回傳紀錄與摘要（見 routes/mood.ts）；Claude 用 read_mood_trends 工具讀同一份摘要。
+ */
+
+import { randomUUID } from 'node:crypto'
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+
+export type MoodSource = 'card' | 'checkin'
+
+export interface MoodCardChoice {
+  id: string
+  name: string
+  symbol: string
+  colorTheme: string
+}
+
+export interface MoodEntry {
+  id: string
+  createdAt: string       // ISO 時間
+  source: MoodSource
+  card?: MoodCardChoice   // source = 'card'
+  sessionId?: string      // 在哪個對話中選的牌
+  rating?: number         // source = 'checkin'：1（很糟）~ 5（很好）
+  note?: string           // 打卡時的一句話（選填）
+}
+
+export type NewMoodEntry = Omit<MoodEntry, 'id' | 'createdAt'>
+
+export interface MoodStore {
+  append(userId: string, entry: MoodEntry): Promise<void>
+  list(userId: string): Promise<MoodEntry[]> // 依時間先後排序
+}
+
+// userId 由前端產生（crypto.randomUUID），和 sessionId 一樣只允許 UUID 常見的字元
+export function isValidUserId(userId: unknown): userId is string {
+  return typeof userId === 'string' && /^[A-Za-z0-9_-]{1,128}$/.test(userId)
+}
+
+export const MOOD_RATING_MIN = 1
+export const MOOD_RATING_MAX = 5
+export const MOOD_NOTE_MAX_LENGTH = 200
+
+// ─────────────────────────────────────────────────────────────────────────────
+// InMemoryMoodStore：資料只存在記憶體中，server 重啟後消失
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class InMemoryMoodStore implements MoodStore {
+  private entries = new Map<string, MoodEntry[]>()
+
+  async append(userId: string, entry: MoodEntry): Promise<void> {
+    this.entries.set(userId, [...(this.entries.get(userId) ?? []), entry])
+  }
+
+  async list(userId: string): Promise<MoodEntry[]> {
+    return [...(this.entries.get(userId) ?? [])]
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// FileMoodStore：每個用戶一個 <dir>/<userId>.jsonl，每筆紀錄一行
+//
+// 只附加不改寫，寫到一半當掉最多損失最後一行；讀取時略過無法解析的行。
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class FileMoodStore implements MoodStore {
+  constructor(private readonly dir: string) {}
+
+  async init() {
+    await fs.mkdir(this.dir, { recursive: true })
+    console.log(`[Mood] 心情紀錄目錄就緒: ${this.dir}`)
+  }
+
+  // userId 來自前端，只允許 UUID 常見的字元，防止路徑穿越
+  private filePath(userId: string): string {
+    if (!isValidUserId(userId)) {
+      throw new Error(`不合法的 userId: ${userId}`)
+    }
+    return path.join(this.dir, `${userId}.jsonl`)
+  }
+
+  async append(userId: string, entry: MoodEntry): Promise<void> {
+    await fs.appendFile(this.filePath(userId), JSON.stringify(entry) + '\n', 'utf-8')
+  }
+
+  async list(userId: string): Promise<MoodEntry[]> {
+    let raw: string
+    try {
+      raw = await fs.readFile(this.filePath(userId), 'utf-8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw err
+    }
+    const entries: MoodEntry[] = []
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        entries.push(JSON.parse(line) as MoodEntry)
+      } catch {
+        console.warn(`[Mood] 略過無法解析的紀錄（${userId.slice(0, 8)}...）`)
+      }
+    }
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 依環境變數建立 store；counselor.ts 與 routes/mood.ts 透過下方函數存取
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const MOOD_DIR = path.resolve(process.env.MOOD_DIR ?? './server/mood')
+
+export async function createMoodStore(): Promise<MoodStore> {
+  const kind = process.env.MOOD_STORE ?? 'file'
+  if (kind === 'memory') {
+    console.log('[Mood] 使用記憶體儲存（server 重啟後心情紀錄會消失）')
+    return new InMemoryMoodStore()
+  }
+  if (kind !== 'file') {
+    throw new Error(`未知的 MOOD_STORE: ${kind}（可用值：memory、file）`)
+  }
+  const store = new FileMoodStore(MOOD_DIR)
+  await store.init()
+  return store
+}
+
+// 啟動前先用記憶體 store，index.ts 初始化時會換成設定指定的實作
+let moodStore: MoodStore = new InMemoryMoodStore()
+
+export function setMoodStore(store: MoodStore): void {
+  moodStore = store
+}
+
+export async function recordMood(userId: string, entry: NewMoodEntry): Promise<MoodEntry> {
+  const saved: MoodEntry = { id: randomUUID(), createdAt: new Date().toISOString(), ...entry }
+  await moodStore.append(userId, saved)
+  return saved
+}
+
+export async function getMoodEntries(userId: string): Promise<MoodEntry[]> {
+  return moodStore.list(userId)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 摘要：前端趨勢圖與 Claude 共用
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const MOOD_SUMMARY_DAYS = 30
+
+export interface MoodSummary {
+  days: number                  // 統計最近幾天
+  checkins: number
+  averageRating: number | null  // 期間內打卡的平均分數
+  recentAverage: number | null  // 最近 7 天的平均
+  previousAverage: number | null // 再往前 7 天的平均，和 recentAverage 比較看趨勢
+  cardCount: number
+  topThemes: { colorTheme: string; count: number }[] // 牌卡色彩主題出現次數，多的在前
+  topCards: { name: string; symbol: string; count: number }[]
+  lastEntryAt: string | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Map<string, { item: T; count: number }> {
+  const counts = new Map<string, { item: T; count: number }>()
+  for (const item of items) {
+    const k = key(item)
+    const current = counts.get(k)
+    counts.set(k, { item: current?.item ?? item, count: (current?.count ?? 0) + 1 })
+  }
+  return counts
+}
+
+export function summarizeMood(entries: MoodEntry[], now = new Date(), days = MOOD_SUMMARY_DAYS): MoodSummary {
+  const since = now.getTime() - days * DAY_MS
+  const inRange = entries.filter((e) => Date.parse(e.createdAt) >= since)
+  const ratings = (from: number, to: number) =>
+    inRange
+      .filter((e) => e.rating !== undefined && Date.parse(e.createdAt) >= from && Date.parse(e.createdAt) < to)
+      .map((e) => e.rating as number)
+  const cards = inRange.flatMap((e) => (e.card ? [e.card] : []))
+  const end = now.getTime() + 1
+
+  return {
+    days,
+    checkins: ratings(since, end).length,
+    averageRating: average(ratings(since, end)),
+    recentAverage: average(ratings(now.getTime() - 7 * DAY_MS, end)),
+    previousAverage: average(ratings(now.getTime() - 14 * DAY_MS, now.getTime() - 7 * DAY_MS)),
+    cardCount: cards.length,
+    topThemes: [...countBy(cards, (c) => c.colorTheme).values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 3)
+      .map(({ item, count }) => ({ colorTheme: item.colorTheme, count })),
+    topCards: [...countBy(cards, (c) => c.id).values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5)
+      .map(({ item, count }) => ({ name: item.name, symbol: item.symbol, count })),
+    lastEntryAt: entries[entries.length - 1]?.createdAt ?? null,
+  }
+}
+
+// 給 Claude 的文字版摘要（read_mood_trends 工具的結果）
+export function formatMoodSummary(summary: MoodSummary, recent: MoodEntry[]): string {
+  if (summary.lastEntryAt === null) return '這位用戶還沒有任何心情紀錄（沒有選過心情牌卡，也沒有打卡）。'
+  const lines = [`最近 ${summary.days} 天的心情紀錄摘要：`]
+  if (summary.checkins > 0) {
+    lines.push(`- 心情打卡 ${summary.checkins} 次，平均 ${summary.averageRating} 分（1-5 分，5 分最好）`)
+    if (summary.recentAverage !== null && summary.previousAverage !== null) {
+      const diff = Math.round((summary.recentAverage - summary.previousAverage) * 10) / 10
+      const trend = diff > 0.2 ? '上升' : diff < -0.2 ? '下降' : '持平'
+      lines.push(`- 最近 7 天平均 ${summary.recentAverage} 分，前 7 天 ${summary.previousAverage} 分（${trend}）`)
+    } else if (summary.recentAverage !== null) {
+      lines.push(`- 最近 7 天平均 ${summary.recentAverage} 分`)
+    }
+  } else {
+    lines.push('- 期間內沒有心情打卡')
+  }
+  if (summary.cardCount > 0) {
+    lines.push(`- 選了 ${summary.cardCount} 次心情牌卡`)
+    lines.push(`- 最常出現的牌卡：${summary.topCards.map((c) => `「${c.name}」${c.symbol} ${c.count} 次`).join('、')}`)
+    lines.push(`- 最常出現的色彩主題：${summary.topThemes.map((t) => `${t.colorTheme} ${t.count} 次`).join('、')}`)
+  }
+  if (recent.length > 0) {
+    lines.push('', '最近幾筆紀錄（新的在前）：')
+    for (const e of [...recent].reverse()) {
+      const date = e.createdAt.slice(0, 10)
+      if (e.card) lines.push(`- ${date} 選了牌卡「${e.card.name}」${e.card.symbol}`)
+      else if (e.rating !== undefined) lines.push(`- ${date} 打卡 ${e.rating} 分${e.note ? `：${e.note}` : ''}`)
+    }
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,158 @@
+/**
+ * rate-limit.ts — /api/chat 的請求頻率與每日 token 上限
+ *
+ * 任何連得到 server 的人都能呼叫 /api/chat，每一輪又可能跑最多 10 次 toolRunner 迭代，
+ * 沒有限制的話一個分頁（或一段迴圈腳本）就能把 API 額度用完。
+ *
+ * 兩種限制，各自依「對話（sessionId）」與「來源 IP」分開計算，任一個超過就拒絕：
+ *
+ *   請求頻率  — 最近 60 秒內的請求數（滑動視窗）
+ *   每日 token — 當天（UTC）Agent 迴圈每次 API 呼叫的 input + output token 總和，
+ *               由 streamCounselorResponse 在每次 API 呼叫結束後回報（recordTokens）
+ *
+ * 超過時 /api/chat 回 429，附上 Retry-After header 與多久後可以再試（見 app.ts）。
+ * token 是這一輪結束後才知道的，所以檢查的是「開始之前是否已經用完」，最後一輪可能略微超過。
+ * 對話歷史壓縮與危機確認的 API 呼叫不計入。
+ *
+ * 計數只存在記憶體中，server 重啟後歸零；多台 server 時每台各自計算。
+ * 上限由環境變數設定（見 rateLimitConfigFromEnv），設為 0 代表不限制。
+ * IP 取自 req.ip：放在 reverse proxy 後面時，要設定 Express 的 trust proxy 才拿得到真正的來源。
+ */
+
+export interface RateLimitConfig {
+  sessionRequestsPerMinute: number
+  ipRequestsPerMinute: number
+  sessionTokensPerDay: number
+  ipTokensPerDay: number
+}
+
+// 發出請求的一方：同時依對話與 IP 計算
+export interface ChatClient {
+  sessionId: string
+  ip: string
+}
+
+export interface RateLimitRejection {
+  limit: 'requests' | 'tokens'
+  scope: 'session' | 'ip'
+  retryAfterSeconds: number
+  message: string
+}
+
+const WINDOW_MS = 60_000
+// 記錄的 key 超過這個數量時，順便清掉已經沒有作用的紀錄
+const SWEEP_THRESHOLD = 5_000
+
+export function rateLimitConfigFromEnv(): RateLimitConfig {
+  return {
+    sessionRequestsPerMinute: Number(process.env.CHAT_RATE_LIMIT_SESSION_PER_MINUTE ?? 10),
+    ipRequestsPerMinute: Number(process.env.CHAT_RATE_LIMIT_IP_PER_MINUTE ?? 30),
+    sessionTokensPerDay: Number(process.env.CHAT_TOKEN_BUDGET_SESSION_PER_DAY ?? 300_000),
+    ipTokensPerDay: Number(process.env.CHAT_TOKEN_BUDGET_IP_PER_DAY ?? 1_000_000),
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ChatRateLimiter
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface TokenUsage {
+  day: string    // YYYY-MM-DD（UTC）
+  tokens: number
+}
+
+export class ChatRateLimiter {
+  private readonly requests = new Map<string, number[]>()   // key → 最近 60 秒內的請求時間
+  private readonly tokens = new Map<string, TokenUsage>()   // key → 當天用掉的 token
+
+  constructor(
+    private readonly config: RateLimitConfig,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  // 檢查是否可以開始新的一輪；通過時同時記下這次請求
+  check(client: ChatClient): RateLimitRejection | null {
+    const now = this.now()
+    const scopes = [
+      { scope: 'session' as const, key: `session:${client.sessionId}`, requests: this.config.sessionRequestsPerMinute, tokens: this.config.sessionTokensPerDay },
+      { scope: 'ip' as const, key: `ip:${client.ip}`, requests: this.config.ipRequestsPerMinute, tokens: this.config.ipTokensPerDay },
+    ]
+
+    for (const { scope, key, tokens } of scopes) {
+      if (tokens > 0 && this.tokensUsed(key, now) >= tokens) {
+        return {
+          limit: 'tokens',
+          scope,
+          retryAfterSeconds: Math.ceil((nextUtcMidnight(now) - now) / 1000),
+          message: scope === 'session' ? '這個對話今天的使用量已經達到上限' : '今天的使用量已經達到上限',
+        }
+      }
+    }
+
+    for (const { scope, key, requests } of scopes) {
+      if (requests <= 0) continue
+      const recent = this.recentRequests(key, now)
+      if (recent.length >= requests) {
+        return {
+          limit: 'requests',
+          scope,
+          retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + WINDOW_MS - now) / 1000)),
+          message: '訊息傳送得太頻繁，請稍後再試',
+        }
+      }
+    }
+
+    for (const { key, requests } of scopes) {
+      if (requests > 0) this.requests.set(key, [...this.recentRequests(key, now), now])
+    }
+    if (this.requests.size + this.tokens.size > SWEEP_THRESHOLD) this.sweep(now)
+    return null
+  }
+
+  // 一次 API 呼叫結束後記下用掉的 token
+  recordTokens(client: ChatClient, tokens: number): void {
+    if (tokens <= 0) return
+    const now = this.now()
+    for (const key of [`session:${client.sessionId}`, `ip:${client.ip}`]) {
+      this.tokens.set(key, { day: utcDay(now), tokens: this.tokensUsed(key, now) + tokens })
+    }
+  }
+
+  private recentRequests(key: string, now: number): number[] {
+    return (this.requests.get(key) ?? []).filter((t) => t > now - WINDOW_MS)
+  }
+
+  private tokensUsed(key: string, now: number): number {
+    const usage = this.tokens.get(key)
+    return usage && usage.day === utcDay(now) ? usage.tokens : 0
+  }
+
+  private sweep(now: number): void {
+    for (const key of this.requests.keys()) {
+      if (this.recentRequests(key, now).length === 0) this.requests.delete(key)
+    }
+    for (const [key, usage] of this.tokens) {
+      if (usage.day !== utcDay(now)) this.tokens.delete(key)
+    }
+  }
+}
+
+function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+function nextUtcMidnight(time: number): number {
+  const date = new Date(time)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+}
+
+// 目前使用的 limiter（測試時用 setChatRateLimiter 換成不同的上限）
+let chatRateLimiter = new ChatRateLimiter(rateLimitConfigFromEnv())
+
+export function getChatRateLimiter(): ChatRateLimiter {
+  return chatRateLimiter
+}
+
+export function setChatRateLimiter(limiter: ChatRateLimiter): void {
+  chatRateLimiter = limiter
+}
@@ -0,0 +1,82 @@
+/**
+ * routes/homework.ts — 練習作業 API
+ *
+ *   GET   /api/homework?userId=...&status=open   取得用戶的作業（舊的在前），可只列出某個狀態
+ *   PATCH /api/homework/:id                      標記完成或跳過（body: { userId, status: 'done' | 'skipped', note?, sessionId? }）
+ *
+ * 回報的 note 是用戶自己寫的文字，和聊天訊息一樣先做危機篩檢（crisis.ts）：
+ * 命中時寫入稽核紀錄，回應附上 crisis（與 'crisis' SSE 事件相同的內容），前端顯示求助資源橫幅。
+ * sessionId 是用戶回報時開著的對話，橫幅與稽核紀錄都記在這個對話。
+ *
+ * 作業由 Claude 透過 assign_homework 工具建立（見 counselor.ts），不經過這裡。
+ */
+
+import { Router } from 'express'
+import { recordCrisisAudit, screenForCrisis, toCrisisEvent } from '../crisis.js'
+import { closeHomework, getHomework, HOMEWORK_NOTE_MAX_LENGTH, type HomeworkStatus } from '../homework.js'
+import { isValidUserId } from '../mood.js'
+
+export const homeworkRouter = Router()
+
+const STATUSES: HomeworkStatus[] = ['open', 'done', 'skipped']
+
+homeworkRouter.get('/', async (req, res) => {
+  const { userId, status } = req.query
+  if (!isValidUserId(userId)) {
+    res.status(400).json({ error: '不合法的 userId' })
+    return
+  }
+  if (status !== undefined && !STATUSES.includes(status as HomeworkStatus)) {
+    res.status(400).json({ error: `status 必須是 ${STATUSES.join('、')} 其中之一` })
+    return
+  }
+  const assignments = await getHomework(userId)
+  res.json({ assignments: status === undefined ? assignments : assignments.filter((a) => a.status === status) })
+})
+
+homeworkRouter.patch('/:id', async (req, res) => {
+  const { userId, status, note, sessionId } = req.body as {
+    userId?: unknown
+    status?: unknown
+    note?: unknown
+    sessionId?: unknown
+  }
+  if (!isValidUserId(userId)) {
+    res.status(400).json({ error: '不合法的 userId' })
+    return
+  }
+  if (status !== 'done' && status !== 'skipped') {
+    res.status(400).json({ error: "status 必須是 'done' 或 'skipped'" })
+    return
+  }
+  if (note !== undefined && (typeof note !== 'string' || note.length > HOMEWORK_NOTE_MAX_LENGTH)) {
+    res.status(400).json({ error: `note 必須是 ${HOMEWORK_NOTE_MAX_LENGTH} 字以內的文字` })
+    return
+  }
+  const result = await closeHomework(userId, req.params.id, status, typeof note === 'string' ? note.trim() : '')
+  if (result === 'not_found') {
+    res.status(404).json({ error: '找不到這份作業' })
+    return
+  }
+  if (result === 'already_closed') {
+    res.status(409).json({ error: '這份作業已經標記過了' })
+    return
+  }
+  console.log(`[Homework] 用戶 ${userId.slice(0, 8)}... 將作業「${result.title}」標記為 ${status}`)
+
+  const crisis = result.note ? await screenForCrisis(result.note) : null
+  if (crisis?.detected) {
+    const auditSessionId = typeof sessionId === 'string' && sessionId ? sessionId : (result.sessionId ?? `homework:${result.id}`)
+    console.warn(
+      `[Crisis] Session ${auditSessionId.slice(0, 8)}... 作業回報中偵測到危機訊號（${crisis.level}，來源 ${crisis.source}）:`,
+      crisis.matches.map((m) => m.id).join(', ')
+    )
+    // 這裡不是串流，等稽核紀錄寫完再回應；寫入失敗也照常回應，不能擋住求助資源
+    await recordCrisisAudit(auditSessionId, crisis).catch((err: unknown) => {
+      console.error('[Crisis] 寫入稽核紀錄失敗:', err)
+    })
+    res.json({ assignment: result, crisis: toCrisisEvent(crisis) })
+    return
+  }
+  res.json({ assignment: result })
+})
@@ -0,0 +1,229 @@
+/**
+ * routes/memories.ts — 長期記憶檢視與編輯 API（「你記得我什麼？」）
+ *
+ * 每個請求都要帶 ?userId=...：長期記憶只有一份，只有它的擁有者能讀取與修改（見 memory-owner.ts）。
+ * 這個 app 是給單一用戶使用的 —— 其他 userId 一律回 403。
+ *
+ *   GET    /api/memories                    列出所有記憶檔案，XML 檔案附上逐條解析的內容
+ *   GET    /api/memories/file?path=...      讀取單一檔案原文
+ *   PUT    /api/memories/file?path=...      覆寫檔案內容（body: { content }）
+ *   DELETE /api/memories/file?path=...      刪除檔案
+ *   DELETE /api/memories/entries?path=...   刪除檔案中的單一條目（body: { index, text }）
+ *   DELETE /api/memories                    忘記一切：刪除所有記憶檔案、備份與修改日誌
+ *
+ *   GET    /api/memories/history?path=...   列出修改紀錄（新的在前；不帶 path 則列出全部）
+ *   GET    /api/memories/history/:id        取得單筆紀錄，含修改前後的完整內容
+ *   POST   /api/memories/history/:id/restore 把檔案還原成該筆紀錄修改前（或修改後）的版本
+ *                                            （body: { version?: 'before' | 'after' }）
+ *
+ * 所有路徑都經過 FileSystemMemoryHandlers 的 resolveSafePath 檢查，
+ * 與 Claude 使用 Memory Tool 時的限制相同；另外不允許存取隱藏檔（例如 .backups）。
+ */
+
+import { Router, type Request } from 'express'
+import { FileSystemMemoryHandlers } from '../counselor.js'
+import { canAccessMemory } from '../memory-owner.js'
+import { isValidUserId } from '../mood.js'
+import {
+  findJournalEntry,
+  readJournal,
+  restoreJournalEntry,
+  summarizeJournalEntry,
+} from '../memory-journal.js'
+import { validateMemoryContent } from '../memory-schema.js'
+import { parseMemoryXml, serializeMemoryXml } from '../memory-xml.js'
+
+export const memoriesRouter = Router()
+
+// 經由這個 API 的修改在日誌中標記為用戶所做
+const memoryHandlers = new FileSystemMemoryHandlers({ sessionId: null, source: 'user' })
+const restoreHandlers = new FileSystemMemoryHandlers({ sessionId: null, source: 'restore' })
+
+// 所有路由都先確認呼叫者是長期記憶的擁有者
+memoriesRouter.use(async (req, res, next) => {
+  const { userId } = req.query
+  if (!isValidUserId(userId)) {
+    res.status(400).json({ error: '不合法的 userId' })
+    return
+  }
+  if (!(await canAccessMemory(userId))) {
+    res.status(403).json({ error: '無法存取長期記憶' })
+    return
+  }
+  next()
+})
+
+// 從 ?path= 取出記憶檔案路徑；格式不對回傳 null
+function memoryPath(req: Request): string | null {
+  const { path } = req.query
+  if (typeof path !== 'string' || !path.startsWith('/memories/')) return null
+  // 隱藏檔（例如 .backups）只給 server 內部使用
+  if (path.split('/').some((segment) => segment.startsWith('.'))) return null
+  return path
+}
+
+memoriesRouter.get('/', async (_req, res) => {
+  const paths = await memoryHandlers.listFiles('/memories', true)
+  const files = []
+  for (const path of paths) {
+    const content = await memoryHandlers.readFile(path)
+    if (content === null) continue
+    let entries = null
+    let parseError: string | undefined
+    if (path.endsWith('.xml')) {
+      try {
+        entries = parseMemoryXml(content).entries.map(({ tag, attrs, text }, index) => ({
+          index,
+          tag,
+          attrs,
+          text,
+        }))
+      } catch (err) {
+        parseError = err instanceof Error ? err.message : String(err)
+      }
+    }
+    files.push({ path, size: Buffer.byteLength(content, 'utf-8'), content, entries, parseError })
+  }
+  res.json({ files })
+})
+
+memoriesRouter.get('/file', async (req, res) => {
+  const path = memoryPath(req)
+  if (!path) {
+    res.status(400).json({ error: '不合法的記憶檔案路徑' })
+    return
+  }
+  const content = await memoryHandlers.readFile(path)
+  if (content === null) {
+    res.status(404).json({ error: '找不到這個記憶檔案' })
+    return
+  }
+  res.json({ path, content })
+})
+
+memoriesRouter.put('/file', async (req, res) => {
+  const path = memoryPath(req)
+  const { content } = (req.body ?? {}) as { content?: unknown }
+  if (!path) {
+    res.status(400).json({ error: '不合法的記憶檔案路徑' })
+    return
+  }
+  if (typeof content !== 'string') {
+    res.status(400).json({ error: 'content 必須是字串' })
+    return
+  }
+  // XML 檔案改壞了，Claude 之後也讀不懂，所以存檔前先檢查
+  if (path.endsWith('.xml')) {
+    try {
+      parseMemoryXml(content)
+    } catch (err) {
+      res.status(400).json({ error: `XML 格式錯誤：${err instanceof Error ? err.message : String(err)}` })
+      return
+    }
+  }
+  // 有格式規範的檔案（user_profile.xml 等）也要符合規範，與 Claude 寫入時相同
+  const problems = validateMemoryContent(path, content)
+  if (problems.length > 0) {
+    res.status(400).json({ error: `不符合記憶檔案的格式規範：${problems.join('；')}` })
+    return
+  }
+  await memoryHandlers.writeFile(path, content)
+  console.log(`[Memory] 用戶編輯了記憶檔案 ${path}`)
+  res.json({ path, content })
+})
+
+memoriesRouter.delete('/file', async (req, res) => {
+  const path = memoryPath(req)
+  if (!path) {
+    res.status(400).json({ error: '不合法的記憶檔案路徑' })
+    return
+  }
+  if ((await memoryHandlers.readFile(path)) === null) {
+    res.status(404).json({ error: '找不到這個記憶檔案' })
+    return
+  }
+  await memoryHandlers.delete({ command: 'delete', path })
+  console.log(`[Memory] 用戶刪除了記憶檔案 ${path}`)
+  res.status(204).end()
+})
+
+memoriesRouter.delete('/entries', async (req, res) => {
+  const path = memoryPath(req)
+  const { index, text } = (req.body ?? {}) as { index?: unknown; text?: unknown }
+  if (!path || !path.endsWith('.xml')) {
+    res.status(400).json({ error: '不合法的記憶檔案路徑' })
+    return
+  }
+  if (typeof index !== 'number' || !Number.isInteger(index) || typeof text !== 'string') {
+    res.status(400).json({ error: '需要條目的 index 與 text' })
+    return
+  }
+  const content = await memoryHandlers.readFile(path)
+  if (content === null) {
+    res.status(404).json({ error: '找不到這個記憶檔案' })
+    return
+  }
+
+  let doc
+  try {
+    doc = parseMemoryXml(content)
+  } catch (err) {
+    res.status(422).json({ error: `記憶檔案格式無法解析：${err instanceof Error ? err.message : String(err)}` })
+    return
+  }
+  // 畫面上看到的條目可能已經過時（例如 Claude 剛好更新了檔案），內容不符就拒絕
+  if (doc.entries[index]?.text !== text) {
+    res.status(409).json({ error: '記憶內容已經變更，請重新整理後再試' })
+    return
+  }
+
+  doc.entries.splice(index, 1)
+  await memoryHandlers.writeFile(path, serializeMemoryXml(doc))
+  console.log(`[Memory] 用戶刪除了 ${path} 的第 ${index + 1} 筆條目`)
+  res.status(204).end()
+})
+
+memoriesRouter.delete('/', async (_req, res) => {
+  await memoryHandlers.clear()
+  console.log('[Memory] 用戶要求忘記一切，已清空所有長期記憶、備份與修改日誌')
+  res.status(204).end()
+})
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 修改紀錄與還原（見 memory-journal.ts）
+// ─────────────────────────────────────────────────────────────────────────────
+
+memoriesRouter.get('/history', async (req, res) => {
+  // 不帶 path 時列出全部：整個目錄被刪掉後，仍然找得到原本有哪些檔案
+  const path = req.query.path === undefined ? undefined : memoryPath(req)
+  if (path === null) {
+    res.status(400).json({ error: '不合法的記憶檔案路徑' })
+    return
+  }
+  const entries = await readJournal({ path })
+  res.json({ entries: entries.reverse().map(summarizeJournalEntry) })
+})
+
+memoriesRouter.get('/history/:id', async (req, res) => {
+  const entry = await findJournalEntry(req.params.id)
+  if (!entry) {
+    res.status(404).json({ error: '找不到這筆修改紀錄' })
+    return
+  }
+  res.json({ entry })
+})
+
+memoriesRouter.post('/history/:id/restore', async (req, res) => {
+  const { version = 'before' } = (req.body ?? {}) as { version?: unknown }
+  if (version !== 'before' && version !== 'after') {
+    res.status(400).json({ error: "version 必須是 'before' 或 'after'" })
+    return
+  }
+  const entry = await findJournalEntry(req.params.id)
+  if (!entry) {
+    res.status(404).json({ error: '找不到這筆修改紀錄' })
+    return
+  }
+  await restoreJournalEntry(restoreHandlers, entry, version)
+  res.json({ path: entry.path, content: entry[version] })
+})
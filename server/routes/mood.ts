@@ -0,0 +1,65 @@
+/**
+ * routes/mood.ts — 心情紀錄 API（趨勢圖與每日心情打卡）
+ *
+ *   GET  /api/mood?userId=...&days=30   取得最近幾天的心情紀錄（舊的在前）與摘要
+ *   POST /api/mood/checkins             每日心情打卡（body: { userId, rating: 1-5, note? }）
+ *
+ * 選心情牌卡的紀錄由 counselor.ts 在收到選牌結果時自動寫入，不經過這裡。
+ */
+
+import { Router } from 'express'
+import {
+  getMoodEntries,
+  isValidUserId,
+  MOOD_NOTE_MAX_LENGTH,
+  MOOD_RATING_MAX,
+  MOOD_RATING_MIN,
+  MOOD_SUMMARY_DAYS,
+  recordMood,
+  summarizeMood,
+} from '../mood.js'
+
+export const moodRouter = Router()
+
+const MAX_DAYS = 365
+
+moodRouter.get('/', async (req, res) => {
+  const { userId } = req.query
+  if (!isValidUserId(userId)) {
+    res.status(400).json({ error: '不合法的 userId' })
+    return
+  }
+  const days = req.query.days === undefined ? MOOD_SUMMARY_DAYS : Number(req.query.days)
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    res.status(400).json({ error: `days 必須是 1 到 ${MAX_DAYS} 的整數` })
+    return
+  }
+  const now = new Date()
+  const since = now.getTime() - days * 24 * 60 * 60 * 1000
+  const entries = (await getMoodEntries(userId)).filter((e) => Date.parse(e.createdAt) >= since)
+  res.json({ entries, summary: summarizeMood(entries, now, days) })
+})
+
+moodRouter.post('/checkins', async (req, res) => {
+  const { userId, rating, note } = req.body as { userId?: unknown; rating?: unknown; note?: unknown }
+  if (!isValidUserId(userId)) {
+    res.status(400).json({ error: '不合法的 userId' })
+    return
+  }
+  if (!Number.isInteger(rating) || (rating as number) < MOOD_RATING_MIN || (rating as number) > MOOD_RATING_MAX) {
+    res.status(400).json({ error: `rating 必須是 ${MOOD_RATING_MIN} 到 ${MOOD_RATING_MAX} 的整數` })
+    return
+  }
+  if (note !== undefined && (typeof note !== 'string' || note.length > MOOD_NOTE_MAX_LENGTH)) {
+    res.status(400).json({ error: `note 必須是 ${MOOD_NOTE_MAX_LENGTH} 字以內的文字` })
+    return
+  }
+  const trimmed = typeof note === 'string' ? note.trim() : ''
+  const entry = await recordMood(userId, {
+    source: 'checkin',
+    rating: rating as number,
+    ...(trimmed ? { note: trimmed } : {}),
+  })
+  console.log(`[Mood] 用戶 ${userId.slice(0, 8)}... 心情打卡 ${entry.rating} 分`)
+  res.status(201).json({ entry })
+})
@@ -0,0 +1,68 @@
+/**
+ * routes/sessions.ts — 對話歷史 REST API
+ *
+ *   GET    /api/sessions?userId=...              列出這個用戶的對話（最近更新的在前）
+ *   GET    /api/sessions/:id/messages?userId=... 取得某個對話的訊息（前端重新整理後還原畫面）
+ *                                               工具呼叫與工具結果不會傳回（可能含記憶檔案內容），見 history-blocks.ts
+ *                                               pendingUi：對話停在 UI 工具等用戶互動時，前端據此重新顯示牌卡、冥想引導
+ *   DELETE /api/sessions/:id?userId=...          刪除某個對話的短期記憶
+ *
+ * 對話的擁有者是第一次帶著 userId 呼叫 /api/chat 的用戶（見 session-store.ts）。
+ * 屬於其他用戶的對話一律回 404，不透露它是否存在；沒有擁有者的舊對話仍可讀取與刪除。
+ *
+ * 長期記憶（/memories）是所有對話共用的，刪除對話不會動到它。
+ */
+
+import { Router } from 'express'
+import { canAccessSession, deleteSession, getPendingUi, getSession, listSessions } from '../counselor.js'
+import { toDisplayMessages } from '../history-blocks.js'
+import { isValidUserId } from '../mood.js'
+import { isValidSessionId } from '../session-store.js'
+
+export const sessionsRouter = Router()
+
+sessionsRouter.get('/', async (req, res) => {
+  const { userId } = req.query
+  if (!isValidUserId(userId)) {
+    res.status(400).json({ error: '不合法的 userId' })
+    return
+  }
+  res.json({ sessions: await listSessions(userId) })
+})
+
+sessionsRouter.get('/:id/messages', async (req, res) => {
+  const { id } = req.params
+  const { userId } = req.query
+  if (!isValidSessionId(id)) {
+    res.status(400).json({ error: '不合法的 sessionId' })
+    return
+  }
+  if (!isValidUserId(userId)) {
+    res.status(400).json({ error: '不合法的 userId' })
+    return
+  }
+  if (!(await canAccessSession(id, userId))) {
+    res.status(404).json({ error: '找不到這個對話' })
+    return
+  }
+  res.json({ sessionId: id, messages: toDisplayMessages(await getSession(id)), pendingUi: await getPendingUi(id) })
+})
+
+sessionsRouter.delete('/:id', async (req, res) => {
+  const { id } = req.params
+  const { userId } = req.query
+  if (!isValidSessionId(id)) {
+    res.status(400).json({ error: '不合法的 sessionId' })
+    return
+  }
+  if (!isValidUserId(userId)) {
+    res.status(400).json({ error: '不合法的 userId' })
+    return
+  }
+  if (!(await canAccessSession(id, userId)) || !(await deleteSession(id))) {
+    res.status(404).json({ error: '找不到這個對話' })
+    return
+  }
+  console.log(`[Session] 已刪除對話 ${id.slice(0, 8)}...`)
+  res.status(204).end()
+})
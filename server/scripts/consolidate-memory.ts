@@ -0,0 +1,49 @@
+/**
+ * consolidate-memory.ts — 手動整理長期記憶
+ *
+ * 用法：
+ *   npm run memory:consolidate                              — 整理 /memories 下所有 XML
+ *   npm run memory:consolidate -- --dry-run                 — 只列出會做什麼，不寫入（也不呼叫模型彙整）
+ *   npm run memory:consolidate -- --restore session_summaries.xml
+ *                                                           — 用最新的備份還原指定檔案
+ */
+
+import 'dotenv/config'
+import { FileSystemMemoryHandlers } from '../counselor.js'
+import {
+  consolidateMemories,
+  defaultConsolidationOptions,
+  restoreMemoryBackup,
+} from '../memory-consolidation.js'
+
+const memoryHandlers = new FileSystemMemoryHandlers({ sessionId: null, source: 'consolidation' })
+
+async function main() {
+  const args = process.argv.slice(2)
+  const restoreIndex = args.indexOf('--restore')
+
+  if (restoreIndex >= 0) {
+    const file = args[restoreIndex + 1]
+    if (!file) throw new Error('請指定要還原的檔案，例如 --restore session_summaries.xml')
+    const memPath = file.startsWith('/memories/') ? file : `/memories/${file}`
+    const backup = await restoreMemoryBackup(memoryHandlers, memPath)
+    console.log(`[Memory] 已用 ${backup} 還原 ${memPath}`)
+    return
+  }
+
+  const dryRun = args.includes('--dry-run')
+  const options = defaultConsolidationOptions()
+  const reports = await consolidateMemories(memoryHandlers, {
+    ...options,
+    dryRun,
+    // 試跑不需要真正的彙整內容，省下模型呼叫
+    ...(dryRun ? { digest: async ({ period }) => `（${period} 的彙整）` } : {}),
+  })
+  const changed = reports.filter((r) => r.status === 'consolidated').length
+  console.log(`[Memory] 完成：檢查 ${reports.length} 個檔案，${changed} 個${dryRun ? '需要' : '已'}整理`)
+}
+
+main().catch((err: unknown) => {
+  console.error('❌ 記憶整理失敗:', err instanceof Error ? err.message : err)
+  process.exit(1)
+})
@@ -0,0 +1,61 @@
+/**
+ * memory-history.ts — 查看長期記憶的修改紀錄並還原版本
+ *
+ * 用法：
+ *   npm run memory:history                                   — 列出所有修改紀錄（新的在前）
+ *   npm run memory:history -- session_summaries.xml          — 只列出某個檔案的紀錄
+ *   npm run memory:history -- --show <id>                    — 顯示某筆紀錄修改前後的內容
+ *   npm run memory:history -- --restore <id> [--after]       — 還原成該筆修改前（或修改後）的版本
+ */
+
+import 'dotenv/config'
+import { FileSystemMemoryHandlers } from '../counselor.js'
+import { findJournalEntry, readJournal, restoreJournalEntry } from '../memory-journal.js'
+
+function optionValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name)
+  return index >= 0 ? args[index + 1] : undefined
+}
+
+async function requireEntry(id: string | undefined) {
+  if (!id) throw new Error('請指定紀錄 ID')
+  const entry = await findJournalEntry(id)
+  if (!entry) throw new Error(`找不到修改紀錄 ${id}`)
+  return entry
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+
+  if (args.includes('--show')) {
+    const entry = await requireEntry(optionValue(args, '--show'))
+    console.log(`${entry.timestamp}  ${entry.source}  ${entry.command}  ${entry.path}`)
+    console.log('\n── 修改前 ──\n' + (entry.before ?? '（不存在）'))
+    console.log('\n── 修改後 ──\n' + (entry.after ?? '（已刪除）'))
+    return
+  }
+
+  if (args.includes('--restore')) {
+    const entry = await requireEntry(optionValue(args, '--restore'))
+    const handlers = new FileSystemMemoryHandlers({ sessionId: null, source: 'restore' })
+    await restoreJournalEntry(handlers, entry, args.includes('--after') ? 'after' : 'before')
+    return
+  }
+
+  const file = args.find((a) => !a.startsWith('--'))
+  const memPath = file && (file.startsWith('/memories/') ? file : `/memories/${file}`)
+  const entries = (await readJournal({ path: memPath })).reverse()
+  if (entries.length === 0) {
+    console.log('（沒有修改紀錄）')
+    return
+  }
+  for (const e of entries) {
+    const session = e.sessionId ? e.sessionId.slice(0, 8) : '-'
+    console.log(`${e.id}  ${e.timestamp}  ${e.source.padEnd(13)} ${session.padEnd(8)}  ${e.command.padEnd(11)} ${e.path}`)
+  }
+}
+
+main().catch((err: unknown) => {
+  console.error('❌ 查看修改紀錄失敗:', err instanceof Error ? err.message : err)
+  process.exit(1)
+})
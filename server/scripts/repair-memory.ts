@@ -0,0 +1,35 @@
+/**
+ * repair-memory.ts — 修復不符合格式規範的記憶檔案
+ *
+ * 用法：
+ *   npm run memory:repair               — 檢查並修復 user_profile.xml 等有規範的檔案
+ *   npm run memory:repair -- --check    — 只列出問題，不修改
+ *
+ * 修復透過 FileSystemMemoryHandlers 寫入，會留下修改紀錄，
+ * 不滿意可以用 npm run memory:history -- --restore <id> 還原。
+ */
+
+import 'dotenv/config'
+import { FileSystemMemoryHandlers } from '../counselor.js'
+import { repairMemories } from '../memory-schema.js'
+
+async function main() {
+  const check = process.argv.includes('--check')
+  const handlers = new FileSystemMemoryHandlers({ sessionId: null, source: 'repair' })
+  const reports = await repairMemories(handlers, { dryRun: check })
+
+  for (const report of reports) {
+    if (report.problems.length === 0) {
+      console.log(`✔ ${report.path}`)
+      continue
+    }
+    console.log(`✖ ${report.path}${report.repaired ? '（已修復）' : ''}`)
+    for (const problem of report.problems) console.log(`    - ${problem}`)
+  }
+  if (reports.length === 0) console.log('（沒有需要檢查的記憶檔案）')
+}
+
+main().catch((err: unknown) => {
+  console.error('❌ 記憶修復失敗:', err instanceof Error ? err.message : err)
+  process.exit(1)
+})
@@ -0,0 +1,265 @@
+/**
+ * session-store.ts — 短期記憶的儲存層
+ *
+ * 原本短期記憶是 counselor.ts 裡的一個模組層級 Map，server 重啟或重新部署後
+ * 所有進行中的對話都會消失。這裡把「存取對話歷史」抽象成 SessionStore 介面：
+ *
+ *   InMemorySessionStore — 原本的 Map 做法，適合開發或測試
+ *   FileSessionStore     — 每個 session 一個 JSON 檔，server 重啟後依然存在（預設）
+ *
+ * 兩者都支援列出與刪除對話，供對話歷史 API（GET/DELETE /api/sessions）使用。
+ * 每個對話記下擁有者（前端產生的 userId，見 mood.ts），列表只列出自己的對話；
+ * 舊資料或從沒帶過 userId 的對話沒有擁有者，不會出現在任何人的列表中。
+ * 透過環境變數 SESSION_STORE=memory | file 切換。
+ */
+
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import { isInteractionMessage, isToolResultMessage, type HistoryBlock } from './history-blocks.js'
+
+export type MessageRole = 'user' | 'assistant'
+
+export interface ShortTermMessage {
+  role: MessageRole
+  content: string
+  createdAt?: string  // ISO 時間，舊資料可能沒有
+  truncated?: boolean // 回覆途中用戶斷線，內容只有一部分
+  summary?: boolean   // 較早對話的滾動摘要（見 compaction.ts），只會出現在第一則
+  blocks?: HistoryBlock[] // 含工具呼叫的完整內容區塊（見 history-blocks.ts）；純文字訊息沒有
+}
+
+// 對話列表（側邊欄）用的摘要資訊
+export interface SessionSummary {
+  sessionId: string
+  title: string     // 第一則用戶訊息的開頭
+  updatedAt: string // ISO 時間
+  messageCount: number // 不含工具結果訊息（互動結果算一則）
+}
+
+// 所有實作都必須遵守的介面：讀取、覆寫整段對話歷史，記下擁有者，以及列出、刪除對話
+export interface SessionStore {
+  load(sessionId: string): Promise<ShortTermMessage[]>
+  save(sessionId: string, messages: ShortTermMessage[]): Promise<void> // 不改變擁有者
+  ownerOf(sessionId: string): Promise<string | null> // 沒有擁有者時為 null
+  claim(sessionId: string, userId: string): Promise<void> // 已經有擁有者時不變
+  list(userId: string): Promise<SessionSummary[]> // 只列出這個用戶擁有的對話
+  delete(sessionId: string): Promise<boolean> // 回傳 false 表示對話不存在
+}
+
+// sessionId 由前端產生（crypto.randomUUID），只允許 UUID 常見的字元
+export function isValidSessionId(sessionId: string): boolean {
+  return /^[A-Za-z0-9_-]{1,128}$/.test(sessionId)
+}
+
+export function sessionTitle(messages: ShortTermMessage[]): string {
+  const first = messages.find((m) => m.role === 'user' && !m.summary)?.content.trim() ?? ''
+  if (!first) return '新對話'
+  const line = first.split('\n')[0]
+  return line.length > 30 ? `${line.slice(0, 30)}…` : line
+}
+
+function summarize(sessionId: string, messages: ShortTermMessage[], updatedAt: string): SessionSummary {
+  const messageCount = messages.filter((m) => !isToolResultMessage(m) || isInteractionMessage(m)).length
+  return { sessionId, title: sessionTitle(messages), updatedAt, messageCount }
+}
+
+// 最近更新的對話排在最前面
+function byUpdatedAtDesc(a: SessionSummary, b: SessionSummary): number {
+  return b.updatedAt.localeCompare(a.updatedAt)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// InMemorySessionStore：資料只存在記憶體中，server 重啟後消失
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, { messages: ShortTermMessage[]; updatedAt: string }>()
+  private owners = new Map<string, string>() // sessionId → userId
+
+  async load(sessionId: string): Promise<ShortTermMessage[]> {
+    // 回傳複本，避免呼叫者直接改到 Map 內的陣列
+    return [...(this.sessions.get(sessionId)?.messages ?? [])]
+  }
+
+  async save(sessionId: string, messages: ShortTermMessage[]): Promise<void> {
+    this.sessions.set(sessionId, { messages: [...messages], updatedAt: new Date().toISOString() })
+  }
+
+  async ownerOf(sessionId: string): Promise<string | null> {
+    return this.owners.get(sessionId) ?? null
+  }
+
+  async claim(sessionId: string, userId: string): Promise<void> {
+    if (!this.owners.has(sessionId)) this.owners.set(sessionId, userId)
+  }
+
+  async list(userId: string): Promise<SessionSummary[]> {
+    return [...this.sessions.entries()]
+      .filter(([id]) => this.owners.get(id) === userId)
+      .map(([id, { messages, updatedAt }]) => summarize(id, messages, updatedAt))
+      .sort(byUpdatedAtDesc)
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    this.owners.delete(sessionId)
+    return this.sessions.delete(sessionId)
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// FileSessionStore：每個 session 存成 <dir>/<sessionId>.json
+//
+// 寫入時先寫到暫存檔再 rename，確保 server 在寫入途中當掉也不會留下半個 JSON。
+// 同一個 session 的寫入會排隊依序執行，避免兩個請求交錯覆寫。
+// 擁有者存在同一個 JSON 的 userId 欄位；save 只帶訊息，所以擁有者另外快取在記憶體中，
+// 不必每次寫入前都先讀檔。
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface SessionFile {
+  sessionId?: string
+  userId?: string
+  updatedAt?: string
+  messages?: ShortTermMessage[]
+}
+
+export class FileSessionStore implements SessionStore {
+  private writeQueues = new Map<string, Promise<void>>()
+  private owners = new Map<string, string | null>() // 讀過或寫過的擁有者
+
+  constructor(private readonly dir: string) {}
+
+  async init() {
+    await fs.mkdir(this.dir, { recursive: true })
+    console.log(`[Session] 對話歷史目錄就緒: ${this.dir}`)
+  }
+
+  // sessionId 來自前端，只允許 UUID 常見的字元，防止路徑穿越
+  private filePath(sessionId: string): string {
+    if (!isValidSessionId(sessionId)) {
+      throw new Error(`不合法的 sessionId: ${sessionId}`)
+    }
+    return path.join(this.dir, `${sessionId}.json`)
+  }
+
+  // 讀取整個檔案並更新擁有者快取；檔案不存在時為 null，其他讀取或解析錯誤照常 throw
+  private async readSession(sessionId: string, file: string): Promise<SessionFile | null> {
+    try {
+      const data = JSON.parse(await fs.readFile(file, 'utf-8')) as SessionFile
+      this.owners.set(sessionId, data.userId ?? null)
+      return data
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+      if (!this.owners.has(sessionId)) this.owners.set(sessionId, null)
+      return null
+    }
+  }
+
+  private async writeSession(file: string, data: SessionFile): Promise<void> {
+    const tmp = `${file}.${process.pid}.tmp`
+    await fs.writeFile(tmp, JSON.stringify(data, null, 2), 'utf-8')
+    await fs.rename(tmp, file)
+  }
+
+  // 排進這個 session 的寫入佇列；write 執行時拿得到目前的擁有者
+  private enqueue(sessionId: string, file: string, write: (owner: string | null) => Promise<void>): Promise<void> {
+    const previous = this.writeQueues.get(sessionId) ?? Promise.resolve()
+    const next = previous.then(async () => {
+      if (!this.owners.has(sessionId)) await this.readSession(sessionId, file).catch(() => null)
+      await write(this.owners.get(sessionId) ?? null)
+    })
+    // 佇列本身不應因為某次失敗而卡住後續寫入
+    this.writeQueues.set(sessionId, next.catch(() => {}))
+    return next
+  }
+
+  async load(sessionId: string): Promise<ShortTermMessage[]> {
+    const file = this.filePath(sessionId)
+    // 等待進行中的寫入完成，才不會讀到舊資料
+    await this.writeQueues.get(sessionId)
+    try {
+      const data = await this.readSession(sessionId, file)
+      return Array.isArray(data?.messages) ? data.messages : []
+    } catch (err) {
+      console.error(`[Session] 讀取 ${sessionId.slice(0, 8)}... 失敗，視為空白對話:`, err)
+      return []
+    }
+  }
+
+  async save(sessionId: string, messages: ShortTermMessage[]): Promise<void> {
+    const file = this.filePath(sessionId)
+    await this.enqueue(sessionId, file, (owner) =>
+      this.writeSession(file, { sessionId, userId: owner ?? undefined, updatedAt: new Date().toISOString(), messages })
+    )
+  }
+
+  async ownerOf(sessionId: string): Promise<string | null> {
+    const file = this.filePath(sessionId)
+    await this.writeQueues.get(sessionId)
+    if (!this.owners.has(sessionId)) await this.readSession(sessionId, file)
+    return this.owners.get(sessionId) ?? null
+  }
+
+  // 對話檔案已經存在就立刻寫入擁有者；還沒有的話先記在快取，下一次 save 一起寫入
+  async claim(sessionId: string, userId: string): Promise<void> {
+    const file = this.filePath(sessionId)
+    await this.enqueue(sessionId, file, async (owner) => {
+      if (owner !== null) return
+      const data = await this.readSession(sessionId, file)
+      this.owners.set(sessionId, userId)
+      if (data) await this.writeSession(file, { ...data, userId })
+    })
+  }
+
+  async list(userId: string): Promise<SessionSummary[]> {
+    const files = (await fs.readdir(this.dir)).filter((f) => f.endsWith('.json'))
+    const summaries: SessionSummary[] = []
+    for (const file of files) {
+      try {
+        const raw = await fs.readFile(path.join(this.dir, file), 'utf-8')
+        const data = JSON.parse(raw) as SessionFile
+        if (data.userId !== userId) continue
+        const messages = Array.isArray(data.messages) ? data.messages : []
+        if (messages.length === 0) continue
+        summaries.push(
+          summarize(data.sessionId ?? file.slice(0, -'.json'.length), messages, data.updatedAt ?? '')
+        )
+      } catch (err) {
+        console.error(`[Session] 無法讀取 ${file}，已略過:`, err)
+      }
+    }
+    return summaries.sort(byUpdatedAtDesc)
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const file = this.filePath(sessionId)
+    await this.writeQueues.get(sessionId)
+    this.owners.delete(sessionId)
+    try {
+      await fs.unlink(file)
+      return true
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return false
+      throw err
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 依環境變數建立 store
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const SESSIONS_DIR = path.resolve(process.env.SESSIONS_DIR ?? './server/sessions')
+
+export async function createSessionStore(): Promise<SessionStore> {
+  const kind = process.env.SESSION_STORE ?? 'file'
+  if (kind === 'memory') {
+    console.log('[Session] 使用記憶體儲存（server 重啟後對話歷史會消失）')
+    return new InMemorySessionStore()
+  }
+  if (kind !== 'file') {
+    throw new Error(`未知的 SESSION_STORE: ${kind}（可用值：memory、file）`)
+  }
+  const store = new FileSessionStore(SESSIONS_DIR)
+  await store.init()
+  return store
+}
@@ -0,0 +1,258 @@
+/**
+ * skills.ts — 技能自動探索（Skills Registry）
+ *
+ * 以前新增一個技能要改三個地方：SKILL.md、System Prompt 的 Skills Registry 表格、
+ * read_skill 工具的 enum。現在 server 啟動時會掃描 server/skills/＊/SKILL.md，
+ * 解析每個檔案開頭的 YAML frontmatter（name、description、triggers），
+ * 再由這份清單自動產生 Registry 表格與 read_skill 的 enum。
+ *
+ * 技能也可以在 frontmatter 宣告自己的 UI 工具（ui_tool），server 會自動產生工具定義。
+ *
+ * 開發模式下會監看 skills 目錄，檔案一改就重新載入，不用重啟 server。
+ * 格式錯誤的技能不會被默默略過，而是在 log 中清楚列出原因。
+ */
+
+import * as fs from 'node:fs/promises'
+import { watch } from 'node:fs'
+import * as path from 'node:path'
+import { parse as parseYaml } from 'yaml'
+import { unsupportedSchemaKeywords } from './json-schema.js'
+
+// SKILLS_DIR：技能檔案的存放根目錄
+export const SKILLS_DIR = path.resolve('./server/skills')
+
+// UI 工具宣告：技能在 frontmatter 的 ui_tool 區塊描述自己的前端互動介面
+// server 依此產生工具定義，Claude 呼叫後透過通用的 'ui' SSE 事件送到前端，
+// 前端再依 name 從元件 registry 找到對應的 React 元件
+export interface UiToolDefinition {
+  name: string                          // 工具名稱，例如 show_mood_cards（也是前端 registry 的 key）
+  description: string                   // 給 Claude 看的 UI 機制說明
+  input_schema: Record<string, unknown> // JSON Schema，type 必須是 object
+  result: string                        // 工具回傳給 Claude 的訊息，例如「請靜待用戶選擇」
+}
+
+export interface SkillMeta {
+  name: string        // 技能名稱，必須與資料夾名稱相同
+  description: string // 一段話說明技能用途（已合併成單行）
+  triggers: string[]  // 建議啟動時機
+  file: string        // SKILL.md 的絕對路徑
+  uiTool?: UiToolDefinition
+}
+
+export interface SkillLoadError {
+  file: string
+  message: string
+}
+
+export interface SkillRegistry {
+  skills: SkillMeta[]
+  errors: SkillLoadError[]
+}
+
+// 目前生效的技能清單（reload 時整份替換）
+let registry: SkillRegistry = { skills: [], errors: [] }
+
+export function getSkillRegistry(): SkillRegistry {
+  return registry
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 解析單一 SKILL.md
+//
+// 格式：檔案最前面以 --- 包住的 YAML，後面接 Markdown 內文
+//   ---
+//   name: meditation-guide
+//   description: >
+//     ...
+//   triggers:
+//     - ...
+//   ---
+// 解析失敗時直接 throw，由 loadSkills 收集成錯誤清單
+// ─────────────────────────────────────────────────────────────────────────────
+
+const FRONTMATTER_RE = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/
+
+export function parseSkillFile(content: string, folderName: string, file: string): SkillMeta {
+  const match = FRONTMATTER_RE.exec(content)
+  if (!match) {
+    throw new Error('缺少 YAML frontmatter（檔案必須以 --- 開頭並以 --- 結束）')
+  }
+
+  let data: unknown
+  try {
+    data = parseYaml(match[1])
+  } catch (err) {
+    throw new Error(`frontmatter 不是合法的 YAML：${err instanceof Error ? err.message : String(err)}`)
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('frontmatter 必須是 key: value 格式的物件')
+  }
+
+  const { name, description, triggers, ui_tool } = data as Record<string, unknown>
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new Error('缺少 name 欄位')
+  }
+  if (name !== folderName) {
+    throw new Error(`name "${name}" 必須與資料夾名稱 "${folderName}" 相同`)
+  }
+  if (typeof description !== 'string' || !description.trim()) {
+    throw new Error('缺少 description 欄位')
+  }
+  if (
+    !Array.isArray(triggers) ||
+    triggers.length === 0 ||
+    !triggers.every((t) => typeof t === 'string' && t.trim())
+  ) {
+    throw new Error('triggers 必須是至少一項的字串清單')
+  }
+
+  return {
+    name,
+    description: collapseWhitespace(description),
+    triggers: triggers.map((t: string) => t.trim()),
+    file,
+    ...(ui_tool === undefined ? {} : { uiTool: parseUiTool(ui_tool) }),
+  }
+}
+
+function parseUiTool(raw: unknown): UiToolDefinition {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('ui_tool 必須是物件')
+  }
+  const { name, description, input_schema, result } = raw as Record<string, unknown>
+  if (typeof name !== 'string' || !/^[a-z][a-z0-9_]*$/.test(name)) {
+    throw new Error('ui_tool.name 必須是小寫英文、數字與底線組成的名稱，例如 show_mood_cards')
+  }
+  if (typeof description !== 'string' || !description.trim()) {
+    throw new Error(`ui_tool "${name}" 缺少 description`)
+  }
+  if (
+    !input_schema ||
+    typeof input_schema !== 'object' ||
+    (input_schema as Record<string, unknown>).type !== 'object'
+  ) {
+    throw new Error(`ui_tool "${name}" 的 input_schema 必須是 type: object 的 JSON Schema`)
+  }
+  // 執行期會用 input_schema 檢查工具 input（見 json-schema.ts），檢查不到的限制不能寫進來
+  const unsupported = unsupportedSchemaKeywords(input_schema as Record<string, unknown>)
+  if (unsupported.length > 0) {
+    throw new Error(`ui_tool "${name}" 的 input_schema 用了不支援的關鍵字：${unsupported.join('、')}`)
+  }
+  if (typeof result !== 'string' || !result.trim()) {
+    throw new Error(`ui_tool "${name}" 缺少 result（工具執行後回傳給 Claude 的訊息）`)
+  }
+  return {
+    name,
+    description: description.trim(),
+    input_schema: input_schema as Record<string, unknown>,
+    result: collapseWhitespace(result),
+  }
+}
+
+// YAML 的折疊字串（>）會把換行變成空格；中文標點前後的空格是多餘的
+function collapseWhitespace(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/ ?([\u3000-\u303f\uff00-\uffef]) ?/g, '$1')
+    .trim()
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 掃描 skills 目錄
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function loadSkills(dir: string = SKILLS_DIR): Promise<SkillRegistry> {
+  const skills: SkillMeta[] = []
+  const errors: SkillLoadError[] = []
+
+  const entries = await fs.readdir(dir, { withFileTypes: true })
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith('.')) continue
+    const file = path.join(dir, entry.name, 'SKILL.md')
+    let content: string
+    try {
+      content = await fs.readFile(file, 'utf-8')
+    } catch {
+      errors.push({ file, message: '找不到 SKILL.md' })
+      continue
+    }
+    try {
+      skills.push(parseSkillFile(content, entry.name, file))
+    } catch (err) {
+      errors.push({ file, message: err instanceof Error ? err.message : String(err) })
+    }
+  }
+
+  skills.sort((a, b) => a.name.localeCompare(b.name))
+
+  // UI 工具名稱是前端 registry 的 key，重複的話後載入的技能會被拒絕
+  const seen = new Map<string, string>()
+  const unique = skills.filter((skill) => {
+    if (!skill.uiTool) return true
+    const owner = seen.get(skill.uiTool.name)
+    if (owner) {
+      errors.push({ file: skill.file, message: `ui_tool "${skill.uiTool.name}" 已由技能 ${owner} 宣告` })
+      return false
+    }
+    seen.set(skill.uiTool.name, skill.name)
+    return true
+  })
+
+  return { skills: unique, errors }
+}
+
+// 載入並替換目前的 registry，同時把結果印在 log 中
+export async function reloadSkills(dir: string = SKILLS_DIR): Promise<SkillRegistry> {
+  const next = await loadSkills(dir)
+  registry = next
+  console.log(
+    `[Skill] 已載入 ${next.skills.length} 個技能: ${next.skills.map((s) => s.name).join(', ') || '（無）'}`
+  )
+  for (const error of next.errors) {
+    console.error(`[Skill] ✖ 技能格式錯誤，已略過 ${path.relative(process.cwd(), error.file)}：${error.message}`)
+  }
+  return next
+}
+
+// 開發模式：監看 skills 目錄，任何 SKILL.md 變動都重新載入
+// 編輯器存檔常會連續觸發多次事件，用 debounce 合併成一次
+export function watchSkills(dir: string = SKILLS_DIR): void {
+  let timer: NodeJS.Timeout | undefined
+  watch(dir, { recursive: true }, () => {
+    clearTimeout(timer)
+    timer = setTimeout(() => {
+      console.log('[Skill] 偵測到技能檔案變動，重新載入')
+      reloadSkills(dir).catch((err: unknown) => {
+        console.error('[Skill] 重新載入失敗:', err)
+      })
+    }, 200)
+  })
+  console.log(`[Skill] 監看技能目錄變動: ${dir}`)
+}
+
+export async function initSkills(): Promise<void> {
+  await reloadSkills()
+  if (process.env.NODE_ENV !== 'production') {
+    watchSkills()
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 產生 System Prompt 的 Skills Registry 表格
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Markdown 表格的儲存格不能含有 | 或換行
+function tableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s+/g, ' ')
+}
+
+export function buildSkillsRegistryTable(skills: SkillMeta[]): string {
+  const rows = skills.map(
+    (s) => `| ${s.name} | ${tableCell(s.description)} | ${tableCell(s.triggers.join('；'))} |`
+  )
+  return [
+    '| 技能名稱 | 說明 | 建議啟動時機 |',
+    '|---------|------|------------|',
+    ...rows,
+  ].join('\n')
+}
@@ -0,0 +1,178 @@
+/**
+ * testing/harness.ts — 多輪對話的測試工具
+ *
+ * 在隨機 port 啟動完整的 Express app（app.ts），Claude 換成 scripted-client.ts 的假 client，
+ * 測試就能走完和正式環境相同的路徑：
+ *
+ *   POST /api/chat → 危機篩檢 → streamCounselorResponse → toolRunner → 工具執行 → SSE 事件
+ *
+ * 所有會寫檔的東西都放在一個暫存目錄（記憶檔案、修改日誌、危機稽核、長期記憶的擁有者），
+ * 對話歷史、心情紀錄與練習作業用記憶體 store；close() 時整個刪掉。
+ * 請求頻率與 token 上限預設關閉（所有請求都來自 127.0.0.1），需要時用 server.setRateLimits() 設定。
+ *
+ * 記憶目錄等路徑在模組載入時就從環境變數讀取，所以這裡先設定環境變數再動態 import，
+ * 同一個測試檔（同一個 process）只能啟動一次 —— node --test 會讓每個測試檔各自跑在獨立的 process。
+ *
+ *   const server = await startTestServer()
+ *   server.script([callTool('memory', { command: 'view', path: '/memories' }), reply('你好')])
+ *   const { events } = await server.chat({ sessionId: 's1', message: '嗨' })
+ *   assert.deepEqual(toolOrder(events), ['memory'])
+ */
+
+import * as fs from 'node:fs/promises'
+import type { AddressInfo } from 'node:net'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import type { RateLimitConfig } from '../rate-limit.js'
+import { createScriptedClient, type ScriptedClient, type ScriptedResponse } from './scripted-client.js'
+
+export interface SseEvent {
+  id: number
+  event: string
+  data: Record<string, unknown>
+}
+
+export interface ChatResult {
+  status: number
+  events: SseEvent[]                      // SSE 回應才有
+  body: Record<string, unknown> | null    // 非 SSE 回應（例如 400）的 JSON
+  headers: Headers
+}
+
+export interface TestServer {
+  baseUrl: string
+  dataDir: string
+  script(responses: ScriptedResponse[]): ScriptedClient  // 換上新的劇本（每個測試各自一份）
+  setRateLimits(limits: Partial<RateLimitConfig>): void   // 換上新的 limiter（計數歸零），沒給的上限為 0（不限制）
+  chat(body: Record<string, unknown>): Promise<ChatResult>
+  request(method: string, url: string, body?: unknown): Promise<{ status: number; data: unknown }>
+  readMemory(file: string): Promise<string | null>       // file 相對於 /memories，例如 'user_profile.xml'
+  close(): Promise<void>
+}
+
+let started = false
+
+export async function startTestServer(): Promise<TestServer> {
+  if (started) {
+    throw new Error('錯誤：每個測試檔只能啟動一次測試 server（路徑設定在模組載入時就固定了）')
+  }
+  started = true
+
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'counselor-test-'))
+  process.env.MEMORY_DIR = path.join(dataDir, 'memories')
+  process.env.MEMORY_JOURNAL_DIR = path.join(dataDir, 'memory-journal')
+  process.env.AUDIT_DIR = path.join(dataDir, 'audit')
+  process.env.MEMORY_OWNER_FILE = path.join(dataDir, 'memory-owner.json')
+  process.env.CRISIS_MODEL_CHECK = 'false'  // 危機篩檢只用關鍵字層，不多花一次 API 呼叫
+
+  const { createApp } = await import('../app.js')
+  const { FileSystemMemoryHandlers, setAnthropicClient, setSessionStore } = await import('../counselor.js')
+  const { InMemorySessionStore } = await import('../session-store.js')
+  const { InMemoryMoodStore, setMoodStore } = await import('../mood.js')
+  const { InMemoryHomeworkStore, setHomeworkStore } = await import('../homework.js')
+  const { reloadSkills } = await import('../skills.js')
+  const { ChatRateLimiter, setChatRateLimiter } = await import('../rate-limit.js')
+
+  await FileSystemMemoryHandlers.init()
+  await reloadSkills()  // 不用 initSkills()：測試不需要監看技能目錄
+  setSessionStore(new InMemorySessionStore())
+  setMoodStore(new InMemoryMoodStore())
+  setHomeworkStore(new InMemoryHomeworkStore())
+  const setRateLimits = (limits: Partial<RateLimitConfig>) =>
+    setChatRateLimiter(
+      new ChatRateLimiter({ sessionRequestsPerMinute: 0, ipRequestsPerMinute: 0, sessionTokensPerDay: 0, ipTokensPerDay: 0, ...limits })
+    )
+  setRateLimits({})
+
+  const server = createApp().listen(0)
+  await new Promise<void>((resolve) => server.once('listening', resolve))
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    baseUrl,
+    dataDir,
+
+    script(responses) {
+      const scripted = createScriptedClient(responses)
+      setAnthropicClient(scripted.client)
+      return scripted
+    },
+
+    setRateLimits,
+
+    async chat(body) {
+      const response = await fetch(`${baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const text = await response.text()
+      if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+        return { status: response.status, events: [], body: text ? JSON.parse(text) : null, headers: response.headers }
+      }
+      return { status: response.status, events: parseSse(text), body: null, headers: response.headers }
+    },
+
+    async request(method, url, body) {
+      const response = await fetch(`${baseUrl}${url}`, {
+        method,
+        headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      })
+      const text = await response.text()
+      return { status: response.status, data: text ? JSON.parse(text) : null }
+    },
+
+    async readMemory(file) {
+      try {
+        return await fs.readFile(path.join(process.env.MEMORY_DIR!, file), 'utf-8')
+      } catch {
+        return null
+      }
+    },
+
+    async close() {
+      server.closeAllConnections()
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+      await fs.rm(dataDir, { recursive: true, force: true })
+    },
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SSE 解析與斷言用的 helper
+// ─────────────────────────────────────────────────────────────────────────────
+
+// 回應格式見 chat-turns.ts：`id: <序號>\nevent: <名稱>\ndata: <JSON>\n\n`
+export function parseSse(text: string): SseEvent[] {
+  return text
+    .split('\n\n')
+    .filter((block) => block.trim())
+    .map((block) => {
+      const fields = new Map<string, string>()
+      for (const line of block.split('\n')) {
+        const colon = line.indexOf(':')
+        if (colon > 0) fields.set(line.slice(0, colon), line.slice(colon + 1).trimStart())
+      }
+      return {
+        id: Number(fields.get('id') ?? 0),
+        event: fields.get('event') ?? 'message',
+        data: JSON.parse(fields.get('data') ?? '{}') as Record<string, unknown>,
+      }
+    })
+}
+
+// 事件名稱序列，連續的 delta 合併成一個，方便寫成預期的順序
+export function eventSequence(events: SseEvent[]): string[] {
+  return events.map((e) => e.event).filter((name, i, names) => !(name === 'delta' && names[i - 1] === 'delta'))
+}
+
+// 依開始執行的順序列出工具名稱
+export function toolOrder(events: SseEvent[]): string[] {
+  return events.filter((e) => e.event === 'tool_start').map((e) => String(e.data.tool))
+}
+
+// 所有 delta 接起來的回覆文字
+export function replyText(events: SseEvent[]): string {
+  return events.filter((e) => e.event === 'delta').map((e) => String(e.data.text)).join('')
+}
@@ -0,0 +1,173 @@
+/**
+ * testing/scripted-client.ts — 不連網的假 Anthropic client（測試用）
+ *
+ * 真正的 Anthropic client，只是把 fetch 換成照劇本回應的函數：
+ *
+ *   劇本 = 依序排好的 API 回應，每次 API 呼叫（Agent 迴圈的每一輪）取出下一個
+ *   { content: [{ type: 'text', text }, { type: 'tool_use', name, input }] }
+ *
+ *   - stream: true 的請求（toolRunner）→ 把回應拆成 SSE 事件（message_start、text_delta、
+ *     input_json_delta…）串流回去，SDK 的串流解析、toolRunner 的工具執行都和正式環境一樣
+ *   - 一般請求（對話摘要、危機確認、記憶彙整）→ 直接回傳 JSON message
+ *   - 劇本用完還有請求 → 回傳 500，測試會看到 error 事件
+ *
+ * 每個請求的 body（model、system、messages、tools）都記錄在 requests，
+ * 測試可以檢查 Claude「看到」了什麼，例如工具結果或 System Prompt 附加的段落。
+ *
+ * 用 counselor.ts 的 setAnthropicClient() 換上：
+ *
+ *   const scripted = createScriptedClient([callTool('memory', {...}), reply('你好')])
+ *   setAnthropicClient(scripted.client)
+ */
+
+import Anthropic from '@anthropic-ai/sdk'
+
+export type ScriptedBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; name: string; input: Record<string, unknown>; id?: string }
+
+export interface ScriptedResponse {
+  content: ScriptedBlock[]
+  stop_reason?: 'end_turn' | 'tool_use' | 'max_tokens'  // 省略時：有 tool_use 就是 'tool_use'，否則 'end_turn'
+  usage?: { input_tokens: number; output_tokens: number } // 省略時都是 0（測試 token 上限時才需要）
+}
+
+export interface RecordedRequest {
+  path: string
+  body: {
+    model: string
+    system?: unknown
+    messages: { role: string; content: unknown }[]
+    tools?: { name: string }[]
+    stream?: boolean
+  }
+}
+
+export interface ScriptedClient {
+  client: Anthropic
+  requests: RecordedRequest[]
+  push(...responses: ScriptedResponse[]): void  // 多輪測試可以每一輪再補上劇本
+  remaining(): number                           // 還沒用到的回應數量（測試結束時應為 0）
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 寫劇本用的 helper
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function reply(text: string): ScriptedResponse {
+  return { content: [{ type: 'text', text }] }
+}
+
+// 呼叫工具（可以先說一段話再呼叫，和 Claude 的實際行為一樣）
+export function callTool(name: string, input: Record<string, unknown>, text?: string): ScriptedResponse {
+  return {
+    content: [...(text ? [{ type: 'text' as const, text }] : []), { type: 'tool_use', name, input }],
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 回應 → API 格式
+// ─────────────────────────────────────────────────────────────────────────────
+
+// 文字拆成小段送出，前端（與測試）才看得到多個 delta 事件
+const TEXT_CHUNK_SIZE = 8
+
+let toolUseCounter = 0
+
+function toMessage(response: ScriptedResponse, model: string) {
+  const content = response.content.map((block) =>
+    block.type === 'text'
+      ? { type: 'text' as const, text: block.text }
+      : { type: 'tool_use' as const, id: block.id ?? `toolu_scripted_${++toolUseCounter}`, name: block.name, input: block.input }
+  )
+  return {
+    id: `msg_scripted_${Date.now()}`,
+    type: 'message' as const,
+    role: 'assistant' as const,
+    model,
+    content,
+    stop_reason: response.stop_reason ?? (content.some((b) => b.type === 'tool_use') ? 'tool_use' : 'end_turn'),
+    stop_sequence: null,
+    usage: response.usage ?? { input_tokens: 0, output_tokens: 0 },
+  }
+}
+
+function sseEvent(type: string, data: Record<string, unknown>): string {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`
+}
+
+function toSseEvents(message: ReturnType<typeof toMessage>): string[] {
+  const events = [
+    sseEvent('message_start', { message: { ...message, content: [], stop_reason: null } }),
+  ]
+  message.content.forEach((block, index) => {
+    if (block.type === 'text') {
+      events.push(sseEvent('content_block_start', { index, content_block: { type: 'text', text: '' } }))
+      for (let i = 0; i < block.text.length; i += TEXT_CHUNK_SIZE) {
+        const text = block.text.slice(i, i + TEXT_CHUNK_SIZE)
+        events.push(sseEvent('content_block_delta', { index, delta: { type: 'text_delta', text } }))
+      }
+    } else {
+      events.push(sseEvent('content_block_start', { index, content_block: { ...block, input: {} } }))
+      events.push(
+        sseEvent('content_block_delta', { index, delta: { type: 'input_json_delta', partial_json: JSON.stringify(block.input) } })
+      )
+    }
+    events.push(sseEvent('content_block_stop', { index }))
+  })
+  events.push(
+    sseEvent('message_delta', {
+      delta: { stop_reason: message.stop_reason, stop_sequence: null },
+      usage: { output_tokens: message.usage.output_tokens },
+    })
+  )
+  events.push(sseEvent('message_stop', {}))
+  return events
+}
+
+function sseResponse(events: string[]): Response {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) controller.enqueue(encoder.encode(event))
+      controller.close()
+    },
+  })
+  return new Response(body, { status: 200, headers: { 'content-type': 'text/event-stream' } })
+}
+
+function jsonResponse(status: number, data: unknown): Response {
+  return new Response(JSON.stringify(data), { status, headers: { 'content-type': 'application/json' } })
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// createScriptedClient
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createScriptedClient(responses: ScriptedResponse[] = []): ScriptedClient {
+  const queue = [...responses]
+  const requests: RecordedRequest[] = []
+
+  const scriptedFetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input.toString())
+    const body = JSON.parse(String(init?.body ?? '{}')) as RecordedRequest['body']
+    requests.push({ path: url.pathname, body })
+
+    const next = queue.shift()
+    if (!next) {
+      return jsonResponse(500, {
+        type: 'error',
+        error: { type: 'api_error', message: `劇本已用完：第 ${requests.length} 次 API 呼叫沒有對應的回應` },
+      })
+    }
+    const message = toMessage(next, body.model)
+    return body.stream ? sseResponse(toSseEvents(message)) : jsonResponse(200, message)
+  }
+
+  return {
+    client: new Anthropic({ apiKey: 'scripted-test-key', fetch: scriptedFetch, maxRetries: 0 }),
+    requests,
+    push: (...more) => queue.push(...more),
+    remaining: () => queue.length,
+  }
+}
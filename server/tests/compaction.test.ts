@@ -0,0 +1,137 @@
+/**
+ * tests/compaction.test.ts — 對話歷史壓縮（compaction.ts）與工具結果省略（history-blocks.ts）
+ *
+ * 摘要函數換成記錄輸入、回傳固定字串的 stub，不呼叫 API。
+ *
+ * 執行：npm test
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { compactHistory, type Summarizer } from '../compaction.js'
+import { elideToolHistory } from '../history-blocks.js'
+import type { ShortTermMessage } from '../session-store.js'
+
+function user(content: string): ShortTermMessage {
+  return { role: 'user', content }
+}
+
+function assistant(content: string): ShortTermMessage {
+  return { role: 'assistant', content }
+}
+
+function toolCall(id: string, name: string, input: Record<string, unknown>): ShortTermMessage {
+  return { role: 'assistant', content: '', blocks: [{ type: 'tool_use', id, name, input }] }
+}
+
+function toolResult(id: string, content: string): ShortTermMessage {
+  return { role: 'user', content: '', blocks: [{ type: 'tool_result', tool_use_id: id, content }] }
+}
+
+// 記下每次呼叫的輸入，回傳固定的摘要
+function stubSummarizer(summary = '（摘要）') {
+  const calls: Parameters<Summarizer>[0][] = []
+  const summarize: Summarizer = async (input) => {
+    calls.push(input)
+    return summary
+  }
+  return { summarize, calls }
+}
+
+describe('compactHistory', () => {
+  it('沒有超過預算：不呼叫摘要函數，歷史原封不動', async () => {
+    const { summarize, calls } = stubSummarizer()
+    const messages = [user('你好'), assistant('嗨')]
+
+    const result = await compactHistory(messages, { budgetTokens: 1000, keepRecentMessages: 1, summarize })
+
+    assert.equal(result.compacted, false)
+    assert.equal(result.messages, messages)
+    assert.equal(calls.length, 0)
+  })
+
+  it('保留區從用戶訊息開始，不會把一問一答切開', async () => {
+    const { summarize, calls } = stubSummarizer()
+    const messages = [user('一'), assistant('回一'), user('二'), assistant('回二'), user('三'), assistant('回三')]
+
+    // 最近 3 則會從「回二」開始，往前退到「二」
+    const result = await compactHistory(messages, { budgetTokens: 0, keepRecentMessages: 3, summarize })
+
+    assert.equal(result.compacted, true)
+    assert.equal(result.summarizedCount, 2)
+    assert.deepEqual(calls[0].transcript.map((m) => m.content), ['一', '回一'])
+    assert.deepEqual(result.messages.map((m) => m.content), ['（摘要）', '二', '回二', '三', '回三'])
+    assert.equal(result.messages[0].summary, true)
+  })
+
+  it('tool_use 與對應的 tool_result 不會被分在兩邊', async () => {
+    const { summarize, calls } = stubSummarizer()
+    const messages = [
+      user('一'),
+      assistant('回一'),
+      user('二'),
+      toolCall('toolu_1', 'memory', { command: 'view', path: '/memories' }),
+      toolResult('toolu_1', '（目錄內容）'),
+      assistant('回二'),
+    ]
+
+    // 最近 2 則會從工具結果開始：不能當起點，一路退到「二」
+    const result = await compactHistory(messages, { budgetTokens: 0, keepRecentMessages: 2, summarize })
+
+    assert.deepEqual(calls[0].transcript.map((m) => m.content), ['一', '回一'])
+    const kept = result.messages.slice(1)
+    assert.equal(kept[0].content, '二')
+    assert.ok(kept.some((m) => m.blocks?.some((b) => b.type === 'tool_use' && b.id === 'toolu_1')))
+    assert.ok(kept.some((m) => m.blocks?.some((b) => b.type === 'tool_result' && b.tool_use_id === 'toolu_1')))
+  })
+
+  it('已經有滾動摘要時，舊摘要交給摘要函數整合，結果仍只有一則摘要', async () => {
+    const { summarize, calls } = stubSummarizer('（新的摘要）')
+    const messages = [
+      { role: 'user' as const, content: '（舊的摘要）', summary: true },
+      user('一'),
+      assistant('回一'),
+      user('二'),
+      assistant('回二'),
+    ]
+
+    const result = await compactHistory(messages, { budgetTokens: 0, keepRecentMessages: 2, summarize })
+
+    assert.equal(calls[0].previousSummary, '（舊的摘要）')
+    assert.deepEqual(calls[0].transcript.map((m) => m.content), ['一', '回一'])
+    assert.deepEqual(result.messages.map((m) => m.content), ['（新的摘要）', '二', '回二'])
+    assert.equal(result.messages.filter((m) => m.summary).length, 1)
+  })
+})
+
+describe('elideToolHistory', () => {
+  it('只省略最近幾輪之前的大型工具結果與工具輸入，id 對應不變', () => {
+    const longResult = '很長的記憶內容'.repeat(50)
+    const longInput = 'x'.repeat(500)
+    const history = [
+      user('一'),
+      toolCall('toolu_old', 'memory', { command: 'create', path: '/memories/a.xml', file_text: longInput }),
+      toolResult('toolu_old', longResult),
+      assistant('回一'),
+      user('二'),
+      toolCall('toolu_new', 'memory', { command: 'view', path: '/memories/a.xml' }),
+      toolResult('toolu_new', longResult),
+      assistant('回二'),
+      user('三'),
+      assistant('回三'),
+    ]
+
+    const elided = elideToolHistory(history, { keepTurns: 2, maxChars: 100 })
+
+    const oldCall = elided[1].blocks?.[0]
+    const oldResult = elided[2].blocks?.[0]
+    assert.ok(oldCall?.type === 'tool_use' && oldCall.id === 'toolu_old')
+    assert.match(String((oldCall.input as { file_text: string }).file_text), /（已省略 300 字）$/)
+    assert.ok(oldResult?.type === 'tool_result' && oldResult.tool_use_id === 'toolu_old')
+    assert.equal(oldResult.content, `（較早的 memory 結果已省略，原長 ${longResult.length} 字；需要時請重新呼叫）`)
+
+    // 最近兩輪（「二」之後）原封不動；再執行一次也不會再改變
+    assert.deepEqual(elided.slice(4), history.slice(4))
+    assert.deepEqual(elideToolHistory(elided, { keepTurns: 2, maxChars: 100 }), elided)
+  })
+})
@@ -0,0 +1,454 @@
+/**
+ * tests/conversation.test.ts — /api/chat 的多輪對話情境測試
+ *
+ * Claude 由 testing/scripted-client.ts 照劇本回應，不需要 API Key。
+ * 每個情境檢查三件事：送出的 SSE 事件、工具執行的順序、記憶檔案等副作用。
+ *
+ * 執行：npm test
+ */
+
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import { after, before, describe, it } from 'node:test'
+import { eventSequence, replyText, startTestServer, toolOrder, type TestServer } from '../testing/harness.js'
+import { callTool, reply } from '../testing/scripted-client.js'
+
+const USER_ID = '0f4a2c1e-test-4000-8000-000000000001'
+
+const PROFILE = `<user_profile>
+  <name>小明</name>
+  <concern>工作壓力大，常失眠</concern>
+</user_profile>`
+
+const CARDS = [
+  { id: 'calm', name: '平靜', english_name: 'Calm', symbol: '🌊', color_theme: 'ocean', description: '像海面一樣平穩' },
+  { id: 'tired', name: '疲憊', english_name: 'Tired', symbol: '🌙', color_theme: 'moonlight', description: '想好好休息' },
+  { id: 'hope', name: '希望', english_name: 'Hope', symbol: '🌅', color_theme: 'sunrise', description: '有一點光' },
+  { id: 'growth', name: '成長', english_name: 'Growth', symbol: '🌱', color_theme: 'forest', description: '慢慢長出力量' },
+]
+
+// 工具結果在下一次 API 呼叫的最後一則 user 訊息裡
+function lastToolResult(messages: { role: string; content: unknown }[]): string {
+  const last = messages[messages.length - 1]
+  const blocks = Array.isArray(last.content) ? (last.content as { type: string; content?: unknown }[]) : []
+  const result = blocks.find((b) => b.type === 'tool_result')
+  assert.ok(result, '最後一則訊息應該包含 tool_result')
+  return typeof result.content === 'string' ? result.content : JSON.stringify(result.content)
+}
+
+describe('/api/chat 對話情境', () => {
+  let server: TestServer
+
+  before(async () => {
+    server = await startTestServer()
+  })
+
+  after(async () => {
+    await server.close()
+  })
+
+  it('純文字回覆：turn → delta → done，並存入對話歷史', async () => {
+    const scripted = server.script([reply('嗨，很高興見到你。今天想聊些什麼呢？')])
+
+    const { status, events } = await server.chat({ sessionId: 'plain-1', userId: USER_ID, message: '你好' })
+
+    assert.equal(status, 200)
+    assert.deepEqual(eventSequence(events), ['turn', 'delta', 'done'])
+    assert.equal(replyText(events), '嗨，很高興見到你。今天想聊些什麼呢？')
+    assert.equal(scripted.remaining(), 0)
+    assert.equal(scripted.requests[0].body.messages.at(-1)?.content, '你好')
+
+    const { data } = await server.request('GET', `/api/sessions/plain-1/messages?userId=${USER_ID}`)
+    const messages = (data as { messages: { role: string; content: string }[] }).messages
+    assert.deepEqual(
+      messages.map((m) => [m.role, m.content]),
+      [
+        ['user', '你好'],
+        ['assistant', '嗨，很高興見到你。今天想聊些什麼呢？'],
+      ]
+    )
+  })
+
+  it('對話歷史：只有擁有者能列出、讀取、刪除與接著聊', async () => {
+    const OTHER_ID = '0f4a2c1e-test-4000-8000-000000000002'
+    server.script([reply('嗨，我在這裡。')])
+    await server.chat({ sessionId: 'owned-1', userId: USER_ID, message: '今天心情不太好' })
+
+    const listed = async (userId: string) =>
+      ((await server.request('GET', `/api/sessions?userId=${userId}`)).data as { sessions: { sessionId: string }[] }).sessions.map(
+        (s) => s.sessionId
+      )
+    assert.ok((await listed(USER_ID)).includes('owned-1'))
+    assert.ok(!(await listed(OTHER_ID)).includes('owned-1'))
+
+    const other = [
+      (await server.request('GET', `/api/sessions/owned-1/messages?userId=${OTHER_ID}`)).status,
+      (await server.request('DELETE', `/api/sessions/owned-1?userId=${OTHER_ID}`)).status,
+      (await server.chat({ sessionId: 'owned-1', userId: OTHER_ID, message: '你好' })).status,
+      (await server.chat({ sessionId: 'owned-1', message: '你好' })).status,
+      (await server.request('GET', '/api/sessions')).status,
+    ]
+    assert.deepEqual(other, [404, 404, 403, 403, 400])
+
+    assert.equal((await server.request('DELETE', `/api/sessions/owned-1?userId=${USER_ID}`)).status, 204)
+    assert.ok(!(await listed(USER_ID)).includes('owned-1'))
+  })
+
+  it('長期記憶：只有擁有者（第一個帶 userId 對話的用戶）能使用記憶 API 或開始對話', async () => {
+    const OTHER_ID = '0f4a2c1e-test-4000-8000-000000000002'
+    server.script([reply('嗨。')])
+    await server.chat({ sessionId: 'memory-owner', userId: USER_ID, message: '嗨' })
+
+    const statuses = [
+      (await server.request('GET', '/api/memories')).status,
+      (await server.request('GET', `/api/memories?userId=${OTHER_ID}`)).status,
+      (await server.request('DELETE', `/api/memories?userId=${OTHER_ID}`)).status,
+      (await server.request('GET', `/api/memories/history?userId=${OTHER_ID}`)).status,
+      (await server.chat({ sessionId: 'memory-other', userId: OTHER_ID, message: '你記得我什麼？' })).status,
+      (await server.request('GET', `/api/memories?userId=${USER_ID}`)).status,
+    ]
+    assert.deepEqual(statuses, [400, 403, 403, 403, 403, 200])
+  })
+
+  it('記憶工具：view → create 依序執行，寫入 user_profile.xml 與修改日誌', async () => {
+    const scripted = server.script([
+      callTool('memory', { command: 'view', path: '/memories' }, '讓我先看看之前的紀錄。'),
+      callTool('memory', { command: 'create', path: '/memories/user_profile.xml', file_text: PROFILE }),
+      reply('我記下來了，小明。'),
+    ])
+
+    const { events } = await server.chat({ sessionId: 'memory-1', userId: USER_ID, message: '我叫小明，最近工作壓力很大' })
+
+    assert.deepEqual(toolOrder(events), ['memory', 'memory'])
+    assert.deepEqual(
+      events.filter((e) => e.event === 'tool_start').map((e) => e.data.summary),
+      [{ command: 'view', path: '/memories' }, { command: 'create', path: '/memories/user_profile.xml' }]
+    )
+    assert.ok(events.filter((e) => e.event === 'tool_end').every((e) => e.data.ok === true))
+    assert.equal(eventSequence(events).at(-1), 'done')
+    assert.equal(scripted.remaining(), 0)
+
+    assert.equal(await server.readMemory('user_profile.xml'), PROFILE)
+    const journal = await fs.readFile(path.join(server.dataDir, 'memory-journal', 'journal.jsonl'), 'utf-8')
+    const entries = journal.trim().split('\n').map((line) => JSON.parse(line) as Record<string, unknown>)
+    assert.deepEqual(
+      entries.map((e) => [e.source, e.sessionId, e.command, e.path]),
+      [['tool', 'memory-1', 'create', '/memories/user_profile.xml']]
+    )
+  })
+
+  it('格式不符的記憶寫入被拒絕，錯誤說明回給 Claude', async () => {
+    const scripted = server.script([
+      callTool('memory', { command: 'create', path: '/memories/recurring_themes.xml', file_text: '<themes><pattern>失眠</pattern></themes>' }),
+      reply('好的。'),
+    ])
+
+    const { events } = await server.chat({ sessionId: 'memory-2', userId: USER_ID, message: '我常常睡不著' })
+
+    assert.deepEqual(
+      events.filter((e) => e.event === 'tool_end').map((e) => e.data.ok),
+      [false]
+    )
+    assert.equal(await server.readMemory('recurring_themes.xml'), null)
+    assert.match(lastToolResult(scripted.requests[1].body.messages), /根元素必須是 <recurring_themes>/)
+  })
+
+  it('UI 工具：選牌時暫停回合，互動結果換成工具結果並記錄心情', async () => {
+    const scripted = server.script([
+      callTool('read_skill', { skill_name: 'mood-awareness-cards' }),
+      callTool('show_mood_cards', { prompt: '選一張最貼近你現在心情的牌', cards: CARDS }, '我們來試試看心情牌卡。'),
+    ])
+
+    const first = await server.chat({ sessionId: 'cards-1', userId: USER_ID, message: '說不清楚自己怎麼了' })
+
+    assert.deepEqual(toolOrder(first.events), ['read_skill', 'show_mood_cards'])
+    const ui = first.events.find((e) => e.event === 'ui')
+    assert.equal(ui?.data.tool, 'show_mood_cards')
+    assert.equal((ui?.data.payload as { cards: unknown[] }).cards.length, 4)
+    assert.equal(eventSequence(first.events).at(-1), 'done')
+    assert.equal(scripted.requests.length, 2, '呼叫 UI 工具後不應再呼叫 API')
+
+    // 不在這次提供的牌卡中 → 不開始這一輪
+    const rejected = await server.chat({
+      sessionId: 'cards-1',
+      userId: USER_ID,
+      interaction: { type: 'card_selection', cardId: 'angry' },
+    })
+    assert.equal(rejected.status, 409)
+
+    scripted.push(reply('你選了「疲憊」，聽起來這陣子真的很累。'))
+    const second = await server.chat({
+      sessionId: 'cards-1',
+      userId: USER_ID,
+      interaction: { type: 'card_selection', cardId: 'tired' },
+    })
+
+    assert.deepEqual(eventSequence(second.events), ['turn', 'interaction', 'delta', 'done'])
+    assert.match(String(second.events[1].data.content), /疲憊/)
+    assert.match(lastToolResult(scripted.requests[2].body.messages), /疲憊/)
+
+    const { data } = await server.request('GET', `/api/mood?userId=${USER_ID}`)
+    const entries = (data as { entries: { source: string; card?: { id: string } }[] }).entries
+    assert.deepEqual(
+      entries.map((e) => [e.source, e.card?.id]),
+      [['card', 'tired']]
+    )
+  })
+
+  it('UI 工具前提：還沒載入技能協議就呼叫時回傳錯誤，不送出 ui 事件', async () => {
+    const cards = { prompt: '選一張牌', cards: CARDS }
+    const scripted = server.script([
+      callTool('show_mood_cards', cards),
+      callTool('read_skill', { skill_name: 'mood-awareness-cards' }),
+      callTool('show_mood_cards', cards),
+    ])
+
+    const { events } = await server.chat({ sessionId: 'cards-2', userId: USER_ID, message: '很複雜，說不出來' })
+
+    assert.deepEqual(toolOrder(events), ['show_mood_cards', 'read_skill', 'show_mood_cards'])
+    assert.deepEqual(
+      events.filter((e) => e.event === 'tool_end').map((e) => e.data.ok),
+      [false, true, true]
+    )
+    assert.equal(events.filter((e) => e.event === 'ui').length, 1, '只有載入協議後的呼叫會顯示')
+    assert.ok(
+      events.findIndex((e) => e.event === 'ui') > events.findIndex((e) => e.event === 'tool_start' && e.data.tool === 'read_skill')
+    )
+    assert.match(lastToolResult(scripted.requests[1].body.messages), /^錯誤：.*必須先呼叫 read_skill\("mood-awareness-cards"\)/)
+    const rejected = scripted.requests[1].body.messages.at(-1)?.content as { type: string; is_error?: boolean }[]
+    assert.equal(rejected.find((b) => b.type === 'tool_result')?.is_error, true)
+    assert.equal(scripted.remaining(), 0)
+
+    // 被拒絕的呼叫不算在等待互動；等待的是第二次呼叫
+    const { data } = await server.request('GET', `/api/sessions/cards-2/messages?userId=${USER_ID}`)
+    assert.equal((data as { pendingUi: { tool: string } | null }).pendingUi?.tool, 'show_mood_cards')
+  })
+
+  it('UI 工具前提：和 read_skill 在同一次回應中呼叫也會被拒絕', async () => {
+    server.script([
+      {
+        content: [
+          { type: 'tool_use', name: 'read_skill', input: { skill_name: 'mood-awareness-cards' } },
+          { type: 'tool_use', name: 'show_mood_cards', input: { prompt: '選一張牌', cards: CARDS } },
+        ],
+      },
+      reply('我們先聊聊看。'),
+    ])
+
+    const { events } = await server.chat({ sessionId: 'cards-3', userId: USER_ID, message: '不知道怎麼說' })
+
+    // 兩個工具同時執行，tool_end 的順序不固定：依 id 對回工具名稱
+    const toolById = new Map(events.filter((e) => e.event === 'tool_start').map((e) => [e.data.id, e.data.tool]))
+    const outcomes = Object.fromEntries(
+      events.filter((e) => e.event === 'tool_end').map((e) => [String(toolById.get(e.data.id)), e.data.ok])
+    )
+    assert.deepEqual(outcomes, { read_skill: true, show_mood_cards: false })
+    assert.equal(events.filter((e) => e.event === 'ui').length, 0)
+    assert.equal(eventSequence(events).at(-1), 'done')
+  })
+
+  it('UI 工具 input：不符合 input_schema 或 id 重複時逐項列出錯誤，修正後才顯示', async () => {
+    const invalid = {
+      prompt: '選一張牌',
+      cards: [CARDS[0], CARDS[1], { ...CARDS[2], color_theme: 'teal' }],
+    }
+    const duplicated = { prompt: '選一張牌', cards: [CARDS[0], CARDS[1], CARDS[2], { ...CARDS[3], id: CARDS[1].id }] }
+    const scripted = server.script([
+      callTool('read_skill', { skill_name: 'mood-awareness-cards' }),
+      callTool('show_mood_cards', invalid),
+      callTool('show_mood_cards', duplicated),
+      callTool('show_mood_cards', { prompt: '選一張牌', cards: CARDS }),
+    ])
+
+    const { events } = await server.chat({ sessionId: 'cards-4', userId: USER_ID, message: '心裡亂亂的' })
+
+    assert.deepEqual(
+      events.filter((e) => e.event === 'tool_end').map((e) => e.data.ok),
+      [true, false, false, true]
+    )
+    const ui = events.filter((e) => e.event === 'ui')
+    assert.equal(ui.length, 1)
+    assert.equal((ui[0].data.payload as { cards: unknown[] }).cards.length, 4)
+
+    const result = lastToolResult(scripted.requests[2].body.messages)
+    assert.match(result, /^錯誤：show_mood_cards 的 input 不符合 input_schema/)
+    assert.match(result, /- cards：需要 4 到 6 項，收到 3 項/)
+    assert.match(result, /- cards\[2\]\.color_theme：必須是 ocean、.* 其中之一，收到 "teal"/)
+    assert.match(
+      lastToolResult(scripted.requests[3].body.messages),
+      new RegExp(`- cards\\[3\\]\\.id：和 cards\\[1\\] 重複，收到 "${CARDS[1].id}"`)
+    )
+    assert.equal(scripted.remaining(), 0)
+  })
+
+  it('危機關鍵字：回覆開始前先送出 crisis 事件', async () => {
+    server.script([reply('謝謝你願意告訴我。你現在安全嗎？')])
+
+    const { events } = await server.chat({ sessionId: 'crisis-1', userId: USER_ID, message: '我最近常常想死' })
+
+    assert.deepEqual(eventSequence(events), ['turn', 'crisis', 'delta', 'done'])
+    assert.equal(events[1].data.level, 'high')
+  })
+
+  it('危機關鍵字：英文依單字邊界比對，不會跨單字誤判', async () => {
+    server.script([reply('聽起來你在調整飲食。'), reply('謝謝你願意告訴我。你現在安全嗎？')])
+
+    const diet = await server.chat({ sessionId: 'crisis-en', userId: USER_ID, message: "I'm going to diet this month" })
+    assert.deepEqual(eventSequence(diet.events), ['turn', 'delta', 'done'])
+
+    const { events } = await server.chat({ sessionId: 'crisis-en', userId: USER_ID, message: 'I want to  die' })
+    assert.deepEqual(eventSequence(events), ['turn', 'crisis', 'delta', 'done'])
+    assert.equal(events[1].data.level, 'high')
+  })
+
+  it('危機確認：只有 possible 命中時由模型確認，使用同一個換上的 client', async () => {
+    const scripted = server.script([reply('SAFE'), reply('聽起來這陣子真的很累。')])
+    process.env.CRISIS_MODEL_CHECK = 'true'
+    try {
+      const { events } = await server.chat({ sessionId: 'crisis-model', userId: USER_ID, message: "I can't go on like this at work" })
+      assert.deepEqual(eventSequence(events), ['turn', 'delta', 'done'])
+    } finally {
+      process.env.CRISIS_MODEL_CHECK = 'false'
+    }
+    assert.match(scripted.requests[0].body.system as string, /safety classifier/)
+    assert.equal(scripted.remaining(), 0)
+  })
+
+  it('危機篩檢：思維記錄與作業回報中用戶寫的文字也會篩檢', async () => {
+    const scripted = server.script([
+      callTool('read_skill', { skill_name: 'thought-record' }),
+      callTool('show_thought_record', { intro: '我們一起整理一下剛才的想法。' }),
+    ])
+    await server.chat({ sessionId: 'crisis-2', userId: USER_ID, message: '被主管罵了' })
+
+    scripted.push(reply('謝謝你願意寫下來。你現在安全嗎？'))
+    const { events } = await server.chat({
+      sessionId: 'crisis-2',
+      userId: USER_ID,
+      interaction: {
+        type: 'thought_record',
+        record: {
+          situation: '被主管當眾責備',
+          automatic_thought: '我什麼都做不好，不想活了',
+          emotion: '絕望',
+          intensity: 90,
+          distortions: [],
+          evidence_for: '報告出錯',
+          evidence_against: '之前的專案都有完成',
+          balanced_thought: '一次出錯不代表全部',
+        },
+      },
+    })
+    assert.deepEqual(eventSequence(events), ['turn', 'interaction', 'crisis', 'delta', 'done'])
+
+    server.script([callTool('assign_homework', { title: '散步', instructions: '每天散步十分鐘', due_in_days: 2 }), reply('好。')])
+    await server.chat({ sessionId: 'crisis-3', userId: USER_ID, message: '想多動一動' })
+    const { data } = await server.request('GET', `/api/homework?userId=${USER_ID}&status=open`)
+    const assignment = (data as { assignments: { id: string; title: string }[] }).assignments.find((a) => a.title === '散步')!
+
+    const closed = await server.request('PATCH', `/api/homework/${assignment.id}`, {
+      userId: USER_ID,
+      sessionId: 'crisis-4',
+      status: 'skipped',
+      note: '最近覺得活不下去，什麼都不想做',
+    })
+    assert.equal(closed.status, 200)
+    assert.equal((closed.data as { crisis?: { level: string } }).crisis?.level, 'high')
+
+    const audit = await fs.readFile(path.join(server.dataDir, 'audit', 'crisis.jsonl'), 'utf-8')
+    assert.ok(audit.includes('"sessionId":"crisis-4"'))
+  })
+
+  it('練習作業：佈置後用戶回報，下一輪 System Prompt 附上回報結果', async () => {
+    server.script([
+      callTool('assign_homework', { title: '感恩日記', instructions: '每天睡前寫下一件感恩的事', due_in_days: 3 }),
+      reply('那我們就先試三天。'),
+    ])
+    const first = await server.chat({ sessionId: 'homework-1', userId: USER_ID, message: '好，我願意試試看' })
+    assert.deepEqual(toolOrder(first.events), ['assign_homework'])
+
+    const { data } = await server.request('GET', `/api/homework?userId=${USER_ID}&status=open`)
+    const [assignment] = (data as { assignments: { id: string; title: string }[] }).assignments
+    assert.equal(assignment.title, '感恩日記')
+
+    const closed = await server.request('PATCH', `/api/homework/${assignment.id}`, {
+      userId: USER_ID,
+      status: 'skipped',
+      note: '太累了忘記寫',
+    })
+    assert.equal(closed.status, 200)
+
+    const scripted = server.script([reply('上次的感恩日記沒做到也沒關係。'), reply('今天過得如何？')])
+    await server.chat({ sessionId: 'homework-2', userId: USER_ID, message: '嗨' })
+    await server.chat({ sessionId: 'homework-2', userId: USER_ID, message: '還好' })
+
+    assert.match(String(scripted.requests[0].body.system), /## 練習作業回報[\s\S]*感恩日記[\s\S]*太累了忘記寫/)
+    assert.doesNotMatch(String(scripted.requests[1].body.system), /## 練習作業回報/, '回報只附在下一輪')
+  })
+
+  it('API 呼叫失敗：送出 error 事件', async () => {
+    server.script([])
+
+    const { events } = await server.chat({ sessionId: 'error-1', userId: USER_ID, message: '你好' })
+
+    assert.deepEqual(eventSequence(events), ['turn', 'error'])
+    assert.match(String(events[1].data.message), /劇本已用完/)
+  })
+
+  it('參數錯誤：回 400，不建立回合', async () => {
+    const scripted = server.script([])
+
+    const missing = await server.chat({ sessionId: 'bad-1', userId: USER_ID })
+    const badUser = await server.chat({ sessionId: 'bad-1', userId: '../etc', message: '你好' })
+
+    assert.deepEqual([missing.status, badUser.status], [400, 400])
+    assert.equal(scripted.requests.length, 0)
+  })
+
+  it('請求頻率上限：同一個對話超過每分鐘次數時回 429 與 Retry-After', async () => {
+    server.setRateLimits({ sessionRequestsPerMinute: 2 })
+    const scripted = server.script([reply('嗯。'), reply('我在聽。')])
+
+    const results = []
+    for (const message of ['一', '二', '三']) {
+      results.push(await server.chat({ sessionId: 'limit-1', userId: USER_ID, message }))
+    }
+    const other = await server.chat({ sessionId: 'limit-2', userId: USER_ID, message: '別的對話' })
+
+    assert.deepEqual(results.map((r) => r.status), [200, 200, 429])
+    const limited = results[2]
+    assert.equal(limited.body?.limit, 'requests')
+    assert.equal(limited.body?.scope, 'session')
+    assert.ok(Number(limited.headers.get('Retry-After')) > 0)
+    assert.equal(limited.headers.get('Retry-After'), String(limited.body?.retryAfter))
+    assert.equal(scripted.requests.length, 3, '被拒絕的請求不會呼叫 API')
+    assert.equal(other.status, 200, '其他對話不受影響（劇本用完時是 error 事件，不是 429）')
+
+    // 超過上限的訊息仍然會篩檢危機訊號：429 附上求助資源，並寫入稽核紀錄
+    const crisis = await server.chat({ sessionId: 'limit-1', userId: USER_ID, message: 'I want to kill myself' })
+    assert.equal(crisis.status, 429)
+    assert.equal((crisis.body?.crisis as { level: string } | undefined)?.level, 'high')
+    const audit = await fs.readFile(path.join(server.dataDir, 'audit', 'crisis.jsonl'), 'utf-8')
+    assert.ok(audit.includes('"sessionId":"limit-1"'))
+    server.setRateLimits({})
+  })
+
+  it('每日 token 上限：用量達到上限後，下一輪回 429', async () => {
+    server.setRateLimits({ ipTokensPerDay: 1000 })
+    server.script([
+      { ...callTool('memory', { command: 'view', path: '/memories' }), usage: { input_tokens: 500, output_tokens: 20 } },
+      { ...reply('謝謝你告訴我。'), usage: { input_tokens: 600, output_tokens: 30 } },
+    ])
+
+    const first = await server.chat({ sessionId: 'budget-1', userId: USER_ID, message: '今天好累' })
+    const second = await server.chat({ sessionId: 'budget-2', userId: USER_ID, message: '換個對話' })
+
+    assert.equal(eventSequence(first.events).at(-1), 'done', '開始前還沒用完，這一輪可以跑完')
+    assert.equal(second.status, 429)
+    assert.equal(second.body?.limit, 'tokens')
+    assert.equal(second.body?.scope, 'ip')
+    assert.ok(Number(second.headers.get('Retry-After')) <= 24 * 60 * 60)
+    server.setRateLimits({})
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * tests/memory-consolidation.test.ts — 長期記憶整理（memory-consolidation.ts）
+ *
+ * 記憶檔案放在記憶體中的 Map，彙整函數換成固定回傳字串的 stub，不碰檔案也不呼叫 API。
+ *
+ * 執行：npm test
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { consolidateMemoryFile, type ConsolidationOptions, type Digester, type MemoryFiles } from '../memory-consolidation.js'
+
+// 只實作整理流程用到的檔案操作；listFiles 只列出該目錄本身的檔案
+function memoryFiles(initial: Record<string, string>) {
+  const store = new Map(Object.entries(initial))
+  const files: MemoryFiles = {
+    listFiles: async (dir = '/memories') =>
+      [...store.keys()].filter((p) => p.startsWith(`${dir}/`) && !p.slice(dir.length + 1).includes('/')),
+    readFile: async (memPath) => store.get(memPath) ?? null,
+    writeFile: async (memPath, content) => {
+      store.set(memPath, content)
+    },
+    delete: async ({ path }) => {
+      store.delete(path)
+      return ''
+    },
+  }
+  return { files, store }
+}
+
+function options(digest: Digester, overrides: Partial<ConsolidationOptions> = {}): ConsolidationOptions {
+  return {
+    maxFileBytes: 16_384,
+    digestAfterDays: 60,
+    keepRecentSessions: 5,
+    backupsToKeep: 5,
+    digest,
+    now: new Date('2025-06-15T00:00:00Z'),
+    ...overrides,
+  }
+}
+
+describe('consolidateMemoryFile', () => {
+  it('合併重複、依月份彙整舊摘要，並在改寫前備份原檔', async () => {
+    const original = [
+      '<session_summaries>',
+      '<session date="2025-01-05">談到工作壓力</session>',
+      '<session date="2025-01-20">練習了方形呼吸</session>',
+      '<session date="2025-06-10">睡眠有改善</session>',
+      '<session date="2025-06-10">睡眠有改善</session>',
+      '</session_summaries>',
+    ].join('\n')
+    const { files, store } = memoryFiles({ '/memories/session_summaries.xml': original })
+    const periods: string[] = []
+    const digest: Digester = async ({ period, entries }) => {
+      periods.push(period)
+      return `${period}：${entries.length} 次對話`
+    }
+
+    const report = await consolidateMemoryFile(files, '/memories/session_summaries.xml', options(digest))
+
+    assert.equal(report.status, 'consolidated')
+    assert.equal(report.duplicatesRemoved, 1)
+    assert.equal(report.entriesDigested, 2)
+    assert.deepEqual(periods, ['2025-01'])
+    const next = store.get('/memories/session_summaries.xml') ?? ''
+    assert.match(next, /<digest period="2025-01" sessions="2">2025-01：2 次對話<\/digest>/)
+    assert.equal(next.match(/睡眠有改善/g)?.length, 1)
+    assert.ok(report.backup?.startsWith('/memories/.backups/session_summaries.xml.'))
+    assert.equal(store.get(report.backup ?? ''), original)
+  })
+
+  it('不是依時間累積的檔案超過上限時只回報，不移除內容', async () => {
+    const profile = `<user_profile>\n<concern>${'工作壓力大'.repeat(20)}</concern>\n<note>常失眠</note>\n</user_profile>`
+    const { files, store } = memoryFiles({ '/memories/user_profile.xml': profile })
+
+    const report = await consolidateMemoryFile(
+      files,
+      '/memories/user_profile.xml',
+      options(async () => assert.fail('不應該彙整'), { maxFileBytes: 100 })
+    )
+
+    assert.equal(report.status, 'unchanged')
+    assert.equal(report.oversize, true)
+    assert.equal(report.entriesDropped, 0)
+    assert.equal(store.get('/memories/user_profile.xml'), profile)
+  })
+})
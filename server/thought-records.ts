@@ -0,0 +1,159 @@
+/**
+ * thought-records.ts — CBT 思維記錄（thought-record 技能）
+ *
+ * 用戶在 show_thought_record 表單中逐步填寫：
+ *   情境 → 自動化思考 → 情緒與強度 → 認知扭曲 → 支持 / 反對的證據 → 平衡思考（與重新評估的情緒強度）
+ *
+ * 完成的記錄以互動結果送回（見 interactions.ts），這裡負責：
+ *   - 驗證格式（認知扭曲只能從 COGNITIVE_DISTORTIONS 中選）
+ *   - 轉成給 Claude 的結構化工具結果，以及顯示在對話中的文字
+ *   - 由 server 直接附加到 /memories/thought_records.xml，不依賴 Claude 記得去存
+ *     （經過 FileSystemMemoryHandlers，會寫入修改日誌，可以還原）
+ */
+
+import type { FileSystemMemoryHandlers } from './counselor.js'
+import { escapeXml, parseMemoryXml, serializeMemoryXml, xmlText } from './memory-xml.js'
+
+// 前端的選項在 src/components/ThoughtRecordForm.tsx，兩邊的 id 必須一致
+export const COGNITIVE_DISTORTIONS: Record<string, string> = {
+  all_or_nothing: '非黑即白',
+  overgeneralization: '以偏概全',
+  mental_filter: '心理過濾',
+  disqualifying_positive: '否定正面經驗',
+  mind_reading: '讀心術',
+  fortune_telling: '預言未來',
+  catastrophizing: '災難化',
+  emotional_reasoning: '情緒化推理',
+  should_statements: '應該思維',
+  labeling: '貼標籤',
+  personalization: '個人化',
+}
+
+export interface ThoughtRecord {
+  situation: string
+  automatic_thought: string
+  emotion: string
+  intensity: number         // 0-100，填寫當下的情緒強度
+  distortions: string[]     // COGNITIVE_DISTORTIONS 的 id，可以不選
+  evidence_for: string
+  evidence_against: string
+  balanced_thought: string
+  intensity_after?: number  // 0-100，寫下平衡思考後重新評估的強度
+}
+
+export const THOUGHT_RECORDS_PATH = '/memories/thought_records.xml'
+
+const MAX_FIELD_LENGTH = 2000
+const TEXT_FIELDS = [
+  'situation',
+  'automatic_thought',
+  'emotion',
+  'evidence_for',
+  'evidence_against',
+  'balanced_thought',
+] as const
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 驗證
+// ─────────────────────────────────────────────────────────────────────────────
+
+function isIntensity(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 100
+}
+
+// 格式不對回傳 null；文字欄位去掉前後空白後不能是空的，認知扭曲必須是已知的 id
+export function parseThoughtRecord(raw: unknown): ThoughtRecord | null {
+  if (!raw || typeof raw !== 'object') return null
+  const fields = raw as Record<string, unknown>
+  const text: Partial<Record<(typeof TEXT_FIELDS)[number], string>> = {}
+  for (const name of TEXT_FIELDS) {
+    const value = fields[name]
+    if (typeof value !== 'string' || !value.trim() || value.length > MAX_FIELD_LENGTH) return null
+    text[name] = value.trim()
+  }
+  if (!isIntensity(fields.intensity)) return null
+  if (fields.intensity_after !== undefined && !isIntensity(fields.intensity_after)) return null
+  if (
+    !Array.isArray(fields.distortions) ||
+    !fields.distortions.every((d) => typeof d === 'string' && Object.hasOwn(COGNITIVE_DISTORTIONS, d))
+  ) {
+    return null
+  }
+  return {
+    ...(text as Record<(typeof TEXT_FIELDS)[number], string>),
+    intensity: fields.intensity,
+    distortions: [...new Set(fields.distortions as string[])],
+    ...(fields.intensity_after === undefined ? {} : { intensity_after: fields.intensity_after as number }),
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 輸出格式
+// ─────────────────────────────────────────────────────────────────────────────
+
+// 用戶自己寫的文字（危機篩檢用，見 app.ts）
+export function thoughtRecordText(record: ThoughtRecord): string {
+  return TEXT_FIELDS.map((name) => record[name]).join('\n')
+}
+
+function distortionLabels(record: ThoughtRecord): string[] {
+  return record.distortions.map((id) => COGNITIVE_DISTORTIONS[id] ?? id)
+}
+
+// 給 Claude 的工具結果：JSON，認知扭曲附上中文名稱
+export function thoughtRecordResult(record: ThoughtRecord): string {
+  const data = {
+    ...record,
+    distortions: record.distortions.map((id) => ({ id, label: COGNITIVE_DISTORTIONS[id] ?? id })),
+  }
+  return `用戶完成了思維記錄：\n${JSON.stringify(data, null, 2)}`
+}
+
+// 顯示在對話中的用戶訊息
+export function thoughtRecordDisplay(record: ThoughtRecord): string {
+  const distortions = distortionLabels(record)
+  return [
+    '我完成了一份思維記錄：',
+    `情境：${record.situation}`,
+    `自動化思考：${record.automatic_thought}`,
+    `情緒：${record.emotion}（${record.intensity}）`,
+    ...(distortions.length > 0 ? [`認知扭曲：${distortions.join('、')}`] : []),
+    `支持的證據：${record.evidence_for}`,
+    `反對的證據：${record.evidence_against}`,
+    `平衡思考：${record.balanced_thought}`,
+    ...(record.intensity_after === undefined ? [] : [`現在的情緒強度：${record.intensity_after}`]),
+  ].join('\n')
+}
+
+function thoughtRecordXml(record: ThoughtRecord, date: string): string {
+  const after = record.intensity_after === undefined ? '' : ` after="${record.intensity_after}"`
+  const lines = [
+    `<situation>${escapeXml(record.situation)}</situation>`,
+    `<automatic_thought>${escapeXml(record.automatic_thought)}</automatic_thought>`,
+    `<emotion intensity="${record.intensity}"${after}>${escapeXml(record.emotion)}</emotion>`,
+    ...(record.distortions.length > 0 ? [`<distortions>${escapeXml(distortionLabels(record).join('、'))}</distortions>`] : []),
+    `<evidence_for>${escapeXml(record.evidence_for)}</evidence_for>`,
+    `<evidence_against>${escapeXml(record.evidence_against)}</evidence_against>`,
+    `<balanced_thought>${escapeXml(record.balanced_thought)}</balanced_thought>`,
+  ]
+  return [`<record date="${date}">`, ...lines.map((line) => `    ${line}`), '  </record>'].join('\n')
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 存入長期記憶
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ThoughtRecordFiles = Pick<FileSystemMemoryHandlers, 'readFile' | 'writeFile'>
+
+// 附加一筆記錄；檔案存在但不是可解析的 XML 時不覆寫，丟出錯誤讓呼叫者決定怎麼處理
+export async function appendThoughtRecord(
+  files: ThoughtRecordFiles,
+  record: ThoughtRecord,
+  date = new Date().toISOString().slice(0, 10)
+): Promise<void> {
+  const existing = await files.readFile(THOUGHT_RECORDS_PATH)
+  const doc = parseMemoryXml(existing ?? '<thought_records>\n</thought_records>')
+  const raw = thoughtRecordXml(record, date)
+  doc.entries.push({ raw, tag: 'record', attrs: { date }, text: xmlText(raw) })
+  await files.writeFile(THOUGHT_RECORDS_PATH, serializeMemoryXml(doc))
+}
@@ -3,10 +3,17 @@
  *
  * 架構說明：
  * - 主元件 App：管理所有狀態、處理訊息發送和 SSE 串流
- * - MessageBubble：單則訊息的顯示元件
- * - ThinkingIndicator：等待回覆時的動畫
+ * - MessageBubble：單則訊息的顯示元件（助手回覆以 Markdown 渲染，見 MarkdownMessage）
+ * - ThinkingIndicator：等待回覆時的動畫，以及 Claude 正在使用的工具（查看記憶、載入技能…）
  * - WelcomeScreen：初始歡迎畫面
  * - ErrorBanner：錯誤提示
+ * - RateLimitNotice：送出太頻繁或今天用量已滿（429）時的說明，取代一般的錯誤提示
+ * - CrisisBanner：偵測到危機訊號後固定顯示的求助資源（無法關閉）
+ * - SessionSidebar：對話歷史側邊欄（src/components/）
+ * - MemoryPanel：「你記得我什麼？」長期記憶檢視與編輯（src/components/）
+ * - MoodPanel / MoodCheckIn：心情趨勢與每日心情打卡（src/components/）
+ * - HomeworkFollowUp：開新對話時列出還沒回報的練習作業（src/components/）
+ * - UI 工具元件（牌卡、冥想引導…）放在 src/components/，由 uiToolRegistry 對應
  *
  * 資料流：
  * 用戶輸入 → handleSend() → POST /api/chat
@@ -14,76 +21,116 @@
  *   → React 重新渲染 → 訊息出現在畫面上
  */
 
-import { useState, useEffect, useRef } from 'react'
+import { Fragment, useState, useEffect, useRef } from 'react'
+import HomeworkFollowUp from './components/HomeworkFollowUp'
+import MarkdownMessage from './components/MarkdownMessage'
+import MemoryPanel from './components/MemoryPanel'
+import MoodCheckIn from './components/MoodCheckIn'
+import MoodPanel from './components/MoodPanel'
+import SessionSidebar from './components/SessionSidebar'
+import type { CrisisEvent, Interaction, Message, RateLimitResponse, SessionSummary, ToolActivity, UiEvent } from './types'
+import { getOrCreateUserId } from './mood'
+import { UI_TOOL_REGISTRY } from './uiToolRegistry'
 
 // ─────────────────────────────────────────────────────────────────────────────
-// TypeScript 型別定義
+// Session ID 管理
+//
+// crypto.randomUUID() 是瀏覽器和 Node.js 內建的 UUID 生成器，不需要額外套件
+// localStorage 記住「目前開啟的對話」，瀏覽器重整後回到同一個對話
 // ─────────────────────────────────────────────────────────────────────────────
 
-interface Message {
-  id: string
-  role: 'user' | 'assistant'
-  content: string
-  timestamp: Date
+const SESSION_KEY = 'counselor_session_id'
+
+function getOrCreateSessionId(): string {
+  const existing = localStorage.getItem(SESSION_KEY)
+  if (existing) return existing
+  const id = crypto.randomUUID()
+  localStorage.setItem(SESSION_KEY, id)
+  return id
 }
 
-// 牌卡型別（對應後端 server/counselor.ts 的 MoodCard / CardEvent）
-interface MoodCard {
-  id: string
-  name: string         // 繁體中文，例如「平靜」
-  english_name: string // 例如「Calm」
-  symbol: string       // Emoji，例如「🌊」
-  color_theme: string  // 對應 GRADIENTS 的 key
-  description: string  // 1-2 句描述
+// 對話歷史 API（server/routes/sessions.ts）：只列出、讀取這個用戶的對話
+async function fetchSessions(userId: string): Promise<SessionSummary[]> {
+  const params = new URLSearchParams({ userId })
+  const response = await fetch(`/api/sessions?${params}`)
+  if (!response.ok) return []
+  const data = (await response.json()) as { sessions?: SessionSummary[] }
+  return data.sessions ?? []
 }
 
-interface CardEvent {
-  prompt: string    // Claude 的邀請語
-  cards: MoodCard[]
+// 從 server 還原某個對話的訊息（重新整理或切換對話時）
+// pendingUi：對話停在 UI 工具等用戶互動時，重新顯示那個元件
+async function fetchSessionMessages(
+  userId: string,
+  sessionId: string
+): Promise<{ messages: Message[]; pendingUi: UiEvent | null }> {
+  const params = new URLSearchParams({ userId })
+  const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}/messages?${params}`)
+  if (!response.ok) return { messages: [], pendingUi: null }
+  const data = (await response.json()) as {
+    messages?: {
+      role: Message['role']
+      content: string
+      createdAt?: string
+      truncated?: boolean
+      summary?: boolean
+    }[]
+    pendingUi?: UiEvent | null
+  }
+  // 較早對話的摘要只給 Claude 參考，不顯示成對話泡泡
+  const messages = (data.messages ?? []).filter((m) => !m.summary).map((m, i) => ({
+    id: `${sessionId}-${i}`,
+    role: m.role,
+    content: m.content,
+    timestamp: m.createdAt ? new Date(m.createdAt) : new Date(),
+    truncated: m.truncated,
+  }))
+  const pendingUi = data.pendingUi && Object.hasOwn(UI_TOOL_REGISTRY, data.pendingUi.tool) ? data.pendingUi : null
+  return { messages, pendingUi }
 }
 
-// 冥想引導型別（對應後端 MeditationBreathing / MeditationEvent）
-interface MeditationBreathing {
-  inhale_seconds: number
-  hold_seconds: number
-  exhale_seconds: number
-  rest_seconds: number
+// 危機橫幅一旦出現，就依 session 存在 localStorage，重新整理後依然顯示
+function crisisStorageKey(sessionId: string): string {
+  return `counselor_crisis:${sessionId}`
 }
 
-interface MeditationEvent {
-  title: string
-  guidance: string
-  duration_minutes: number
-  breathing: MeditationBreathing
+function loadCrisis(sessionId: string): CrisisEvent | null {
+  try {
+    const raw = localStorage.getItem(crisisStorageKey(sessionId))
+    return raw ? (JSON.parse(raw) as CrisisEvent) : null
+  } catch {
+    return null
+  }
 }
 
-// 牌卡色彩主題 → CSS gradient
-// 用 inline style 而非 Tailwind 動態 class，因為 Tailwind JIT 無法處理動態 class 名稱
-const GRADIENTS: Record<string, string> = {
-  ocean:    'linear-gradient(135deg, #60a5fa, #22d3ee)',
-  sunrise:  'linear-gradient(135deg, #fb923c, #f472b6)',
-  forest:   'linear-gradient(135deg, #4ade80, #059669)',
-  sunshine: 'linear-gradient(135deg, #fbbf24, #f97316)',
-  blossom:  'linear-gradient(135deg, #f472b6, #c084fc)',
-  mountain: 'linear-gradient(135deg, #94a3b8, #60a5fa)',
-  lavender: 'linear-gradient(135deg, #c084fc, #818cf8)',
-  moonlight:'linear-gradient(135deg, #6366f1, #7c3aed)',
+// 記下新的危機事件，回傳應該顯示的那一個：已經是 high 的就不會被之後的 possible 降級
+// 畫面與 localStorage 存的是同一個值，重新整理後看到的橫幅也不會變
+function saveCrisis(sessionId: string, event: CrisisEvent): CrisisEvent {
+  const previous = loadCrisis(sessionId)
+  const kept = previous?.level === 'high' ? previous : event
+  localStorage.setItem(crisisStorageKey(sessionId), JSON.stringify(kept))
+  return kept
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Session ID 管理
-//
-// crypto.randomUUID() 是瀏覽器和 Node.js 內建的 UUID 生成器，不需要額外套件
-// localStorage 讓 session ID 在瀏覽器重整後依然存在
-// ─────────────────────────────────────────────────────────────────────────────
+// 串流中斷時的續傳設定：最多連續重試幾次，每次等待時間逐次拉長
+const MAX_RESUME_ATTEMPTS = 5
+const RESUME_DELAY_MS = 1000
 
-function getOrCreateSessionId(): string {
-  const KEY = 'counselor_session_id'
-  const existing = localStorage.getItem(KEY)
-  if (existing) return existing
-  const id = crypto.randomUUID()
-  localStorage.setItem(KEY, id)
-  return id
+// 429 回應：送出太頻繁（requests）或今天的用量已滿（tokens），什麼時候可以再試
+interface RateLimitState {
+  limit: RateLimitResponse['limit']
+  retryAfterSeconds: number
+  retryAt: number // 毫秒時間戳
+}
+
+// 在送出流程中拋出，由外層 catch 分辨出來改顯示 RateLimitNotice
+class RateLimitError extends Error {
+  readonly state: RateLimitState
+
+  constructor(state: RateLimitState) {
+    super('超過使用上限')
+    this.state = state
+  }
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -93,27 +140,69 @@ function getOrCreateSessionId(): string {
 export default function App() {
   // useState：React 的狀態管理 hook
   // 每當 state 改變，React 會重新渲染元件
-  const [sessionId] = useState<string>(getOrCreateSessionId)
+  const [sessionId, setSessionId] = useState<string>(getOrCreateSessionId)
+  // userId：心情紀錄與練習作業屬於哪個用戶（跨對話不變，見 src/mood.ts）
+  const [userId] = useState<string>(getOrCreateUserId)
+  // sessions：側邊欄的對話列表；sidebarOpen：手機版側邊欄是否展開
+  const [sessions, setSessions] = useState<SessionSummary[]>([])
+  const [sidebarOpen, setSidebarOpen] = useState(false)
+  // memoryOpen：長期記憶面板是否開啟
+  const [memoryOpen, setMemoryOpen] = useState(false)
+  // moodOpen：心情趨勢面板是否開啟
+  const [moodOpen, setMoodOpen] = useState(false)
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  // pendingCards：當後端發來 'cards' SSE 事件時，儲存牌卡資料並渲染選擇 UI
-  const [pendingCards, setPendingCards] = useState<CardEvent | null>(null)
-  // pendingMeditation：當後端發來 'meditation' SSE 事件時，儲存冥想設定並渲染引導 UI
-  const [pendingMeditation, setPendingMeditation] = useState<MeditationEvent | null>(null)
+  // rateLimit：server 回 429 時的限制種類與可以再試的時間
+  const [rateLimit, setRateLimit] = useState<RateLimitState | null>(null)
+  // pendingUi：當後端發來 'ui' SSE 事件時，儲存工具名稱與 payload，
+  // 由 UI_TOOL_REGISTRY 找到對應元件渲染（牌卡選擇、冥想引導…）
+  const [pendingUi, setPendingUi] = useState<UiEvent | null>(null)
+  // crisis：後端偵測到危機訊號後送來的求助資源，顯示為無法關閉的橫幅
+  const [crisis, setCrisis] = useState<CrisisEvent | null>(() => loadCrisis(sessionId))
+  // toolActivity：這一輪中 Claude 使用過的工具（tool_start / tool_end 事件），
+  // 顯示在等待動畫旁，直到回覆文字開始出現
+  const [toolActivity, setToolActivity] = useState<ToolActivity[]>([])
+  // reconnecting：串流中斷、正在續傳
+  const [reconnecting, setReconnecting] = useState(false)
 
   // useRef：用來取得 DOM 元素的參照，不會觸發重新渲染
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   // 追蹤「目前正在讀取的串流 ID」，防止舊串流的更新汙染新的對話輪次
   const activeStreamId = useRef<string>('')
+  // 目前串流的 AbortController：切換對話時中斷連線，後端也會跟著停止 Agent 迴圈
+  const streamAbort = useRef<AbortController | null>(null)
+  // 目前進行中的回覆（server 的 turn）：切換對話時通知 server 立即停止，不必等斷線寬限期
+  const activeTurn = useRef<{ turnId: string; sessionId: string } | null>(null)
 
   // useEffect：副作用 hook — 當 messages 改變時，自動捲動到底部
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
 
+  // 載入側邊欄的對話列表
+  useEffect(() => {
+    fetchSessions(userId).then(setSessions).catch(() => {})
+  }, [userId])
+
+  // 開啟（或切換到）某個對話時，從 server 還原訊息
+  // 若還原完成前用戶已經送出新訊息，就不覆蓋畫面
+  useEffect(() => {
+    let cancelled = false
+    fetchSessionMessages(userId, sessionId)
+      .then((restored) => {
+        if (cancelled) return
+        setMessages((prev) => (prev.length > 0 ? prev : restored.messages))
+        setPendingUi((prev) => prev ?? restored.pendingUi)
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [userId, sessionId])
+
   // ───────────────────────────────────────────────────────────────────────────
   // 發送訊息並讀取 SSE 串流
   //
@@ -122,16 +211,18 @@ export default function App() {
   // 2. 讀取 ReadableStream
   // 3. 解析 SSE 事件
   // 4. 逐字更新 React state
+  // 5. 連線中斷時用 Last-Event-ID 續傳，繼續填入同一個助手訊息
+  //
+  // input 是用戶打的文字，或 UI 工具的互動結果（選了哪張牌卡…）
+  // 互動結果沒有樂觀更新：顯示的文字由 server 產生，收到 'interaction' 事件才加到畫面上
   // ───────────────────────────────────────────────────────────────────────────
 
-  async function sendMessage(userText: string) {
+  async function sendMessage(input: string | Interaction) {
     // 1. 樂觀更新：立即把用戶訊息加到畫面上（不等 server 確認）
-    const userMsg: Message = {
-      id: crypto.randomUUID(),
-      role: 'user',
-      content: userText,
-      timestamp: new Date(),
-    }
+    const userMsgs: Message[] =
+      typeof input === 'string'
+        ? [{ id: crypto.randomUUID(), role: 'user', content: input, timestamp: new Date() }]
+        : []
 
     // 2. 建立空白的助手訊息佔位符（待填入串流內容）
     const assistantId = crypto.randomUUID()
@@ -146,32 +237,110 @@ export default function App() {
     // 場景：用戶選牌後立刻發新訊息，舊串流的 delta 不應污染新對話
     const streamId = crypto.randomUUID()
     activeStreamId.current = streamId
+    const abortController = new AbortController()
+    streamAbort.current = abortController
+
+    // 續傳用的狀態：server 的第一個事件告知 turnId，之後每個事件都有遞增的序號
+    let turnId: string | null = null
+    let lastEventId = -1
+    let finished = false // 收到 done 或 error 事件
+    // server 沒有接受這一輪（429、連線失敗）時要還原的 UI 工具元件，讓用戶可以再送一次
+    const previousUi = pendingUi
 
-    setMessages((prev) => [...prev, userMsg, assistantMsg])
+    setMessages((prev) => [...prev, ...userMsgs, assistantMsg])
     setIsLoading(true)
     setError(null)
-    setPendingCards(null)     // 開始新的對話輪次時，清除殘留的牌卡 UI
-    setPendingMeditation(null) // 清除殘留的冥想 UI
-
-    try {
-      // 3. 發送 POST 請求到後端
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sessionId, message: userText }),
-      })
-
-      if (!response.ok) {
-        const errData = await response.json().catch(() => ({}))
-        throw new Error(
-          (errData as { error?: string }).error ?? `HTTP ${response.status}`
-        )
+    setRateLimit(null)
+    setPendingUi(null) // 開始新的對話輪次時，清除殘留的 UI 工具元件
+    setToolActivity([])
+
+    // 依事件名稱分派到對應的處理邏輯
+    // 注意：error 事件在這裡 throw，由外層 catch 捕捉並顯示錯誤
+    function handleEvent(eventName: string, data: Record<string, unknown>) {
+      switch (eventName) {
+        case 'turn':
+          // turn 事件：這一輪回覆的 ID，斷線後憑它續傳或取消
+          if (typeof data.turnId === 'string') {
+            turnId = data.turnId
+            activeTurn.current = { turnId, sessionId }
+          }
+          break
+        case 'interaction':
+          // interaction 事件：server 驗證過互動結果，送來要顯示成用戶訊息的文字
+          if (typeof data.content === 'string') {
+            const userMsg: Message = { id: crypto.randomUUID(), role: 'user', content: data.content, timestamp: new Date() }
+            setMessages((prev) => {
+              const at = prev.findIndex((m) => m.id === assistantId)
+              return at === -1 ? [...prev, userMsg] : [...prev.slice(0, at), userMsg, ...prev.slice(at)]
+            })
+          }
+          break
+        case 'delta':
+          // delta 事件：把新文字附加到助手訊息
+          if (typeof data.text === 'string') {
+            const text = data.text
+            // 回覆文字出現後，工具狀態就不需要再顯示
+            setToolActivity((prev) => (prev.length > 0 ? [] : prev))
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === assistantId ? { ...m, content: m.content + text } : m
+              )
+            )
+          }
+          break
+        case 'ui':
+          // ui 事件：Claude 呼叫了技能宣告的 UI 工具
+          // 只接受 registry 中有對應元件的工具，避免渲染未知格式
+          if (typeof data.tool === 'string' && Object.hasOwn(UI_TOOL_REGISTRY, data.tool)) {
+            setPendingUi({ tool: data.tool, payload: data.payload })
+          } else {
+            console.warn('收到未登記的 UI 工具事件:', data.tool)
+          }
+          break
+        case 'tool_start':
+          // tool_start 事件：Claude 開始使用某個工具（只有名稱與摘要）
+          if (typeof data.id === 'string' && typeof data.tool === 'string') {
+            const activity = data as unknown as ToolActivity
+            setToolActivity((prev) => [...prev, activity])
+          }
+          break
+        case 'tool_end':
+          // tool_end 事件：標記同一個 id 的工具已經結束
+          if (typeof data.id === 'string') {
+            const { id, ok } = data
+            setToolActivity((prev) => prev.map((a) => (a.id === id ? { ...a, ok: ok !== false } : a)))
+          }
+          break
+        case 'crisis':
+          // crisis 事件：server 端危機篩檢命中，不論 Claude 怎麼回覆都顯示求助資源
+          if (Array.isArray(data.resources)) {
+            setCrisis(saveCrisis(sessionId, data as unknown as CrisisEvent))
+          }
+          break
+        case 'done':
+          // done 事件：串流結束，順便更新側邊欄（新對話的標題、排序）
+          finished = true
+          activeTurn.current = null
+          setIsLoading(false)
+          setToolActivity([])
+          fetchSessions(userId).then(setSessions).catch(() => {})
+          break
+        case 'error':
+          // error 事件：後端發生錯誤，拋出讓外層 catch 處理（不續傳）
+          finished = true
+          activeTurn.current = null
+          throw new Error(typeof data.message === 'string' ? data.message : '發生未知錯誤')
       }
+    }
 
+    // 讀取一條 SSE 連線，直到 server 結束或連線中斷（中斷時 reader.read() 會 throw）
+    async function readEvents(response: Response) {
       // 4. 取得 ReadableStream 讀取器
       const reader = response.body!.getReader()
       const decoder = new TextDecoder()
       let buffer = '' // 暫存不完整的行
+      let eventName = 'message' // 目前事件的名稱（來自 "event: " 行，可能跨越多個 chunk）
+      let eventId: number | null = null // 目前事件的序號（來自 "id: " 行）
 
       // 5. 迴圈讀取串流資料
       while (true) {
@@ -189,57 +358,124 @@ export default function App() {
         buffer = lines.pop() ?? '' // 最後一段可能不完整，留著下次處理
 
         for (const line of lines) {
+          // "id: <序號>" 與 "event: <name>" 行描述接下來的 data；空行代表事件結束
+          if (line.startsWith('id: ')) {
+            eventId = Number(line.slice(4))
+            continue
+          }
+          if (line.startsWith('event: ')) {
+            eventName = line.slice(7).trim()
+            continue
+          }
+          if (line === '') {
+            eventName = 'message'
+            eventId = null
+            continue
+          }
           // SSE 的資料行以 "data: " 開頭
-          if (line.startsWith('data: ')) {
-            const rawJson = line.slice(6) // 移除 "data: " 前綴
-
-            let data: Record<string, unknown>
-            try {
-              data = JSON.parse(rawJson) as Record<string, unknown>
-            } catch {
-              // 忽略非 JSON 的行（例如 "event: delta" 這樣的事件名稱行）
-              continue
-            }
-
-            // 將解析成功的事件分派到對應的處理邏輯
-            // 注意：error 事件的 throw 在這裡（不在 JSON.parse 的 try 內），
-            //       才能被外層 catch 捕捉到並顯示錯誤
-            if ('text' in data && typeof data.text === 'string') {
-              // delta 事件：把新文字附加到助手訊息
-              setMessages((prev) =>
-                prev.map((m) =>
-                  m.id === assistantId
-                    ? { ...m, content: m.content + (data.text as string) }
-                    : m
-                )
-              )
-            } else if ('cards' in data && Array.isArray(data.cards)) {
-              // cards 事件：Claude 呼叫了 show_mood_cards 工具
-              // 驗證 cards 是陣列才設定，防止 Claude 回傳非預期格式導致渲染崩潰
-              setPendingCards(data as unknown as CardEvent)
-            } else if ('breathing' in data) {
-              // meditation 事件：Claude 呼叫了 show_meditation 工具
-              setPendingMeditation(data as unknown as MeditationEvent)
-            } else if ('status' in data && data.status === 'complete') {
-              // done 事件：串流結束
-              setIsLoading(false)
-            } else if ('message' in data && typeof data.message === 'string') {
-              // error 事件：後端發生錯誤，拋出讓外層 catch 處理
-              throw new Error(data.message as string)
-            }
+          if (!line.startsWith('data: ')) continue
+
+          // 續傳時 server 從 Last-Event-ID 之後開始送；保險起見，已處理過的序號一律略過，文字不會重複
+          if (eventId !== null) {
+            if (eventId <= lastEventId) continue
+            lastEventId = eventId
           }
+
+          let data: Record<string, unknown>
+          try {
+            data = JSON.parse(line.slice(6)) as Record<string, unknown> // 移除 "data: " 前綴
+          } catch {
+            continue // 忽略非 JSON 的資料行
+          }
+          handleEvent(eventName, data)
+        }
+      }
+    }
+
+    try {
+      // 3. 發送 POST 請求到後端
+      let response: Response | null = await fetch('/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          typeof input === 'string' ? { sessionId, userId, message: input } : { sessionId, userId, interaction: input }
+        ),
+        signal: abortController.signal,
+      })
+
+      // 429：超過請求頻率或今天的用量上限，改顯示說明什麼時候可以再試
+      if (response.status === 429) {
+        const data = (await response.json().catch(() => ({}))) as Partial<RateLimitResponse>
+        if (data.crisis) setCrisis(saveCrisis(sessionId, data.crisis))
+        const retryAfter = data.retryAfter ?? Number(response.headers.get('Retry-After'))
+        const seconds = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : 60
+        throw new RateLimitError({ limit: data.limit ?? 'requests', retryAfterSeconds: seconds, retryAt: Date.now() + seconds * 1000 })
+      }
+
+      if (!response.ok) {
+        const errData = await response.json().catch(() => ({}))
+        throw new Error(
+          (errData as { error?: string }).error ?? `HTTP ${response.status}`
+        )
+      }
+
+      // 6. 連線在 done 之前中斷（網路不穩、切換 Wi-Fi…）：server 仍在繼續生成，
+      //    帶上最後收到的事件序號重新連線，補上漏掉的事件後繼續串流
+      let attempts = 0
+      while (activeStreamId.current === streamId) {
+        const before = lastEventId
+        try {
+          if (response) await readEvents(response)
+        } catch (err) {
+          // server 的 error 事件、用戶切換對話：不續傳；其餘視為網路中斷
+          if (finished || activeStreamId.current !== streamId) throw err
+        }
+        if (finished || activeStreamId.current !== streamId) break
+
+        // 有收到新事件就代表連線曾經恢復，重新計算重試次數
+        if (lastEventId > before) attempts = 0
+        if (!turnId || attempts >= MAX_RESUME_ATTEMPTS) {
+          throw new Error('連線中斷，無法接回這則回覆。重新整理頁面後，可以在對話歷史中看到完整內容。')
         }
+        attempts++
+        setReconnecting(true)
+        await new Promise((resolve) => setTimeout(resolve, RESUME_DELAY_MS * attempts))
+        if (activeStreamId.current !== streamId) break
+
+        const params = new URLSearchParams({ sessionId })
+        response = await fetch(`/api/chat/turns/${encodeURIComponent(turnId)}/events?${params}`, {
+          headers: { 'Last-Event-ID': String(lastEventId) },
+          signal: abortController.signal,
+        }).catch(() => null)
+        if (response?.status === 404) {
+          throw new Error('這則回覆已經過期，無法接回。重新整理頁面後，可以在對話歷史中看到完整內容。')
+        }
+        if (response && !response.ok) response = null
+        if (response) setReconnecting(false)
       }
     } catch (err) {
       // 只在這個串流仍是最新時才顯示錯誤，避免舊串流的錯誤覆蓋新對話
       if (activeStreamId.current === streamId) {
-        setError(err instanceof Error ? err.message : '連線發生錯誤')
+        if (err instanceof RateLimitError) setRateLimit(err.state)
+        else setError(err instanceof Error ? err.message : '連線發生錯誤')
         setIsLoading(false)
+        setToolActivity([])
+        activeTurn.current = null
         // 移除沒有收到任何內容的空白助手佔位訊息，保持訊息列表整潔
         setMessages((prev) => prev.filter(
           (m) => !(m.id === assistantId && m.content === '')
         ))
+        // 還沒收到 turn 事件：server 沒有開始這一輪（429、連線失敗），訊息與互動結果都沒有被記錄
+        // 拿掉樂觀加上的用戶訊息，把文字放回輸入框、還原 UI 工具元件，讓用戶稍後可以再送一次
+        if (!turnId) {
+          const unsent = new Set(userMsgs.map((m) => m.id))
+          setMessages((prev) => prev.filter((m) => !unsent.has(m.id)))
+          if (typeof input === 'string') setInput((current) => current || input)
+          setPendingUi(previousUi)
+        }
       }
+    } finally {
+      if (activeStreamId.current === streamId) setReconnecting(false)
     }
   }
 
@@ -258,28 +494,66 @@ export default function App() {
     sendMessage(text)
   }
 
-  // 冥想完成或提前結束後：清除冥想 UI，把結果作為訊息送出
-  function handleMeditationComplete(completed: boolean, elapsedSeconds: number) {
+  // UI 工具元件完成互動後（選了牌卡、結束冥想…）：清除元件，把結果作為工具結果送出
+  // Claude 會根據結果啟動技能協議中「互動後的回應框架」（在 SKILL.md 中定義）
+  function handleUiSubmit(interaction: Interaction) {
+    // 防止 isLoading 為 true 時的重複觸發（例如雙擊）
     if (isLoading) return
-    setPendingMeditation(null)
-    const mins = Math.floor(elapsedSeconds / 60)
-    const secs = elapsedSeconds % 60
-    const timeStr = mins > 0 ? `${mins} 分 ${secs} 秒` : `${secs} 秒`
-    if (completed) {
-      sendMessage(`我完成了冥想練習，共進行了 ${timeStr}。`)
-    } else {
-      sendMessage(`我提前結束了冥想，共進行了 ${timeStr}。`)
-    }
+    // sendMessage 內部也會 setPendingUi(null)，這裡提前清除確保視覺即時性；
+    // server 沒有接受這一輪時，sendMessage 會把元件還原
+    setPendingUi(null)
+    sendMessage(interaction)
   }
 
-  // 用戶選擇牌卡後：清除牌卡 UI，把選擇作為訊息送出
-  // Claude 會根據選擇啟動「用戶選擇後的回應框架」（在 System Prompt 中定義）
-  function handleCardSelect(card: MoodCard) {
-    // 防止 isLoading 為 true 時的重複觸發（例如雙擊）
-    if (isLoading) return
-    // sendMessage 內部也會 setPendingCards(null)，這裡提前清除確保視覺即時性
-    setPendingCards(null)
-    sendMessage(`我選擇了「${card.name}」${card.symbol}\n（${card.description}）`)
+  // ───────────────────────────────────────────────────────────────────────────
+  // 對話切換
+  //
+  // 切換時中斷進行中的串流，清空畫面上屬於舊對話的狀態，
+  // 新對話的訊息由上方的 useEffect 從 server 還原
+  // ───────────────────────────────────────────────────────────────────────────
+
+  function switchSession(nextId: string) {
+    setSidebarOpen(false)
+    if (nextId === sessionId) return
+    activeStreamId.current = ''
+    streamAbort.current?.abort()
+    cancelActiveTurn()
+    localStorage.setItem(SESSION_KEY, nextId)
+    setSessionId(nextId)
+    setMessages([])
+    setPendingUi(null)
+    setToolActivity([])
+    setReconnecting(false)
+    setError(null)
+    setRateLimit(null)
+    setIsLoading(false)
+    setCrisis(loadCrisis(nextId))
+  }
+
+  // 中斷 fetch 之後 server 會先等一段時間讓前端續傳；切換對話時直接通知它停止
+  function cancelActiveTurn() {
+    const turn = activeTurn.current
+    activeTurn.current = null
+    if (!turn) return
+    const params = new URLSearchParams({ sessionId: turn.sessionId })
+    fetch(`/api/chat/turns/${encodeURIComponent(turn.turnId)}?${params}`, { method: 'DELETE' }).catch(() => {})
+  }
+
+  function handleNewSession() {
+    switchSession(crypto.randomUUID())
+  }
+
+  async function handleDeleteSession(id: string) {
+    if (!window.confirm('確定要刪除這段對話嗎？（長期記憶不會被刪除）')) return
+    const params = new URLSearchParams({ userId })
+    const response = await fetch(`/api/sessions/${encodeURIComponent(id)}?${params}`, { method: 'DELETE' })
+    if (!response.ok && response.status !== 404) {
+      setError('刪除對話失敗，請稍後再試')
+      return
+    }
+    localStorage.removeItem(crisisStorageKey(id))
+    setSessions((prev) => prev.filter((s) => s.sessionId !== id))
+    if (id === sessionId) handleNewSession()
   }
 
   // ───────────────────────────────────────────────────────────────────────────
@@ -294,93 +568,143 @@ export default function App() {
     messages[messages.length - 1].content === ''
 
   return (
-    <div className="flex flex-col h-screen bg-slate-50">
-      {/* ── 頂部標題列 ── */}
-      <header className="bg-white border-b border-slate-200 px-4 py-3 flex items-center gap-3 shadow-sm flex-shrink-0">
-        <div className="w-9 h-9 rounded-full bg-teal-500 flex items-center justify-center text-white font-bold text-lg select-none">
-          心
-        </div>
-        <div>
-          <h1 className="font-semibold text-slate-800 text-sm">心理諮詢助手</h1>
-          <p className="text-xs text-slate-500">Psychological Counseling Assistant</p>
-        </div>
-        {/* 顯示部分 session ID，方便 debug */}
-        <span className="ml-auto text-xs text-slate-400 font-mono hidden sm:block">
-          Session: {sessionId.slice(0, 8)}…
-        </span>
-      </header>
-
-      {/* ── 訊息區域 ── */}
-      <main className="flex-1 overflow-y-auto px-4 py-6 space-y-4 max-w-3xl w-full mx-auto">
-        {messages.length === 0 && !isLoading && <WelcomeScreen />}
-
-        {messages.map((msg) =>
-          // 跳過空白的佔位訊息（等待中的助手訊息，用 ThinkingIndicator 代替）
-          msg.role === 'assistant' && msg.content === '' ? null : (
-            <MessageBubble key={msg.id} message={msg} />
-          )
-        )}
-
-        {isWaitingForResponse && <ThinkingIndicator />}
-
-        {/* 牌卡選擇 UI：Claude 呼叫 show_mood_cards 後顯示 */}
-        {pendingCards && (
-          <CardSelection
-            event={pendingCards}
-            onSelect={handleCardSelect}
-            disabled={isLoading}
-          />
-        )}
-
-        {/* 冥想引導 UI：Claude 呼叫 show_meditation 後顯示 */}
-        {pendingMeditation && (
-          <MeditationGuide
-            event={pendingMeditation}
-            onComplete={handleMeditationComplete}
-          />
-        )}
-
-        {error && (
-          <ErrorBanner message={error} onDismiss={() => setError(null)} />
-        )}
-
-        {/* 錨點：用來自動捲動到底部 */}
-        <div ref={messagesEndRef} />
-      </main>
-
-      {/* ── 底部輸入區 ── */}
-      <footer className="bg-white border-t border-slate-200 px-4 py-3 flex-shrink-0">
-        <div className="flex gap-2 items-end max-w-3xl mx-auto">
-          <textarea
-            ref={textareaRef}
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="分享你的感受... / Share how you're feeling..."
-            rows={1}
-            disabled={isLoading}
-            className="flex-1 resize-none rounded-xl border border-slate-300 px-4 py-3 text-sm
-                       focus:outline-none focus:ring-2 focus:ring-teal-400 focus:border-transparent
-                       placeholder:text-slate-400 max-h-40 overflow-y-auto
-                       disabled:bg-slate-50 disabled:text-slate-400"
-          />
+    <div className="flex h-screen bg-slate-50">
+      {/* ── 對話歷史側邊欄 ── */}
+      <SessionSidebar
+        sessions={sessions}
+        activeSessionId={sessionId}
+        open={sidebarOpen}
+        onSelect={switchSession}
+        onNew={handleNewSession}
+        onDelete={handleDeleteSession}
+        onClose={() => setSidebarOpen(false)}
+      />
+
+      <div className="flex flex-col flex-1 min-w-0">
+        {/* ── 頂部標題列 ── */}
+        <header className="bg-white border-b border-slate-200 px-4 py-3 flex items-center gap-3 shadow-sm flex-shrink-0">
+          {/* 手機版：開啟對話歷史側邊欄 */}
+          <button
+            type="button"
+            onClick={() => setSidebarOpen(true)}
+            className="md:hidden text-slate-500 hover:text-slate-700 text-lg leading-none px-1"
+            aria-label="開啟對話歷史"
+          >
+            ☰
+          </button>
+          <div className="w-9 h-9 rounded-full bg-teal-500 flex items-center justify-center text-white font-bold text-lg select-none">
+            心
+          </div>
+          <div>
+            <h1 className="font-semibold text-slate-800 text-sm">心理諮詢助手</h1>
+            <p className="text-xs text-slate-500">Psychological Counseling Assistant</p>
+          </div>
+          {/* 顯示部分 session ID，方便 debug */}
+          <span className="ml-auto text-xs text-slate-400 font-mono hidden sm:block">
+            Session: {sessionId.slice(0, 8)}…
+          </span>
           <button
-            onClick={handleSend}
-            disabled={isLoading || !input.trim()}
-            className="rounded-xl bg-teal-500 hover:bg-teal-600 active:bg-teal-700
-                       disabled:bg-slate-300 disabled:cursor-not-allowed
-                       text-white px-4 py-3 text-sm font-medium transition-colors
-                       focus-visible:outline focus-visible:outline-2 focus-visible:outline-teal-500
-                       whitespace-nowrap"
+            type="button"
+            onClick={() => setMoodOpen(true)}
+            className="ml-auto sm:ml-0 rounded-lg border border-slate-200 hover:bg-slate-50 text-slate-600 text-xs px-3 py-1.5"
           >
-            {isLoading ? '…' : '發送'}
+            心情趨勢
           </button>
-        </div>
-        <p className="text-xs text-center text-slate-400 mt-2">
-          此工具不能取代專業心理治療。如有緊急危機，請撥打{' '}
-          <span className="font-semibold text-slate-500">1925</span>（台灣自殺防治專線）
-        </p>
-      </footer>
+          <button
+            type="button"
+            onClick={() => setMemoryOpen(true)}
+            className="rounded-lg border border-slate-200 hover:bg-slate-50 text-slate-600 text-xs px-3 py-1.5"
+          >
+            我的記憶
+          </button>
+        </header>
+
+        {/* ── 長期記憶面板：查看、編輯、刪除助手記下的內容 ── */}
+        <MemoryPanel open={memoryOpen} userId={userId} onClose={() => setMemoryOpen(false)} />
+
+        {/* ── 心情趨勢面板：每日打卡分數與選過的心情牌卡 ── */}
+        <MoodPanel open={moodOpen} userId={userId} onClose={() => setMoodOpen(false)} />
+
+        {/* ── 危機求助資源：出現後固定在訊息區上方，無法關閉 ── */}
+        {crisis && <CrisisBanner event={crisis} />}
+
+        {/* ── 訊息區域 ── */}
+        <main className="flex-1 overflow-y-auto px-4 py-6 space-y-4 max-w-3xl w-full mx-auto">
+          {/* 每日心情打卡：今天還沒打過卡時顯示在最上方 */}
+          <MoodCheckIn userId={userId} />
+
+          {/* 練習作業：對話開始時列出還沒回報的作業；換對話時重新讀取 */}
+          {messages.length === 0 && (
+            <HomeworkFollowUp
+              key={sessionId}
+              userId={userId}
+              sessionId={sessionId}
+              onCrisis={(event) => setCrisis(saveCrisis(sessionId, event))}
+            />
+          )}
+
+          {messages.length === 0 && !isLoading && <WelcomeScreen />}
+
+          {messages.map((msg, i) =>
+            // 跳過空白的佔位訊息（等待中的助手訊息，用 ThinkingIndicator 代替）
+            msg.role === 'assistant' && msg.content === '' ? null : (
+              <MessageBubble key={msg.id} message={msg} streaming={isLoading && i === messages.length - 1} />
+            )
+          )}
+
+          {(isWaitingForResponse || toolActivity.length > 0) && <ThinkingIndicator activity={toolActivity} />}
+
+          {reconnecting && (
+            <p className="text-xs text-slate-400 text-center" aria-live="polite">連線中斷，正在重新連線…</p>
+          )}
+
+          {/* UI 工具元件：Claude 呼叫 show_mood_cards、show_meditation 等工具後顯示 */}
+          {pendingUi && <PendingUiTool event={pendingUi} disabled={isLoading} onSubmit={handleUiSubmit} />}
+
+          {error && (
+            <ErrorBanner message={error} onDismiss={() => setError(null)} />
+          )}
+
+          {rateLimit && <RateLimitNotice state={rateLimit} onDismiss={() => setRateLimit(null)} />}
+
+          {/* 錨點：用來自動捲動到底部 */}
+          <div ref={messagesEndRef} />
+        </main>
+
+        {/* ── 底部輸入區 ── */}
+        <footer className="bg-white border-t border-slate-200 px-4 py-3 flex-shrink-0">
+          <div className="flex gap-2 items-end max-w-3xl mx-auto">
+            <textarea
+              ref={textareaRef}
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="分享你的感受... / Share how you're feeling..."
+              rows={1}
+              disabled={isLoading}
+              className="flex-1 resize-none rounded-xl border border-slate-300 px-4 py-3 text-sm
+                         focus:outline-none focus:ring-2 focus:ring-teal-400 focus:border-transparent
+                         placeholder:text-slate-400 max-h-40 overflow-y-auto
+                         disabled:bg-slate-50 disabled:text-slate-400"
+            />
+            <button
+              onClick={handleSend}
+              disabled={isLoading || !input.trim()}
+              className="rounded-xl bg-teal-500 hover:bg-teal-600 active:bg-teal-700
+                         disabled:bg-slate-300 disabled:cursor-not-allowed
+                         text-white px-4 py-3 text-sm font-medium transition-colors
+                         focus-visible:outline focus-visible:outline-2 focus-visible:outline-teal-500
+                         whitespace-nowrap"
+            >
+              {isLoading ? '…' : '發送'}
+            </button>
+          </div>
+          <p className="text-xs text-center text-slate-400 mt-2">
+            此工具不能取代專業心理治療。如有緊急危機，請撥打{' '}
+            <span className="font-semibold text-slate-500">1925</span>（台灣自殺防治專線）
+          </p>
+        </footer>
+      </div>
     </div>
   )
 }
@@ -389,7 +713,8 @@ export default function App() {
 // 子元件
 // ─────────────────────────────────────────────────────────────────────────────
 
-function MessageBubble({ message }: { message: Message }) {
+// 用戶訊息維持純文字；助手回覆以 Markdown 渲染，串流中的那一則會先補上未結束的標記
+function MessageBubble({ message, streaming }: { message: Message; streaming: boolean }) {
   const isUser = message.role === 'user'
   return (
     <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} items-end gap-2`}>
@@ -401,26 +726,70 @@ function MessageBubble({ message }: { message: Message }) {
       )}
       <div
         className={[
-          'max-w-[75%] rounded-2xl px-4 py-3 text-sm leading-relaxed whitespace-pre-wrap',
+          'max-w-[75%] rounded-2xl px-4 py-3 text-sm leading-relaxed break-words',
           isUser
-            ? 'bg-teal-500 text-white rounded-tr-sm'
+            ? 'bg-teal-500 text-white rounded-tr-sm whitespace-pre-wrap'
             : 'bg-white text-slate-800 shadow-sm border border-slate-100 rounded-tl-sm',
         ].join(' ')}
       >
-        {message.content}
+        {isUser ? message.content : <MarkdownMessage content={message.content} streaming={streaming} />}
+        {message.truncated && (
+          <span className="block text-xs text-slate-400 mt-1">（連線中斷，這則回覆沒有完成）</span>
+        )}
       </div>
     </div>
   )
 }
 
+// 工具狀態的顯示文字；未知的工具（例如新技能的 UI 工具）顯示通用說明
+function toolActivityLabel({ tool, summary }: ToolActivity): string {
+  if (tool === 'memory') {
+    switch (summary.command) {
+      case 'view':
+        return '正在回想之前聊過的內容'
+      case 'create':
+      case 'str_replace':
+      case 'insert':
+        return '正在記下重要的事'
+      case 'delete':
+      case 'rename':
+        return '正在整理記憶'
+      default:
+        return '正在查看記憶'
+    }
+  }
+  if (tool === 'read_mood_trends') return '正在查看你最近的心情紀錄'
+  if (tool === 'assign_homework') return '正在安排練習作業'
+  if (tool === 'review_homework') return '正在查看之前的練習作業'
+  if (tool === 'read_skill') return summary.skill ? `正在載入技能：${summary.skill}` : '正在載入技能'
+  if (Object.hasOwn(UI_TOOL_REGISTRY, tool)) return '正在準備互動練習'
+  return '正在處理'
+}
+
 // 三個跳動的點，表示 Claude 正在思考或呼叫工具
-function ThinkingIndicator() {
+// activity：這一輪用過的工具，進行中的顯示「…」，結束的打勾
+function ThinkingIndicator({ activity }: { activity: ToolActivity[] }) {
   return (
     <div className="flex items-end gap-2">
       <div className="w-7 h-7 rounded-full bg-teal-100 flex items-center justify-center text-teal-600 text-xs flex-shrink-0 select-none">
         心
       </div>
       <div className="bg-white border border-slate-100 shadow-sm rounded-2xl rounded-tl-sm px-4 py-3">
+        {activity.length > 0 && (
+          <ul className="mb-2 space-y-1 text-xs text-slate-500" aria-live="polite">
+            {activity.map((a) => (
+              <li key={a.id} className="flex items-center gap-1.5">
+                <span className={a.ok === false ? 'text-slate-300' : 'text-teal-500'}>
+                  {a.ok === undefined ? '•' : a.ok ? '✓' : '–'}
+                </span>
+                <span>
+                  {toolActivityLabel(a)}
+                  {a.ok === undefined && '…'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
         <div className="flex gap-1 items-center h-4">
           <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce [animation-delay:-0.3s]" />
           <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce [animation-delay:-0.15s]" />
@@ -463,211 +832,97 @@ function WelcomeScreen() {
   )
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// 心情覺察牌卡選擇元件
-//
-// 學習重點：
-// - inline style 用於動態 CSS（不能用 Tailwind 動態 class）
-// - disabled prop 讓牌卡在 loading 時不可點選
-// - 點選後呼叫 onSelect，由父元件清除 pendingCards 並送出訊息
-// ─────────────────────────────────────────────────────────────────────────────
-
-function CardSelection({
+// 依工具名稱從 registry 取出元件渲染
+// key 用工具名稱，切換到不同工具時重新建立元件（例如重置冥想計時器）
+// payload 格式不對時不渲染元件（元件會拿裡面的數字做計算），改成提示用戶直接輸入
+function PendingUiTool({
   event,
-  onSelect,
   disabled,
+  onSubmit,
 }: {
-  event: CardEvent
-  onSelect: (card: MoodCard) => void
+  event: UiEvent
   disabled: boolean
+  onSubmit: (interaction: Interaction) => void
 }) {
-  return (
-    <div className="my-4">
-      {/* Claude 的邀請語 */}
-      <div className="flex items-end gap-2 mb-4">
-        <div className="w-7 h-7 rounded-full bg-teal-100 flex items-center justify-center text-teal-600 text-xs flex-shrink-0 select-none">
-          心
-        </div>
-        <div className="bg-white border border-slate-100 shadow-sm rounded-2xl rounded-tl-sm px-4 py-3 text-sm text-slate-800 leading-relaxed">
-          {event.prompt}
-        </div>
-      </div>
+  if (!Object.hasOwn(UI_TOOL_REGISTRY, event.tool)) return null
+  const element = UI_TOOL_REGISTRY[event.tool].render(event.payload, { disabled, onSubmit })
+  if (!element) {
+    console.warn(`${event.tool} 的 payload 格式不正確，略過渲染:`, event.payload)
+    return (
+      <p className="text-xs text-slate-400 text-center my-4">
+        這個練習的內容不完整，暫時無法顯示。你可以直接輸入訊息繼續對話。
+      </p>
+    )
+  }
+  return <Fragment key={event.tool}>{element}</Fragment>
+}
 
-      {/* 牌卡格狀排列 */}
-      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 ml-9">
-        {event.cards.map((card) => (
-          <button
-            key={card.id}
-            type="button"
-            onClick={() => !disabled && onSelect(card)}
-            disabled={disabled}
-            className={[
-              'rounded-2xl p-4 text-white text-left transition-all duration-200 shadow-md',
-              disabled
-                ? 'opacity-60 cursor-not-allowed'
-                : 'hover:scale-105 hover:shadow-xl active:scale-95 cursor-pointer',
-            ].join(' ')}
-            style={{ background: GRADIENTS[card.color_theme] ?? GRADIENTS.ocean }}
-          >
-            {/* 大 Emoji 符號 */}
-            <div className="text-3xl mb-2 leading-none">{card.symbol}</div>
-            {/* 中文名稱 */}
-            <div className="font-bold text-sm leading-tight">{card.name}</div>
-            {/* 英文名稱 */}
-            <div className="text-xs opacity-80 mt-0.5">{card.english_name}</div>
-            {/* 描述（小字，限兩行）*/}
-            <div className="text-xs opacity-75 mt-2 leading-snug line-clamp-2">
-              {card.description}
-            </div>
-          </button>
-        ))}
+// 危機求助資源橫幅
+// 刻意不提供關閉按鈕：一旦偵測到危機訊號，專線資訊在這個對話中必須一直看得到
+function CrisisBanner({ event }: { event: CrisisEvent }) {
+  return (
+    <section
+      role="alert"
+      aria-label="危機求助資源"
+      className="bg-rose-50 border-b border-rose-200 px-4 py-3 flex-shrink-0"
+    >
+      <div className="max-w-3xl mx-auto">
+        <p className="text-rose-800 text-sm font-semibold">
+          你並不孤單。如果你正處於危險之中，請立即聯絡以下資源：
+        </p>
+        <p className="text-rose-600 text-xs mt-0.5">
+          You are not alone. If you are in danger, please reach out now:
+        </p>
+        <ul className="mt-2 flex flex-wrap gap-2">
+          {event.resources.map((r) => (
+            <li key={r.name}>
+              <a
+                href={r.href}
+                target={r.href?.startsWith('http') ? '_blank' : undefined}
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1.5 bg-white border border-rose-200 rounded-full px-3 py-1 text-xs text-rose-700 hover:bg-rose-100"
+              >
+                <span>{r.name}</span>
+                <span className="font-semibold">{r.contact}</span>
+              </a>
+            </li>
+          ))}
+        </ul>
       </div>
-    </div>
+    </section>
   )
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// 冥想引導元件
-//
-// 設計：
-// - useEffect 每秒遞增 elapsed，到達 totalSeconds 時標記 isDone
-// - 從 elapsed % cycleDuration 即時推導呼吸階段與 scale（1.0 ~ 1.5）
-// - 呼吸圓用 transform: scale() + transition 1s 實現平滑動畫
-// - 完成時顯示「繼續對話」；進行中顯示「提前結束」
-// ─────────────────────────────────────────────────────────────────────────────
-
-function MeditationGuide({
-  event,
-  onComplete,
-}: {
-  event: MeditationEvent
-  onComplete: (completed: boolean, elapsedSeconds: number) => void
-}) {
-  const [elapsed, setElapsed] = useState(0)
-  const [isDone, setIsDone] = useState(false)
-
-  const totalSeconds = event.duration_minutes * 60
-  const { inhale_seconds, hold_seconds, exhale_seconds, rest_seconds } = event.breathing
-  const cycleDuration = inhale_seconds + hold_seconds + exhale_seconds + rest_seconds
-
-  // 每秒遞增計時器
-  useEffect(() => {
-    if (isDone) return
-    const id = setInterval(() => {
-      setElapsed((e) => {
-        const next = e + 1
-        if (next >= totalSeconds) {
-          setIsDone(true)
-          return totalSeconds
-        }
-        return next
-      })
-    }, 1000)
-    return () => clearInterval(id)
-  }, [isDone, totalSeconds])
-
-  // 從當前時間推導呼吸階段
-  const phaseElapsed = elapsed % cycleDuration
-
-  let phase: string
-  let scale: number
-  let phaseRemaining: number
-
-  if (phaseElapsed < inhale_seconds) {
-    phase = '吸氣'
-    const progress = phaseElapsed / inhale_seconds
-    scale = 1.0 + 0.5 * progress
-    phaseRemaining = inhale_seconds - phaseElapsed
-  } else if (phaseElapsed < inhale_seconds + hold_seconds) {
-    phase = '屏氣'
-    scale = 1.5
-    phaseRemaining = inhale_seconds + hold_seconds - phaseElapsed
-  } else if (phaseElapsed < inhale_seconds + hold_seconds + exhale_seconds) {
-    phase = '呼氣'
-    const progress = (phaseElapsed - inhale_seconds - hold_seconds) / exhale_seconds
-    scale = 1.5 - 0.5 * progress
-    phaseRemaining = inhale_seconds + hold_seconds + exhale_seconds - phaseElapsed
-  } else {
-    phase = rest_seconds > 0 ? '休息' : '呼氣'
-    scale = 1.0
-    phaseRemaining = cycleDuration - phaseElapsed
-  }
-
-  const progressPercent = Math.min((elapsed / totalSeconds) * 100, 100)
-  const remaining = totalSeconds - elapsed
-  const remainMins = Math.floor(remaining / 60)
-  const remainSecs = remaining % 60
-
+// 超過使用上限的說明：語氣和對話一致，不用紅色的錯誤提示
+// 請求太頻繁通常等幾十秒就好；今天的用量已滿要等到隔天，同時提醒可以聯絡的專線
+function RateLimitNotice({ state, onDismiss }: { state: RateLimitState; onDismiss: () => void }) {
+  const until = new Date(state.retryAt).toLocaleString('zh-TW', {
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
   return (
-    <div className="my-4 ml-9 flex flex-col items-center bg-gradient-to-b from-slate-50 to-white rounded-3xl border border-slate-100 shadow-lg px-8 py-8">
-      {/* 標題與引導語 */}
-      <h3 className="text-slate-700 font-semibold text-base mb-1">{event.title}</h3>
-      <p className="text-slate-500 text-sm text-center mb-8 max-w-xs leading-relaxed">
-        {event.guidance}
-      </p>
-
-      {/* 呼吸動畫圓 — 固定大小容器，圓圈用 transform scale 縮放 */}
-      <div className="relative flex items-center justify-center mb-8" style={{ width: 200, height: 200 }}>
-        {/* 外圈光暈 */}
-        <div
-          className="absolute rounded-full bg-teal-100"
-          style={{
-            width: 160,
-            height: 160,
-            transform: `scale(${scale})`,
-            transition: 'transform 1s ease-in-out',
-            opacity: 0.35,
-          }}
-        />
-        {/* 主圓：顯示階段和倒數 */}
-        <div
-          className="relative z-10 flex flex-col items-center justify-center rounded-full text-white shadow-md"
-          style={{
-            width: 120,
-            height: 120,
-            background: 'linear-gradient(135deg, #2dd4bf, #0891b2)',
-            transform: `scale(${scale})`,
-            transition: 'transform 1s ease-in-out',
-          }}
-        >
-          <span className="text-3xl font-bold leading-none">{Math.ceil(phaseRemaining)}</span>
-          <span className="text-sm mt-1 opacity-90">{isDone ? '完成' : phase}</span>
-        </div>
-      </div>
-
-      {/* 進度條 */}
-      <div className="w-full max-w-xs bg-slate-100 rounded-full h-1.5 mb-2">
-        <div
-          className="bg-teal-400 h-1.5 rounded-full transition-all duration-1000"
-          style={{ width: `${progressPercent}%` }}
-        />
-      </div>
-
-      {/* 剩餘時間 */}
-      <p className="text-xs text-slate-400 mb-6">
-        {isDone
-          ? '✨ 冥想完成'
-          : `剩餘 ${remainMins}:${String(remainSecs).padStart(2, '0')}`}
-      </p>
-
-      {/* 操作按鈕 */}
-      {isDone ? (
-        <button
-          type="button"
-          onClick={() => onComplete(true, elapsed)}
-          className="bg-teal-500 hover:bg-teal-600 active:bg-teal-700 text-white rounded-xl px-6 py-2.5 text-sm font-medium transition-colors"
-        >
-          繼續對話
-        </button>
+    <div
+      role="status"
+      className="bg-amber-50 border border-amber-200 rounded-xl px-4 py-3 flex items-start justify-between gap-3"
+    >
+      {state.limit === 'requests' ? (
+        <p className="text-amber-800 text-sm leading-relaxed">
+          訊息傳得有點快，我們先停下來喘口氣。大約 {state.retryAfterSeconds} 秒後就可以繼續傳送。
+        </p>
       ) : (
-        <button
-          type="button"
-          onClick={() => onComplete(false, elapsed)}
-          className="text-slate-400 hover:text-slate-600 text-xs transition-colors"
-        >
-          提前結束冥想
-        </button>
+        <p className="text-amber-800 text-sm leading-relaxed">
+          今天的對話已經達到使用上限，{until} 之後就可以繼續聊。
+          如果你現在需要有人陪伴，可以撥打 <a href="tel:1925" className="underline">1925</a>（台灣自殺防治專線）。
+        </p>
       )}
+      <button
+        onClick={onDismiss}
+        className="text-amber-500 hover:text-amber-700 text-xs flex-shrink-0 mt-0.5"
+      >
+        關閉
+      </button>
     </div>
   )
 }
@@ -0,0 +1,83 @@
+/**
+ * CardSelection.tsx — 心情覺察牌卡（show_mood_cards UI 工具）
+ */
+
+import type { CardEvent, MoodCard, UiToolProps } from '../types'
+
+// 牌卡色彩主題 → CSS gradient
+// 用 inline style 而非 Tailwind 動態 class，因為 Tailwind JIT 無法處理動態 class 名稱
+const GRADIENTS: Record<string, string> = {
+  ocean:    'linear-gradient(135deg, #60a5fa, #22d3ee)',
+  sunrise:  'linear-gradient(135deg, #fb923c, #f472b6)',
+  forest:   'linear-gradient(135deg, #4ade80, #059669)',
+  sunshine: 'linear-gradient(135deg, #fbbf24, #f97316)',
+  blossom:  'linear-gradient(135deg, #f472b6, #c084fc)',
+  mountain: 'linear-gradient(135deg, #94a3b8, #60a5fa)',
+  lavender: 'linear-gradient(135deg, #c084fc, #818cf8)',
+  moonlight:'linear-gradient(135deg, #6366f1, #7c3aed)',
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 心情覺察牌卡選擇元件
+//
+// 學習重點：
+// - inline style 用於動態 CSS（不能用 Tailwind 動態 class）
+// - disabled prop 讓牌卡在 loading 時不可點選
+// - 點選後只把牌卡 id 交給 onSubmit，由父元件清除 UI 並送出；顯示的文字由 server 產生
+// ─────────────────────────────────────────────────────────────────────────────
+
+export default function CardSelection({
+  payload: event,
+  disabled,
+  onSubmit,
+}: UiToolProps<CardEvent>) {
+  // 用戶選擇牌卡後：把選擇作為 show_mood_cards 的工具結果送出
+  // server 確認這張牌卡確實有提供過，Claude 再根據選擇啟動「用戶選擇後的回應框架」（在 SKILL.md 中定義）
+  function onSelect(card: MoodCard) {
+    onSubmit({ type: 'card_selection', cardId: card.id })
+  }
+
+  return (
+    <div className="my-4">
+      {/* Claude 的邀請語 */}
+      <div className="flex items-end gap-2 mb-4">
+        <div className="w-7 h-7 rounded-full bg-teal-100 flex items-center justify-center text-teal-600 text-xs flex-shrink-0 select-none">
+          心
+        </div>
+        <div className="bg-white border border-slate-100 shadow-sm rounded-2xl rounded-tl-sm px-4 py-3 text-sm text-slate-800 leading-relaxed">
+          {event.prompt}
+        </div>
+      </div>
+
+      {/* 牌卡格狀排列 */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 ml-9">
+        {event.cards.map((card) => (
+          <button
+            key={card.id}
+            type="button"
+            onClick={() => !disabled && onSelect(card)}
+            disabled={disabled}
+            className={[
+              'rounded-2xl p-4 text-white text-left transition-all duration-200 shadow-md',
+              disabled
+                ? 'opacity-60 cursor-not-allowed'
+                : 'hover:scale-105 hover:shadow-xl active:scale-95 cursor-pointer',
+            ].join(' ')}
+            style={{ background: GRADIENTS[card.color_theme] ?? GRADIENTS.ocean }}
+          >
+            {/* 大 Emoji 符號 */}
+            <div className="text-3xl mb-2 leading-none">{card.symbol}</div>
+            {/* 中文名稱 */}
+            <div className="font-bold text-sm leading-tight">{card.name}</div>
+            {/* 英文名稱 */}
+            <div className="text-xs opacity-80 mt-0.5">{card.english_name}</div>
+            {/* 描述（小字，限兩行）*/}
+            <div className="text-xs opacity-75 mt-2 leading-snug line-clamp-2">
+              {card.description}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+/**
+ * HomeworkFollowUp.tsx — 練習作業回報
+ *
+ * 開新對話時，在對話上方列出助手之前佈置、還沒回報的作業（GET /api/homework?status=open）。
+ * 用戶可以標記「完成了」或「這次跳過」並留一句話（PATCH /api/homework/:id），
+ * 助手之後會透過 review_homework 工具看到這些回報並追問。
+ * 留言和聊天訊息一樣會經過 server 的危機篩檢，命中時由 onCrisis 交給 App 顯示求助資源橫幅。
+ */
+
+import { useEffect, useState } from 'react'
+import { localDateKey } from '../mood'
+import type { CrisisEvent, HomeworkAssignment } from '../types'
+
+type Outcome = 'done' | 'skipped'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// API（server/routes/homework.ts）
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function requestJson<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, init)
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string }
+  if (!response.ok) throw new Error(data.error ?? `請求失敗（${response.status}）`)
+  return data
+}
+
+async function fetchOpenHomework(userId: string): Promise<HomeworkAssignment[]> {
+  const params = new URLSearchParams({ userId, status: 'open' })
+  const data = await requestJson<{ assignments: HomeworkAssignment[] }>(`/api/homework?${params}`)
+  return data.assignments
+}
+
+async function closeHomework(
+  userId: string,
+  sessionId: string,
+  id: string,
+  status: Outcome,
+  note: string
+): Promise<{ assignment: HomeworkAssignment; crisis?: CrisisEvent }> {
+  return requestJson(`/api/homework/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, sessionId, status, ...(note.trim() ? { note: note.trim() } : {}) }),
+  })
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 單份作業：先選「完成了 / 這次跳過」，再留一句話送出
+// ─────────────────────────────────────────────────────────────────────────────
+
+function AssignmentItem({
+  assignment,
+  today,
+  onClose,
+}: {
+  assignment: HomeworkAssignment
+  today: string
+  onClose: (status: Outcome, note: string) => Promise<void>
+}) {
+  const [outcome, setOutcome] = useState<Outcome | null>(null)
+  const [note, setNote] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const overdue = assignment.dueDate < today
+
+  async function submit() {
+    if (!outcome) return
+    setSaving(true)
+    try {
+      await onClose(outcome, note)
+    } catch (err) {
+      setSaving(false)
+      setError(err instanceof Error ? err.message : '回報失敗，請稍後再試')
+    }
+  }
+
+  return (
+    <li className="rounded-xl border border-slate-100 px-3 py-2.5">
+      <div className="flex items-baseline gap-2">
+        <p className="text-sm text-slate-700 font-medium">{assignment.title}</p>
+        <span className={['ml-auto text-[11px] shrink-0', overdue ? 'text-amber-600' : 'text-slate-400'].join(' ')}>
+          {overdue ? '已過期限' : '期限'} {assignment.dueDate.slice(5).replace('-', '/')}
+        </span>
+      </div>
+      <p className="text-xs text-slate-500 mt-1 whitespace-pre-wrap">{assignment.instructions}</p>
+      <div className="flex gap-1.5 mt-2" role="radiogroup" aria-label={`「${assignment.title}」的結果`}>
+        {(
+          [
+            ['done', '完成了'],
+            ['skipped', '這次跳過'],
+          ] as const
+        ).map(([value, label]) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={outcome === value}
+            onClick={() => setOutcome(value)}
+            className={[
+              'rounded-lg border px-3 py-1 text-xs transition-colors',
+              outcome === value ? 'border-teal-400 bg-teal-50 text-teal-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50',
+            ].join(' ')}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {outcome && (
+        <div className="flex gap-2 mt-2">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={500}
+            placeholder={outcome === 'done' ? '做完有什麼發現嗎？（選填）' : '是什麼讓這次不太容易做到？（選填）'}
+            className="flex-1 rounded-lg border border-slate-200 px-3 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-teal-300"
+          />
+          <button
+            type="button"
+            onClick={submit}
+            disabled={saving}
+            className="rounded-lg bg-teal-500 hover:bg-teal-600 disabled:opacity-50 text-white text-xs px-3 py-1.5"
+          >
+            送出
+          </button>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </li>
+  )
+}
+
+export default function HomeworkFollowUp({
+  userId,
+  sessionId,
+  onCrisis,
+}: {
+  userId: string
+  sessionId: string
+  onCrisis: (event: CrisisEvent) => void
+}) {
+  const [assignments, setAssignments] = useState<HomeworkAssignment[] | null>(null)
+  const [reported, setReported] = useState(0)
+  const [today] = useState(() => localDateKey(new Date()))
+
+  useEffect(() => {
+    let cancelled = false
+    fetchOpenHomework(userId)
+      .then((open) => {
+        if (!cancelled) setAssignments(open)
+      })
+      .catch(() => {
+        // 讀不到作業就不打擾用戶
+        if (!cancelled) setAssignments([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  async function handleClose(id: string, status: Outcome, note: string) {
+    const { crisis } = await closeHomework(userId, sessionId, id, status, note)
+    if (crisis) onCrisis(crisis)
+    setAssignments((prev) => prev?.filter((a) => a.id !== id) ?? null)
+    setReported((n) => n + 1)
+  }
+
+  if (assignments === null) return null
+
+  if (assignments.length === 0) {
+    return reported > 0 ? (
+      <p className="text-xs text-teal-600 text-center" aria-live="polite">
+        謝謝你的回報，可以跟我聊聊練習的過程 🌱
+      </p>
+    ) : null
+  }
+
+  return (
+    <section aria-label="練習作業" className="bg-white border border-slate-100 shadow-sm rounded-2xl px-4 py-3">
+      <p className="text-sm text-slate-700 font-medium">上次的練習做得如何？</p>
+      <p className="text-xs text-slate-400 mb-2">不管有沒有做到都沒關係，回報之後我們可以一起聊聊</p>
+      <ul className="space-y-2">
+        {assignments.map((a) => (
+          <AssignmentItem
+            key={a.id}
+            assignment={a}
+            today={today}
+            onClose={(status, note) => handleClose(a.id, status, note)}
+          />
+        ))}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,77 @@
+/**
+ * MarkdownMessage.tsx — 助手回覆的 Markdown 渲染
+ *
+ * Claude 的回覆常用 **粗體**、條列與標題，直接顯示會變成一堆星號。
+ *
+ * 安全性：回覆內容來自模型，一律視為不可信的輸入
+ * - 不使用 rehype-raw，回覆中的 HTML 標籤只會以文字顯示，不會被瀏覽器執行
+ * - 連結經過 safeUrlTransform，javascript: 等協定會被移除；外部連結開新分頁並加上 noopener
+ * - 不載入圖片（避免回覆內容讓瀏覽器對外發出請求），只顯示替代文字
+ *
+ * 用戶訊息不經過這裡，維持純文字顯示。
+ */
+
+import ReactMarkdown, { type Components } from 'react-markdown'
+import remarkBreaks from 'remark-breaks'
+import remarkGfm from 'remark-gfm'
+import { closePartialMarkdown, remarkHotlineLinks, safeUrlTransform } from '../markdown'
+
+// 沒有安裝 @tailwindcss/typography，各元素的樣式在這裡逐一指定
+const COMPONENTS: Components = {
+  p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0">{children}</p>,
+  h1: ({ children }) => <h3 className="font-semibold text-base mt-3 mb-1 first:mt-0">{children}</h3>,
+  h2: ({ children }) => <h3 className="font-semibold text-base mt-3 mb-1 first:mt-0">{children}</h3>,
+  h3: ({ children }) => <h4 className="font-semibold mt-3 mb-1 first:mt-0">{children}</h4>,
+  h4: ({ children }) => <h4 className="font-semibold mt-3 mb-1 first:mt-0">{children}</h4>,
+  ul: ({ children }) => <ul className="list-disc pl-5 my-2 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 my-2 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-4 border-teal-200 pl-3 my-2 text-slate-600">{children}</blockquote>
+  ),
+  code: ({ children }) => <code className="rounded bg-slate-100 px-1 py-0.5 text-xs font-mono">{children}</code>,
+  pre: ({ children }) => (
+    <pre className="rounded-lg bg-slate-100 px-3 py-2 my-2 overflow-x-auto text-xs [&>code]:bg-transparent [&>code]:p-0">
+      {children}
+    </pre>
+  ),
+  hr: () => <hr className="my-3 border-slate-200" />,
+  table: ({ children }) => (
+    <div className="overflow-x-auto my-2">
+      <table className="text-xs border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border border-slate-200 px-2 py-1 bg-slate-50 text-left">{children}</th>,
+  td: ({ children }) => <td className="border border-slate-200 px-2 py-1">{children}</td>,
+  a: ({ href, children }) => {
+    // safeUrlTransform 移除的連結 href 會是空字串：只顯示文字
+    if (!href) return <span>{children}</span>
+    const external = /^https?:/i.test(href)
+    return (
+      <a
+        href={href}
+        target={external ? '_blank' : undefined}
+        rel="noopener noreferrer nofollow"
+        className={
+          href.startsWith('tel:')
+            ? 'font-semibold text-rose-700 underline decoration-rose-300 underline-offset-2'
+            : 'text-teal-700 underline decoration-teal-300 underline-offset-2 hover:text-teal-800'
+        }
+      >
+        {children}
+      </a>
+    )
+  },
+  img: ({ alt }) => (alt ? <span className="text-slate-500">[{alt}]</span> : null),
+}
+
+export default function MarkdownMessage({ content, streaming = false }: { content: string; streaming?: boolean }) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkBreaks, remarkHotlineLinks]}
+      urlTransform={safeUrlTransform}
+      components={COMPONENTS}
+    >
+      {streaming ? closePartialMarkdown(content) : content}
+    </ReactMarkdown>
+  )
+}
@@ -0,0 +1,211 @@
+/**
+ * MeditationGuide.tsx — 冥想引導（show_meditation UI 工具）
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import {
+  breathingPhase,
+  createTonePlayer,
+  elapsedMs,
+  pauseClock,
+  resolveBreathing,
+  resumeClock,
+  SOUND_KEY,
+  startClock,
+  type TonePlayer,
+} from '../meditation'
+import type { MeditationEvent, UiToolProps } from '../types'
+
+// 畫面更新頻率：只影響動畫是否流暢，時間本身以實際經過的時間計算
+const TICK_MS = 250
+
+// 用戶在系統設定中要求減少動態效果時，呼吸圓不縮放，改以文字與進度條引導
+function usePrefersReducedMotion(): boolean {
+  const [reduced, setReduced] = useState(() => window.matchMedia('(prefers-reduced-motion: reduce)').matches)
+  useEffect(() => {
+    const query = window.matchMedia('(prefers-reduced-motion: reduce)')
+    const onChange = () => setReduced(query.matches)
+    query.addEventListener('change', onChange)
+    return () => query.removeEventListener('change', onChange)
+  }, [])
+  return reduced
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 冥想引導元件
+//
+// 設計：
+// - 計時以實際經過的時間計算（見 src/meditation.ts），分頁切到背景再回來也不會變慢；
+//   暫停時時間停止，繼續後接著算
+// - 從經過的秒數即時推導呼吸階段與 scale（1.0 ~ 1.5），呼吸圓用 transform: scale() 縮放
+// - 可開啟聲音提示：每個呼吸階段開始時播放柔和的提示音，閉著眼睛也能跟著做
+// - prefers-reduced-motion 時不縮放、不做過場動畫
+// - 完成時顯示「繼續對話」；進行中顯示「暫停 / 繼續」與「提前結束」
+// ─────────────────────────────────────────────────────────────────────────────
+
+export default function MeditationGuide({
+  payload: event,
+  disabled,
+  onSubmit,
+}: UiToolProps<MeditationEvent>) {
+  const [clock, setClock] = useState(() => startClock())
+  const [now, setNow] = useState(() => Date.now())
+  const [soundOn, setSoundOn] = useState(() => localStorage.getItem(SOUND_KEY) === 'on')
+  const player = useRef<TonePlayer | null>(null)
+  const reducedMotion = usePrefersReducedMotion()
+
+  const totalSeconds = Math.round(event.duration_minutes * 60)
+  const { label: presetLabel, breathing } = resolveBreathing(event)
+  const elapsedSeconds = Math.min(elapsedMs(clock, now) / 1000, totalSeconds)
+  const isDone = elapsedSeconds >= totalSeconds
+  const paused = clock.startedAt === null
+  const { kind, label, cycle, remaining: phaseRemaining, scale } = breathingPhase(breathing, elapsedSeconds)
+
+  // 進行中時定期更新畫面（暫停或完成後停止）
+  useEffect(() => {
+    if (paused || isDone) return
+    const id = setInterval(() => setNow(Date.now()), TICK_MS)
+    return () => clearInterval(id)
+  }, [paused, isDone])
+
+  // 聲音提示：每個呼吸階段開始時、以及冥想完成時各播放一次
+  // 上次開啟過聲音時第一次播放才建立 AudioContext（用戶已經和頁面互動過，瀏覽器允許播放）
+  useEffect(() => {
+    if (!soundOn || paused || isDone) return
+    player.current ??= createTonePlayer()
+    player.current?.play(kind)
+  }, [soundOn, paused, isDone, kind, cycle])
+
+  useEffect(() => {
+    if (soundOn && isDone) player.current?.play('done')
+  }, [soundOn, isDone])
+
+  // 元件卸載時釋放 AudioContext
+  useEffect(() => () => player.current?.close(), [])
+
+  function togglePause() {
+    const at = Date.now()
+    setClock((c) => (c.startedAt === null ? resumeClock(c, at) : pauseClock(c, at)))
+    setNow(at)
+  }
+
+  // 在點擊當下建立 AudioContext，瀏覽器才一定允許播放
+  function toggleSound() {
+    const next = !soundOn
+    if (next) player.current ??= createTonePlayer()
+    setSoundOn(next)
+    localStorage.setItem(SOUND_KEY, next ? 'on' : 'off')
+  }
+
+  // 冥想完成或提前結束後：把結果作為 show_meditation 的工具結果送出（暫停的時間不算在內）
+  function onComplete(completed: boolean) {
+    if (disabled) return
+    onSubmit({
+      type: 'meditation_result',
+      completed,
+      elapsedSeconds: completed ? totalSeconds : Math.floor(elapsedSeconds),
+    })
+  }
+
+  const progressPercent = Math.min((elapsedSeconds / totalSeconds) * 100, 100)
+  const remaining = Math.ceil(totalSeconds - elapsedSeconds)
+  const remainMins = Math.floor(remaining / 60)
+  const remainSecs = remaining % 60
+  const circleScale = reducedMotion ? 1 : scale
+  const circleTransition = reducedMotion ? 'none' : `transform ${TICK_MS}ms linear`
+
+  return (
+    <div className="my-4 ml-9 flex flex-col items-center bg-gradient-to-b from-slate-50 to-white rounded-3xl border border-slate-100 shadow-lg px-8 py-8">
+      {/* 標題與引導語 */}
+      <h3 className="text-slate-700 font-semibold text-base mb-1">{event.title}</h3>
+      {presetLabel && <p className="text-teal-600 text-xs mb-2">{presetLabel}</p>}
+      <p className="text-slate-500 text-sm text-center mb-8 max-w-xs leading-relaxed">
+        {event.guidance}
+      </p>
+
+      {/* 呼吸動畫圓 — 固定大小容器，圓圈用 transform scale 縮放 */}
+      <div className="relative flex items-center justify-center mb-8" style={{ width: 200, height: 200 }}>
+        {/* 外圈光暈 */}
+        <div
+          className="absolute rounded-full bg-teal-100"
+          style={{
+            width: 160,
+            height: 160,
+            transform: `scale(${circleScale})`,
+            transition: circleTransition,
+            opacity: 0.35,
+          }}
+        />
+        {/* 主圓：顯示階段和倒數；aria-live 讓螢幕閱讀器唸出階段變化 */}
+        <div
+          className="relative z-10 flex flex-col items-center justify-center rounded-full text-white shadow-md"
+          style={{
+            width: 120,
+            height: 120,
+            background: 'linear-gradient(135deg, #2dd4bf, #0891b2)',
+            transform: `scale(${circleScale})`,
+            transition: circleTransition,
+          }}
+        >
+          <span className="text-3xl font-bold leading-none">{isDone ? '✓' : Math.ceil(phaseRemaining)}</span>
+          <span className="text-sm mt-1 opacity-90" aria-live="polite">
+            {isDone ? '完成' : paused ? '暫停中' : label}
+          </span>
+        </div>
+      </div>
+
+      {/* 進度條 */}
+      <div className="w-full max-w-xs bg-slate-100 rounded-full h-1.5 mb-2">
+        <div
+          className="bg-teal-400 h-1.5 rounded-full transition-all duration-300 motion-reduce:transition-none"
+          style={{ width: `${progressPercent}%` }}
+        />
+      </div>
+
+      {/* 剩餘時間 */}
+      <p className="text-xs text-slate-400 mb-6">
+        {isDone
+          ? '✨ 冥想完成'
+          : `剩餘 ${remainMins}:${String(remainSecs).padStart(2, '0')}`}
+      </p>
+
+      {/* 操作按鈕 */}
+      {isDone ? (
+        <button
+          type="button"
+          onClick={() => onComplete(true)}
+          className="bg-teal-500 hover:bg-teal-600 active:bg-teal-700 text-white rounded-xl px-6 py-2.5 text-sm font-medium transition-colors"
+        >
+          繼續對話
+        </button>
+      ) : (
+        <div className="flex flex-col items-center gap-3">
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={togglePause}
+              className="border border-teal-200 text-teal-700 hover:bg-teal-50 rounded-xl px-5 py-2 text-sm transition-colors"
+            >
+              {paused ? '繼續' : '暫停'}
+            </button>
+            <button
+              type="button"
+              onClick={toggleSound}
+              aria-pressed={soundOn}
+              className="border border-slate-200 text-slate-500 hover:bg-slate-50 rounded-xl px-4 py-2 text-sm transition-colors"
+            >
+              {soundOn ? '🔔 聲音提示：開' : '🔕 聲音提示：關'}
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={() => onComplete(false)}
+            className="text-slate-400 hover:text-slate-600 text-xs transition-colors"
+          >
+            提前結束冥想
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,249 @@
+/**
+ * MemoryPanel.tsx — 「你記得我什麼？」長期記憶檢視面板
+ *
+ * - 讀取 GET /api/memories，把 Claude 寫下的 XML 記憶逐條以易讀的方式列出
+ * - 每一條都可以單獨刪除；也可以切換成原文編輯整個檔案
+ * - 「忘記一切」會刪除所有長期記憶、備份與修改紀錄（對話歷史不受影響）
+ * - 記憶 API 只接受長期記憶擁有者的 userId（見 server/memory-owner.ts）
+ */
+
+import { useEffect, useState } from 'react'
+import type { MemoryEntry, MemoryFile } from '../types'
+
+// 常見記憶檔案的顯示名稱（與 System Prompt 的記憶使用指示對應）
+const FILE_LABELS: Record<string, string> = {
+  '/memories/user_profile.xml': '關於你',
+  '/memories/session_summaries.xml': '過去的對話摘要',
+  '/memories/recurring_themes.xml': '反覆出現的主題',
+}
+
+function fileLabel(path: string): string {
+  return FILE_LABELS[path] ?? path.replace(/^\/memories\//, '')
+}
+
+// 條目的小標：日期或彙整月份優先，否則顯示標籤名稱
+function entryLabel(entry: MemoryEntry): string {
+  if (entry.tag === 'digest') return `${entry.attrs.period ?? ''} 彙整`
+  if (entry.tag === '#comment') return '備註'
+  return entry.attrs.date ?? entry.tag
+}
+
+async function requestJson(input: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init)
+  if (!response.ok) {
+    const data = (await response.json().catch(() => ({}))) as { error?: string }
+    throw new Error(data.error ?? `請求失敗（${response.status}）`)
+  }
+  return response
+}
+
+// 每個請求都帶上 userId；操作單一檔案時另外帶上 path
+function memoryUrl(userId: string, route: string, memPath?: string): string {
+  const params = new URLSearchParams(memPath === undefined ? { userId } : { userId, path: memPath })
+  return `/api/memories${route}?${params}`
+}
+
+async function fetchMemories(userId: string): Promise<MemoryFile[]> {
+  const response = await requestJson(memoryUrl(userId, ''))
+  return ((await response.json()) as { files: MemoryFile[] }).files
+}
+
+export default function MemoryPanel({ open, userId, onClose }: { open: boolean; userId: string; onClose: () => void }) {
+  const [files, setFiles] = useState<MemoryFile[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<{ path: string; content: string } | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  // 每次打開面板都重新讀取，內容可能在對話中被 Claude 更新過
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    fetchMemories(userId)
+      .then((next) => {
+        if (!cancelled) setFiles(next)
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : '讀取記憶失敗')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, userId])
+
+  // 所有寫入操作共用：執行、重新載入，錯誤顯示在面板頂端
+  async function run(action: () => Promise<unknown>) {
+    setBusy(true)
+    try {
+      await action()
+      setFiles(await fetchMemories(userId))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '操作失敗')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function deleteEntry(file: MemoryFile, entry: MemoryEntry) {
+    if (!window.confirm(`確定要刪除這筆記憶嗎？\n\n${entry.text.slice(0, 80)}`)) return
+    run(() =>
+      requestJson(memoryUrl(userId, '/entries', file.path), {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ index: entry.index, text: entry.text }),
+      })
+    )
+  }
+
+  function deleteFile(file: MemoryFile) {
+    if (!window.confirm(`確定要刪除「${fileLabel(file.path)}」的全部內容嗎？`)) return
+    run(() => requestJson(memoryUrl(userId, '/file', file.path), { method: 'DELETE' }))
+  }
+
+  function saveEdit() {
+    if (!editing) return
+    const { path, content } = editing
+    run(async () => {
+      await requestJson(memoryUrl(userId, '/file', path), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content }),
+      })
+      setEditing(null)
+    })
+  }
+
+  function forgetEverything() {
+    if (!window.confirm('確定要讓助手忘記關於你的一切嗎？所有長期記憶、備份與修改紀錄都會被永久刪除，無法復原。')) return
+    run(() => requestJson(memoryUrl(userId, ''), { method: 'DELETE' }))
+  }
+
+  if (!open) return null
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/30 px-4" onClick={onClose}>
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-label="助手記得的內容"
+        className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="px-5 py-4 border-b border-slate-200 flex items-center gap-3">
+          <div>
+            <h2 className="font-semibold text-slate-800 text-sm">助手記得的內容</h2>
+            <p className="text-xs text-slate-500">這些是助手為了延續對話而記下的筆記，你可以隨時刪除或修改</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="ml-auto text-slate-400 hover:text-slate-600 text-lg leading-none px-1"
+            aria-label="關閉"
+          >
+            ✕
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-5">
+          {error && (
+            <div className="rounded-lg bg-red-50 border border-red-200 text-red-700 text-xs px-3 py-2">{error}</div>
+          )}
+          {files === null && !error && <p className="text-xs text-slate-400 text-center">讀取中…</p>}
+          {files?.length === 0 && (
+            <p className="text-sm text-slate-500 text-center py-6">助手目前沒有記下任何關於你的內容。</p>
+          )}
+
+          {files?.map((file) => (
+            <div key={file.path}>
+              <div className="flex items-center gap-2 mb-2">
+                <h3 className="text-sm font-medium text-slate-700">{fileLabel(file.path)}</h3>
+                <span className="text-xs text-slate-400">{(file.size / 1024).toFixed(1)} KB</span>
+                <div className="ml-auto flex gap-2 text-xs">
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => setEditing({ path: file.path, content: file.content })}
+                    className="text-slate-500 hover:text-teal-600 disabled:opacity-50"
+                  >
+                    編輯原文
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => deleteFile(file)}
+                    className="text-slate-500 hover:text-red-600 disabled:opacity-50"
+                  >
+                    刪除整個檔案
+                  </button>
+                </div>
+              </div>
+
+              {editing?.path === file.path ? (
+                <div className="space-y-2">
+                  <textarea
+                    value={editing.content}
+                    onChange={(e) => setEditing({ path: file.path, content: e.target.value })}
+                    rows={10}
+                    className="w-full rounded-lg border border-slate-300 px-3 py-2 text-xs font-mono
+                               focus:outline-none focus:ring-2 focus:ring-teal-400"
+                  />
+                  <div className="flex justify-end gap-2 text-xs">
+                    <button type="button" onClick={() => setEditing(null)} className="px-3 py-1.5 text-slate-500">
+                      取消
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={saveEdit}
+                      className="rounded-lg bg-teal-500 hover:bg-teal-600 disabled:bg-slate-300 text-white px-3 py-1.5"
+                    >
+                      儲存
+                    </button>
+                  </div>
+                </div>
+              ) : file.entries ? (
+                <ul className="space-y-1.5">
+                  {file.entries.map((entry) => (
+                    <li
+                      key={entry.index}
+                      className="group flex items-start gap-2 rounded-lg bg-slate-50 px-3 py-2 text-sm text-slate-700"
+                    >
+                      <span className="text-xs text-slate-400 whitespace-nowrap mt-0.5">{entryLabel(entry)}</span>
+                      <span className="flex-1 min-w-0 break-words">{entry.text || '（空白）'}</span>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => deleteEntry(file, entry)}
+                        className="text-slate-300 hover:text-red-500 text-xs opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity disabled:opacity-50"
+                        aria-label={`刪除這筆記憶：${entry.text.slice(0, 20)}`}
+                      >
+                        刪除
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                // 非 XML 或格式無法解析：直接顯示原文
+                <pre className="rounded-lg bg-slate-50 px-3 py-2 text-xs text-slate-600 whitespace-pre-wrap break-words">
+                  {file.content}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <footer className="px-5 py-3 border-t border-slate-200 flex items-center">
+          <p className="text-xs text-slate-400">刪除記憶不會影響對話歷史</p>
+          <button
+            type="button"
+            disabled={busy || !files || files.length === 0}
+            onClick={forgetEverything}
+            className="ml-auto rounded-lg border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-50 text-xs px-3 py-1.5"
+          >
+            忘記一切
+          </button>
+        </footer>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+/**
+ * MoodCheckIn.tsx — 每日心情打卡
+ *
+ * 每天第一次打開時，在對話上方詢問「今天的心情如何？」（1-5 分，可以附一句話）。
+ * 今天已經打過卡、或按了「今天先跳過」就不再顯示；紀錄存到 POST /api/mood/checkins。
+ */
+
+import { useEffect, useState } from 'react'
+import { fetchMood, hasCheckedInToday, localDateKey, MOOD_RATINGS, postCheckIn } from '../mood'
+
+// 按下「今天先跳過」的日期，當天不再詢問
+const SKIPPED_KEY = 'counselor_checkin_skipped'
+
+type Status = 'loading' | 'ask' | 'saving' | 'done' | 'hidden'
+
+export default function MoodCheckIn({ userId }: { userId: string }) {
+  const [status, setStatus] = useState<Status>(() =>
+    localStorage.getItem(SKIPPED_KEY) === localDateKey(new Date()) ? 'hidden' : 'loading'
+  )
+  const [rating, setRating] = useState<number | null>(null)
+  const [note, setNote] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  // 今天是否已經打過卡：只需要最近兩天的紀錄（時區不同時「今天」可能跨兩個 UTC 日期）
+  useEffect(() => {
+    if (status !== 'loading') return
+    let cancelled = false
+    fetchMood(userId, 2)
+      .then(({ entries }) => {
+        if (!cancelled) setStatus(hasCheckedInToday(entries) ? 'hidden' : 'ask')
+      })
+      .catch(() => {
+        // 讀不到紀錄就不打擾用戶
+        if (!cancelled) setStatus('hidden')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [userId, status])
+
+  function skip() {
+    localStorage.setItem(SKIPPED_KEY, localDateKey(new Date()))
+    setStatus('hidden')
+  }
+
+  async function submit() {
+    if (rating === null) return
+    setStatus('saving')
+    try {
+      await postCheckIn(userId, rating, note)
+      setStatus('done')
+      setError(null)
+    } catch (err) {
+      setStatus('ask')
+      setError(err instanceof Error ? err.message : '打卡失敗，請稍後再試')
+    }
+  }
+
+  if (status === 'loading' || status === 'hidden') return null
+
+  if (status === 'done') {
+    return (
+      <p className="text-xs text-teal-600 text-center" aria-live="polite">
+        已記下今天的心情，謝謝你願意停下來照顧自己 🌱
+      </p>
+    )
+  }
+
+  return (
+    <section
+      aria-label="每日心情打卡"
+      className="bg-white border border-slate-100 shadow-sm rounded-2xl px-4 py-3"
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <p className="text-sm text-slate-700 font-medium">今天的心情如何？</p>
+        <button
+          type="button"
+          onClick={skip}
+          className="ml-auto text-xs text-slate-400 hover:text-slate-600"
+        >
+          今天先跳過
+        </button>
+      </div>
+      <div className="flex gap-1.5" role="radiogroup" aria-label="心情分數">
+        {MOOD_RATINGS.map((r) => (
+          <button
+            key={r.rating}
+            type="button"
+            role="radio"
+            aria-checked={rating === r.rating}
+            onClick={() => setRating(r.rating)}
+            className={[
+              'flex-1 flex flex-col items-center rounded-xl border py-1.5 transition-colors',
+              rating === r.rating ? 'border-teal-400 bg-teal-50' : 'border-slate-200 hover:bg-slate-50',
+            ].join(' ')}
+          >
+            <span className="text-xl leading-none">{r.emoji}</span>
+            <span className="text-[10px] text-slate-500 mt-1">{r.label}</span>
+          </button>
+        ))}
+      </div>
+      {rating !== null && (
+        <div className="flex gap-2 mt-2">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={200}
+            placeholder="想多說一句嗎？（選填）"
+            className="flex-1 rounded-lg border border-slate-200 px-3 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-teal-300"
+          />
+          <button
+            type="button"
+            onClick={submit}
+            disabled={status === 'saving'}
+            className="rounded-lg bg-teal-500 hover:bg-teal-600 disabled:opacity-50 text-white text-xs px-3 py-1.5"
+          >
+            記下來
+          </button>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </section>
+  )
+}
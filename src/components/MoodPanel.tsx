@@ -0,0 +1,234 @@
+/**
+ * MoodPanel.tsx — 心情趨勢面板
+ *
+ * - 讀取 GET /api/mood，畫出每日心情打卡分數的折線圖，下方標出當天選過的心情牌卡
+ * - 列出最常出現的牌卡色彩主題與牌卡
+ * - 可切換最近 7 / 30 / 90 天
+ */
+
+import { useEffect, useState } from 'react'
+import { fetchMood, groupMoodByDay, MOOD_RATINGS, THEME_COLORS, type MoodDay } from '../mood'
+import type { MoodEntry, MoodSummary } from '../types'
+
+const RANGES = [7, 30, 90] as const
+
+// 折線圖的尺寸（SVG viewBox 座標，實際大小隨容器縮放）
+const CHART_WIDTH = 560
+const CHART_HEIGHT = 160
+const CHART_PADDING = { top: 12, right: 12, bottom: 20, left: 28 }
+
+function MoodChart({ days }: { days: MoodDay[] }) {
+  const innerWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right
+  const innerHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom
+  const x = (i: number) => CHART_PADDING.left + (days.length === 1 ? innerWidth / 2 : (i / (days.length - 1)) * innerWidth)
+  const y = (rating: number) => CHART_PADDING.top + ((5 - rating) / 4) * innerHeight
+  const points = days.flatMap((d, i) => (d.rating === null ? [] : [{ x: x(i), y: y(d.rating), day: d }]))
+  // 每隔幾天標一次日期，避免擠在一起
+  const labelEvery = Math.ceil(days.length / 7)
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={`每日心情分數，共 ${points.length} 天有打卡`}
+    >
+      {/* 格線與分數 */}
+      {MOOD_RATINGS.map((r) => (
+        <g key={r.rating}>
+          <line
+            x1={CHART_PADDING.left}
+            x2={CHART_WIDTH - CHART_PADDING.right}
+            y1={y(r.rating)}
+            y2={y(r.rating)}
+            stroke="#f1f5f9"
+          />
+          <text x={CHART_PADDING.left - 8} y={y(r.rating) + 4} textAnchor="end" fontSize="12">
+            {r.emoji}
+          </text>
+        </g>
+      ))}
+      {/* 日期 */}
+      {days.map((d, i) =>
+        i % labelEvery === 0 || i === days.length - 1 ? (
+          <text key={d.date} x={x(i)} y={CHART_HEIGHT - 4} textAnchor="middle" fontSize="10" fill="#94a3b8">
+            {d.date.slice(5).replace('-', '/')}
+          </text>
+        ) : null
+      )}
+      {/* 分數折線 */}
+      {points.length > 1 && (
+        <polyline
+          points={points.map((p) => `${p.x},${p.y}`).join(' ')}
+          fill="none"
+          stroke="#2dd4bf"
+          strokeWidth="2"
+          strokeLinejoin="round"
+        />
+      )}
+      {points.map((p) => (
+        <circle key={p.day.date} cx={p.x} cy={p.y} r="4" fill="#14b8a6">
+          <title>{`${p.day.date}：${Math.round((p.day.rating ?? 0) * 10) / 10} 分`}</title>
+        </circle>
+      ))}
+      {/* 當天選過的牌卡：以色彩主題的顏色在底部標一個點 */}
+      {days.map((d, i) =>
+        d.cards.map((entry, j) => (
+          <circle
+            key={entry.id}
+            cx={x(i)}
+            cy={CHART_HEIGHT - CHART_PADDING.bottom + 2 - j * 5}
+            r="2.5"
+            fill={THEME_COLORS[entry.card?.colorTheme ?? '']?.color ?? '#94a3b8'}
+          >
+            <title>{`${d.date}：${entry.card?.symbol ?? ''} ${entry.card?.name ?? ''}`}</title>
+          </circle>
+        ))
+      )}
+    </svg>
+  )
+}
+
+export default function MoodPanel({
+  open,
+  userId,
+  onClose,
+}: {
+  open: boolean
+  userId: string
+  onClose: () => void
+}) {
+  const [range, setRange] = useState<(typeof RANGES)[number]>(30)
+  const [data, setData] = useState<{ entries: MoodEntry[]; summary: MoodSummary; days: MoodDay[] } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // 每次打開面板或切換範圍都重新讀取（對話中可能剛選過牌卡）
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    fetchMood(userId, range)
+      .then(({ entries, summary }) => {
+        if (cancelled) return
+        setData({ entries, summary, days: groupMoodByDay(entries, range) })
+        setError(null)
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : '讀取心情紀錄失敗')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, userId, range])
+
+  if (!open) return null
+
+  const summary = data?.summary
+  const maxThemeCount = Math.max(1, ...(summary?.topThemes.map((t) => t.count) ?? []))
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-slate-900/30 px-4" onClick={onClose}>
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-label="心情趨勢"
+        className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="px-5 py-4 border-b border-slate-200 flex items-center gap-3">
+          <div>
+            <h2 className="font-semibold text-slate-800 text-sm">心情趨勢</h2>
+            <p className="text-xs text-slate-500">每日心情打卡與你選過的心情牌卡</p>
+          </div>
+          <div className="ml-auto flex gap-1" role="group" aria-label="時間範圍">
+            {RANGES.map((days) => (
+              <button
+                key={days}
+                type="button"
+                aria-pressed={range === days}
+                onClick={() => setRange(days)}
+                className={[
+                  'rounded-lg px-2.5 py-1 text-xs',
+                  range === days ? 'bg-teal-500 text-white' : 'text-slate-500 hover:bg-slate-100',
+                ].join(' ')}
+              >
+                {days} 天
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 text-lg leading-none px-1"
+            aria-label="關閉"
+          >
+            ✕
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-5">
+          {error && (
+            <div className="rounded-lg bg-red-50 border border-red-200 text-red-700 text-xs px-3 py-2">{error}</div>
+          )}
+          {!data && !error && <p className="text-xs text-slate-400 text-center">讀取中…</p>}
+          {data && data.entries.length === 0 && (
+            <p className="text-sm text-slate-500 text-center py-6">
+              這段期間還沒有心情紀錄。每天打個卡，或在對話中選一張心情牌卡，這裡就會慢慢畫出你的心情變化。
+            </p>
+          )}
+
+          {data && summary && data.entries.length > 0 && (
+            <>
+              {/* 摘要數字 */}
+              <dl className="grid grid-cols-3 gap-3 text-center">
+                <div className="rounded-xl bg-slate-50 py-3">
+                  <dt className="text-xs text-slate-500">平均心情</dt>
+                  <dd className="text-lg font-semibold text-slate-700">{summary.averageRating ?? '—'}</dd>
+                </div>
+                <div className="rounded-xl bg-slate-50 py-3">
+                  <dt className="text-xs text-slate-500">打卡次數</dt>
+                  <dd className="text-lg font-semibold text-slate-700">{summary.checkins}</dd>
+                </div>
+                <div className="rounded-xl bg-slate-50 py-3">
+                  <dt className="text-xs text-slate-500">選牌次數</dt>
+                  <dd className="text-lg font-semibold text-slate-700">{summary.cardCount}</dd>
+                </div>
+              </dl>
+
+              {/* 折線圖 */}
+              <div>
+                <h3 className="text-xs font-semibold text-slate-500 mb-2">每日心情</h3>
+                <MoodChart days={data.days} />
+              </div>
+
+              {/* 最常出現的色彩主題與牌卡 */}
+              {summary.topThemes.length > 0 && (
+                <div>
+                  <h3 className="text-xs font-semibold text-slate-500 mb-2">最常出現的牌卡色彩</h3>
+                  <ul className="space-y-1.5">
+                    {summary.topThemes.map((t) => (
+                      <li key={t.colorTheme} className="flex items-center gap-2 text-xs text-slate-600">
+                        <span className="w-14">{THEME_COLORS[t.colorTheme]?.label ?? t.colorTheme}</span>
+                        <span
+                          className="h-2.5 rounded-full"
+                          style={{
+                            width: `${(t.count / maxThemeCount) * 60}%`,
+                            background: THEME_COLORS[t.colorTheme]?.color ?? '#94a3b8',
+                          }}
+                        />
+                        <span className="text-slate-400">{t.count} 次</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-slate-500 mt-3">
+                    常選的牌卡：
+                    {summary.topCards.map((c) => `${c.symbol} ${c.name}（${c.count}）`).join('、')}
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </section>
+    </div>
+  )
+}
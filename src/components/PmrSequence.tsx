@@ -0,0 +1,220 @@
+/**
+ * PmrSequence.tsx — 漸進式肌肉放鬆引導（show_pmr_sequence UI 工具）
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import {
+  createTonePlayer,
+  elapsedMs,
+  pauseClock,
+  resumeClock,
+  SOUND_KEY,
+  startClock,
+  type TonePlayer,
+} from '../meditation'
+import { PMR_PHASE_LABELS, pmrPosition, pmrTotalSeconds } from '../pmr'
+import type { PmrEvent, UiToolProps } from '../types'
+
+// 畫面更新頻率：只影響倒數是否流暢，時間本身以實際經過的時間計算
+const TICK_MS = 250
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 漸進式肌肉放鬆元件
+//
+// 設計：
+// - 和 MeditationGuide 共用可暫停的計時器：從經過的秒數推導目前是第幾組、收緊還是放鬆
+// - 畫面顯示目前的肌肉群與動作、這一段的倒數與進度、所有肌肉群的清單，以及整體進度
+// - 聲音提示與冥想共用同一個開關：收緊時播放上揚的音，放鬆時播放下沉的音
+// - 完成時顯示「繼續對話」；進行中顯示「暫停 / 繼續」與「提前結束」
+// ─────────────────────────────────────────────────────────────────────────────
+
+export default function PmrSequence({
+  payload: event,
+  disabled,
+  onSubmit,
+}: UiToolProps<PmrEvent>) {
+  const [clock, setClock] = useState(() => startClock())
+  const [now, setNow] = useState(() => Date.now())
+  const [soundOn, setSoundOn] = useState(() => localStorage.getItem(SOUND_KEY) === 'on')
+  const player = useRef<TonePlayer | null>(null)
+
+  const { steps } = event
+  const totalSeconds = pmrTotalSeconds(steps)
+  const elapsedSeconds = Math.min(elapsedMs(clock, now) / 1000, totalSeconds)
+  const position = pmrPosition(steps, elapsedSeconds)
+  const isDone = elapsedSeconds >= totalSeconds || position === null
+  const paused = clock.startedAt === null
+  const current = position ? steps[position.index] : null
+
+  // 進行中時定期更新畫面（暫停或完成後停止）
+  useEffect(() => {
+    if (paused || isDone) return
+    const id = setInterval(() => setNow(Date.now()), TICK_MS)
+    return () => clearInterval(id)
+  }, [paused, isDone])
+
+  // 聲音提示：每一段開始時、以及練習完成時各播放一次
+  const phaseKey = position ? `${position.index}:${position.phase}` : 'done'
+  const phase = position?.phase
+  useEffect(() => {
+    if (!soundOn || paused || !phase) return
+    player.current ??= createTonePlayer()
+    player.current?.play(phase === 'tense' ? 'inhale' : 'exhale')
+  }, [soundOn, paused, phase, phaseKey])
+
+  useEffect(() => {
+    if (soundOn && isDone) player.current?.play('done')
+  }, [soundOn, isDone])
+
+  // 元件卸載時釋放 AudioContext
+  useEffect(() => () => player.current?.close(), [])
+
+  function togglePause() {
+    const at = Date.now()
+    setClock((c) => (c.startedAt === null ? resumeClock(c, at) : pauseClock(c, at)))
+    setNow(at)
+  }
+
+  // 在點擊當下建立 AudioContext，瀏覽器才一定允許播放
+  function toggleSound() {
+    const next = !soundOn
+    if (next) player.current ??= createTonePlayer()
+    setSoundOn(next)
+    localStorage.setItem(SOUND_KEY, next ? 'on' : 'off')
+  }
+
+  // 練習完成或提前結束後：把結果作為 show_pmr_sequence 的工具結果送出
+  // completedSteps 只算完整做完（收緊加放鬆）的肌肉群
+  function onComplete(completed: boolean) {
+    if (disabled) return
+    onSubmit({
+      type: 'pmr_result',
+      completed,
+      completedSteps: completed ? steps.length : (position?.index ?? steps.length),
+      elapsedSeconds: completed ? totalSeconds : Math.floor(elapsedSeconds),
+    })
+  }
+
+  const progressPercent = Math.min((elapsedSeconds / totalSeconds) * 100, 100)
+  const remaining = Math.ceil(totalSeconds - elapsedSeconds)
+  const remainMins = Math.floor(remaining / 60)
+  const remainSecs = remaining % 60
+
+  return (
+    <div className="my-4 ml-9 flex flex-col items-center bg-gradient-to-b from-slate-50 to-white rounded-3xl border border-slate-100 shadow-lg px-8 py-8">
+      {/* 標題與引導語 */}
+      <h3 className="text-slate-700 font-semibold text-base mb-1">{event.title}</h3>
+      <p className="text-slate-500 text-sm text-center mb-6 max-w-xs leading-relaxed">
+        {event.guidance}
+      </p>
+
+      {/* 目前的肌肉群與動作；aria-live 讓螢幕閱讀器唸出階段變化 */}
+      <div className="w-full max-w-xs rounded-2xl bg-white border border-slate-100 shadow-sm px-5 py-5 mb-6 text-center">
+        {current && position ? (
+          <>
+            <p className="text-xs text-slate-400 mb-1">
+              第 {position.index + 1} / {steps.length} 組
+            </p>
+            <p className="text-lg font-semibold text-slate-700">{current.muscle_group}</p>
+            <p
+              className={[
+                'text-sm font-medium mt-2',
+                position.phase === 'tense' ? 'text-amber-600' : 'text-teal-600',
+              ].join(' ')}
+              aria-live="polite"
+            >
+              {paused ? '暫停中' : PMR_PHASE_LABELS[position.phase]}
+            </p>
+            <p className="text-sm text-slate-500 mt-1 leading-relaxed">
+              {position.phase === 'tense' ? current.instruction : '完全放開，感受緊繃慢慢流走'}
+            </p>
+            <p className="text-3xl font-bold text-slate-700 mt-3 tabular-nums">{Math.ceil(position.remaining)}</p>
+            {/* 這一段的進度 */}
+            <div className="w-full bg-slate-100 rounded-full h-1 mt-3">
+              <div
+                className={[
+                  'h-1 rounded-full transition-all duration-300 motion-reduce:transition-none',
+                  position.phase === 'tense' ? 'bg-amber-400' : 'bg-teal-400',
+                ].join(' ')}
+                style={{ width: `${position.progress * 100}%` }}
+              />
+            </div>
+          </>
+        ) : (
+          <p className="text-lg font-semibold text-teal-600" aria-live="polite">✓ 完成</p>
+        )}
+      </div>
+
+      {/* 肌肉群清單：已完成、進行中、尚未開始 */}
+      <ol className="flex flex-wrap justify-center gap-1.5 mb-6 max-w-xs" aria-label="肌肉群順序">
+        {steps.map((step, i) => {
+          const done = isDone || (position !== null && i < position.index)
+          const active = !isDone && position?.index === i
+          return (
+            <li
+              key={i}
+              aria-current={active ? 'step' : undefined}
+              className={[
+                'text-xs rounded-full px-2.5 py-1',
+                active ? 'bg-teal-500 text-white' : done ? 'bg-teal-50 text-teal-600' : 'bg-slate-100 text-slate-400',
+              ].join(' ')}
+            >
+              {step.muscle_group}
+            </li>
+          )
+        })}
+      </ol>
+
+      {/* 整體進度 */}
+      <div className="w-full max-w-xs bg-slate-100 rounded-full h-1.5 mb-2">
+        <div
+          className="bg-teal-400 h-1.5 rounded-full transition-all duration-300 motion-reduce:transition-none"
+          style={{ width: `${progressPercent}%` }}
+        />
+      </div>
+      <p className="text-xs text-slate-400 mb-6">
+        {isDone
+          ? '✨ 練習完成'
+          : `剩餘 ${remainMins}:${String(remainSecs).padStart(2, '0')}`}
+      </p>
+
+      {/* 操作按鈕 */}
+      {isDone ? (
+        <button
+          type="button"
+          onClick={() => onComplete(true)}
+          className="bg-teal-500 hover:bg-teal-600 active:bg-teal-700 text-white rounded-xl px-6 py-2.5 text-sm font-medium transition-colors"
+        >
+          繼續對話
+        </button>
+      ) : (
+        <div className="flex flex-col items-center gap-3">
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={togglePause}
+              className="border border-teal-200 text-teal-700 hover:bg-teal-50 rounded-xl px-5 py-2 text-sm transition-colors"
+            >
+              {paused ? '繼續' : '暫停'}
+            </button>
+            <button
+              type="button"
+              onClick={toggleSound}
+              aria-pressed={soundOn}
+              className="border border-slate-200 text-slate-500 hover:bg-slate-50 rounded-xl px-4 py-2 text-sm transition-colors"
+            >
+              {soundOn ? '🔔 聲音提示：開' : '🔕 聲音提示：關'}
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={() => onComplete(false)}
+            className="text-slate-400 hover:text-slate-600 text-xs transition-colors"
+          >
+            提前結束練習
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
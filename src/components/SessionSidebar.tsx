@@ -0,0 +1,103 @@
+/**
+ * SessionSidebar.tsx — 對話歷史側邊欄
+ *
+ * - 列出過去的對話（GET /api/sessions），點選即切換
+ * - 「新對話」產生新的 sessionId；長期記憶仍由所有對話共用
+ * - 桌面版固定顯示；手機版由標題列的按鈕開合，以覆蓋層呈現
+ */
+
+import type { SessionSummary } from '../types'
+
+export default function SessionSidebar({
+  sessions,
+  activeSessionId,
+  open,
+  onSelect,
+  onNew,
+  onDelete,
+  onClose,
+}: {
+  sessions: SessionSummary[]
+  activeSessionId: string
+  open: boolean
+  onSelect: (sessionId: string) => void
+  onNew: () => void
+  onDelete: (sessionId: string) => void
+  onClose: () => void
+}) {
+  return (
+    <>
+      {/* 手機版：側邊欄打開時的半透明背景，點一下關閉 */}
+      {open && (
+        <div className="fixed inset-0 bg-slate-900/30 z-20 md:hidden" onClick={onClose} aria-hidden="true" />
+      )}
+
+      <aside
+        className={[
+          'bg-white border-r border-slate-200 w-64 flex-shrink-0 flex flex-col',
+          'fixed inset-y-0 left-0 z-30 transition-transform md:static md:translate-x-0',
+          open ? 'translate-x-0' : '-translate-x-full',
+        ].join(' ')}
+        aria-label="對話歷史"
+      >
+        <div className="px-3 py-3 border-b border-slate-200">
+          <button
+            type="button"
+            onClick={onNew}
+            className="w-full rounded-xl bg-teal-500 hover:bg-teal-600 active:bg-teal-700 text-white px-3 py-2 text-sm font-medium transition-colors"
+          >
+            ＋ 新對話
+          </button>
+        </div>
+
+        <nav className="flex-1 overflow-y-auto px-2 py-2 space-y-1">
+          {sessions.length === 0 && (
+            <p className="text-xs text-slate-400 text-center mt-6">還沒有過去的對話</p>
+          )}
+          {sessions.map((session) => {
+            const isActive = session.sessionId === activeSessionId
+            return (
+              <div
+                key={session.sessionId}
+                className={[
+                  'group flex items-center gap-1 rounded-lg',
+                  isActive ? 'bg-teal-50' : 'hover:bg-slate-50',
+                ].join(' ')}
+              >
+                <button
+                  type="button"
+                  onClick={() => onSelect(session.sessionId)}
+                  className="flex-1 min-w-0 text-left px-3 py-2"
+                  aria-current={isActive ? 'page' : undefined}
+                >
+                  <div className={`text-sm truncate ${isActive ? 'text-teal-700 font-medium' : 'text-slate-700'}`}>
+                    {session.title}
+                  </div>
+                  <div className="text-xs text-slate-400">{formatUpdatedAt(session.updatedAt)}</div>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(session.sessionId)}
+                  className="text-slate-300 hover:text-red-500 text-xs px-2 py-1 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  aria-label={`刪除對話：${session.title}`}
+                >
+                  刪除
+                </button>
+              </div>
+            )
+          })}
+        </nav>
+      </aside>
+    </>
+  )
+}
+
+// 今天的對話只顯示時間，其他日子顯示月/日
+function formatUpdatedAt(iso: string): string {
+  const date = new Date(iso)
+  if (Number.isNaN(date.getTime())) return ''
+  const isToday = date.toDateString() === new Date().toDateString()
+  return isToday
+    ? date.toLocaleTimeString('zh-TW', { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString('zh-TW', { month: 'numeric', day: 'numeric' })
+}
@@ -0,0 +1,304 @@
+/**
+ * ThoughtRecordForm.tsx — CBT 思維記錄表單（show_thought_record UI 工具）
+ */
+
+import { useState } from 'react'
+import type { ThoughtRecordEvent, UiToolProps } from '../types'
+
+// 認知扭曲選項：id 必須和 server/thought-records.ts 的 COGNITIVE_DISTORTIONS 一致
+const DISTORTIONS: { id: string; label: string; example: string }[] = [
+  { id: 'all_or_nothing', label: '非黑即白', example: '不是完美就是失敗' },
+  { id: 'overgeneralization', label: '以偏概全', example: '我總是、每次都' },
+  { id: 'mental_filter', label: '心理過濾', example: '只看見負面的細節' },
+  { id: 'disqualifying_positive', label: '否定正面經驗', example: '那只是運氣好' },
+  { id: 'mind_reading', label: '讀心術', example: '他一定覺得我很煩' },
+  { id: 'fortune_telling', label: '預言未來', example: '我一定會搞砸' },
+  { id: 'catastrophizing', label: '災難化', example: '完了，一切都毀了' },
+  { id: 'emotional_reasoning', label: '情緒化推理', example: '我覺得很糟，所以事情很糟' },
+  { id: 'should_statements', label: '應該思維', example: '我應該要…' },
+  { id: 'labeling', label: '貼標籤', example: '我就是個失敗者' },
+  { id: 'personalization', label: '個人化', example: '都是我的錯' },
+]
+
+const STEPS = ['情境', '自動化思考', '情緒', '認知扭曲', '證據', '平衡思考'] as const
+
+interface Draft {
+  situation: string
+  automatic_thought: string
+  emotion: string
+  intensity: number
+  distortions: string[]
+  evidence_for: string
+  evidence_against: string
+  balanced_thought: string
+  intensity_after: number
+}
+
+// 每一步需要填的欄位：全部有內容才能按「下一步」
+function stepComplete(step: number, draft: Draft): boolean {
+  switch (step) {
+    case 0: return draft.situation.trim() !== ''
+    case 1: return draft.automatic_thought.trim() !== ''
+    case 2: return draft.emotion.trim() !== ''
+    case 3: return true // 認知扭曲可以不選
+    case 4: return draft.evidence_for.trim() !== '' && draft.evidence_against.trim() !== ''
+    default: return draft.balanced_thought.trim() !== ''
+  }
+}
+
+function TextField({
+  label,
+  hint,
+  value,
+  onChange,
+}: {
+  label: string
+  hint: string
+  value: string
+  onChange: (value: string) => void
+}) {
+  return (
+    <label className="block mb-4">
+      <span className="block text-sm font-medium text-slate-700 mb-1">{label}</span>
+      <span className="block text-xs text-slate-400 mb-2">{hint}</span>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={3}
+        maxLength={2000}
+        className="w-full resize-none rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-teal-300"
+      />
+    </label>
+  )
+}
+
+function IntensitySlider({
+  label,
+  value,
+  onChange,
+}: {
+  label: string
+  value: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <label className="block mb-4">
+      <span className="flex justify-between text-sm text-slate-700 mb-2">
+        <span className="font-medium">{label}</span>
+        <span className="text-teal-600 tabular-nums">{value}</span>
+      </span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        step={5}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full accent-teal-500"
+      />
+    </label>
+  )
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 思維記錄表單元件
+//
+// 設計：
+// - 一次只顯示一個步驟，降低一次面對整張表格的壓力；可以回上一步修改
+// - Claude 從對話中整理的情境、想法、情緒會預先填好，建議的認知扭曲會標示出來
+// - 最後一步重新評估情緒強度，讓用戶看見寫下平衡思考前後的差異
+// - 完成後把整份記錄交給 onSubmit，由 server 驗證、存入長期記憶並轉成工具結果
+// ─────────────────────────────────────────────────────────────────────────────
+
+export default function ThoughtRecordForm({
+  payload: event,
+  disabled,
+  onSubmit,
+}: UiToolProps<ThoughtRecordEvent>) {
+  const [step, setStep] = useState(0)
+  const [draft, setDraft] = useState<Draft>(() => ({
+    situation: event.situation ?? '',
+    automatic_thought: event.automatic_thought ?? '',
+    emotion: event.emotion ?? '',
+    intensity: 70,
+    distortions: [],
+    evidence_for: '',
+    evidence_against: '',
+    balanced_thought: '',
+    intensity_after: 70,
+  }))
+  const suggested = new Set(event.suggested_distortions ?? [])
+  const isLastStep = step === STEPS.length - 1
+  const canContinue = stepComplete(step, draft)
+
+  function update<K extends keyof Draft>(key: K, value: Draft[K]) {
+    setDraft((d) => ({ ...d, [key]: value }))
+  }
+
+  function toggleDistortion(id: string) {
+    setDraft((d) => ({
+      ...d,
+      distortions: d.distortions.includes(id) ? d.distortions.filter((x) => x !== id) : [...d.distortions, id],
+    }))
+  }
+
+  // 完成：把整份記錄作為 show_thought_record 的工具結果送出
+  function submit() {
+    if (disabled || !canContinue) return
+    onSubmit({
+      type: 'thought_record',
+      record: {
+        situation: draft.situation.trim(),
+        automatic_thought: draft.automatic_thought.trim(),
+        emotion: draft.emotion.trim(),
+        intensity: draft.intensity,
+        distortions: draft.distortions,
+        evidence_for: draft.evidence_for.trim(),
+        evidence_against: draft.evidence_against.trim(),
+        balanced_thought: draft.balanced_thought.trim(),
+        intensity_after: draft.intensity_after,
+      },
+    })
+  }
+
+  return (
+    <div className="my-4 ml-9 bg-white rounded-3xl border border-slate-100 shadow-lg px-6 py-6">
+      {/* 引導語 */}
+      <p className="text-slate-600 text-sm leading-relaxed mb-4">{event.intro}</p>
+
+      {/* 步驟指示 */}
+      <ol className="flex gap-1 mb-5" aria-label="思維記錄步驟">
+        {STEPS.map((name, i) => (
+          <li
+            key={name}
+            aria-current={i === step ? 'step' : undefined}
+            className={[
+              'flex-1 h-1.5 rounded-full',
+              i <= step ? 'bg-teal-400' : 'bg-slate-100',
+            ].join(' ')}
+            title={name}
+          />
+        ))}
+      </ol>
+      <p className="text-xs text-slate-400 mb-3">
+        第 {step + 1} / {STEPS.length} 步・{STEPS[step]}
+      </p>
+
+      {/* 各步驟內容 */}
+      {step === 0 && (
+        <TextField
+          label="發生了什麼事？"
+          hint="只描述事實：時間、地點、誰、做了什麼"
+          value={draft.situation}
+          onChange={(v) => update('situation', v)}
+        />
+      )}
+      {step === 1 && (
+        <TextField
+          label="當下腦中閃過什麼想法？"
+          hint="寫下最刺痛的那一句，用你自己的話"
+          value={draft.automatic_thought}
+          onChange={(v) => update('automatic_thought', v)}
+        />
+      )}
+      {step === 2 && (
+        <>
+          <label className="block mb-4">
+            <span className="block text-sm font-medium text-slate-700 mb-2">你感受到什麼情緒？</span>
+            <input
+              type="text"
+              value={draft.emotion}
+              onChange={(e) => update('emotion', e.target.value)}
+              maxLength={200}
+              placeholder="例如：焦慮、羞愧、難過"
+              className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-teal-300"
+            />
+          </label>
+          <IntensitySlider label="情緒強度" value={draft.intensity} onChange={(v) => update('intensity', v)} />
+        </>
+      )}
+      {step === 3 && (
+        <div className="mb-4">
+          <p className="text-sm font-medium text-slate-700 mb-1">這個想法裡，有沒有這些思考習慣？</p>
+          <p className="text-xs text-slate-400 mb-3">可以複選，也可以都不選；「建議」是諮詢師觀察到的可能性</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {DISTORTIONS.map((d) => {
+              const selected = draft.distortions.includes(d.id)
+              return (
+                <button
+                  key={d.id}
+                  type="button"
+                  aria-pressed={selected}
+                  onClick={() => toggleDistortion(d.id)}
+                  className={[
+                    'rounded-xl border px-3 py-2 text-left transition-colors',
+                    selected ? 'border-teal-400 bg-teal-50' : 'border-slate-200 hover:bg-slate-50',
+                  ].join(' ')}
+                >
+                  <span className="flex items-center gap-2 text-sm text-slate-700">
+                    {d.label}
+                    {suggested.has(d.id) && (
+                      <span className="text-[10px] text-amber-600 bg-amber-50 rounded px-1.5 py-0.5">建議</span>
+                    )}
+                  </span>
+                  <span className="block text-xs text-slate-400 mt-0.5">「{d.example}」</span>
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      )}
+      {step === 4 && (
+        <>
+          <TextField
+            label="支持這個想法的證據"
+            hint="有哪些事實讓你相信它？"
+            value={draft.evidence_for}
+            onChange={(v) => update('evidence_for', v)}
+          />
+          <TextField
+            label="反對這個想法的證據"
+            hint="有沒有不符合這個想法的經驗？好朋友會怎麼說？"
+            value={draft.evidence_against}
+            onChange={(v) => update('evidence_against', v)}
+          />
+        </>
+      )}
+      {step === 5 && (
+        <>
+          <TextField
+            label="更平衡的想法是什麼？"
+            hint="同時考慮正反兩邊的證據，寫下一個你能接受的說法"
+            value={draft.balanced_thought}
+            onChange={(v) => update('balanced_thought', v)}
+          />
+          <IntensitySlider
+            label={`現在「${draft.emotion.trim() || '這個情緒'}」的強度`}
+            value={draft.intensity_after}
+            onChange={(v) => update('intensity_after', v)}
+          />
+        </>
+      )}
+
+      {/* 操作按鈕 */}
+      <div className="flex justify-between items-center mt-2">
+        <button
+          type="button"
+          onClick={() => setStep((s) => s - 1)}
+          disabled={step === 0}
+          className="text-slate-400 hover:text-slate-600 disabled:invisible text-sm transition-colors"
+        >
+          上一步
+        </button>
+        <button
+          type="button"
+          onClick={isLastStep ? submit : () => setStep((s) => s + 1)}
+          disabled={!canContinue || (isLastStep && disabled)}
+          className="bg-teal-500 hover:bg-teal-600 active:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-xl px-6 py-2.5 text-sm font-medium transition-colors"
+        >
+          {isLastStep ? '完成記錄' : '下一步'}
+        </button>
+      </div>
+    </div>
+  )
+}
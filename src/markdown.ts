@@ -0,0 +1,137 @@
+/**
+ * markdown.ts — 助手訊息 Markdown 渲染用的輔助函數
+ *
+ * - closePartialMarkdown：串流途中補上還沒結束的 ```、**、` 等標記，避免畫面閃爍
+ * - remarkHotlineLinks：把回覆中的求助專線號碼轉成可以直接撥打的 tel: 連結
+ * - safeUrlTransform：只放行安全的連結協定（javascript: 等一律移除）
+ *
+ * 元件本身在 src/components/MarkdownMessage.tsx
+ */
+
+import { defaultUrlTransform } from 'react-markdown'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 串流中的不完整 Markdown
+//
+// delta 是逐字送來的，「**重要」在收到結尾的 ** 之前會被當成純文字，
+// 收到後才突然變成粗體，程式碼區塊也一樣。串流期間先暫時補上結尾標記，
+// 讓畫面從第一個字開始就是最終的樣子。只處理最後一段，前面的段落已經完整。
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function closePartialMarkdown(text: string): string {
+  // 未結束的程式碼區塊：區塊內的 * 和 ` 都是字面文字，補上結尾即可
+  const fences = text.match(/^ {0,3}(```|~~~)/gm) ?? []
+  if (fences.length % 2 === 1) return `${text}\n${fences[fences.length - 1].trim()}`
+
+  const blockStart = text.lastIndexOf('\n\n') + 1
+  let tail = text.slice(blockStart)
+
+  // 未結束的行內程式碼
+  if ((tail.match(/`/g) ?? []).length % 2 === 1) {
+    return tail.endsWith('`') ? text.slice(0, -1) : `${text}\``
+  }
+
+  // 依出現順序追蹤還沒關閉的強調標記，最後由內而外關閉
+  const open: { marker: string; index: number }[] = []
+  for (const match of tail.matchAll(/`[^`]*`|\*\*|~~|\*/g)) {
+    const marker = match[0]
+    if (marker.startsWith('`')) continue
+    const index = match.index
+    const next = tail[index + marker.length] ?? ''
+    const lineStart = index === 0 || tail[index - 1] === '\n'
+    // 行首的「* 」是清單項目
+    if (marker === '*' && lineStart && next === ' ') continue
+    if (open.length > 0 && open[open.length - 1].marker === marker) {
+      open.pop()
+    } else if (next !== '' && !/\s/.test(next)) {
+      // 後面接空白的不會是開頭標記（例如「2 * 3」）
+      open.push({ marker, index })
+    } else if (next === '') {
+      // 剛收到一個標記、後面還沒有文字：先不顯示它
+      open.push({ marker, index })
+    }
+  }
+  if (open.length === 0) return text
+
+  // 最後一個標記後面還沒有內容時直接拿掉，不然會顯示成空的「****」
+  const last = open[open.length - 1]
+  if (last.index + last.marker.length === tail.length) {
+    tail = tail.slice(0, last.index)
+    open.pop()
+  }
+  const closing = open.map((o) => o.marker).reverse().join('')
+  return text.slice(0, blockStart) + tail + closing
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 求助專線 → tel: 連結
+//
+// 號碼與 server/crisis.ts 的 CRISIS_RESOURCES 及 System Prompt 的危機處理段落一致。
+// 在手機上點一下就能撥打，危急時不需要再手動輸入號碼。
+// 這些號碼也常是年份或價錢（「1980年出生」「119 元」），所以只在兩種情況轉成連結：
+//   - 號碼單獨加粗：System Prompt 的寫法（自殺防治專線 **1925**）
+//   - 同一句話裡號碼前面不遠處有「專線、熱線、撥打、電話、call」等字
+// 前後不能緊鄰數字，避免把「19250」或電話號碼的一部分誤認成專線。
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const HOTLINE_NUMBERS = ['1925', '1980', '119']
+
+// 關鍵字與號碼之間最多隔 12 個字，不能跨句；號碼後面接「年、元、歲」時不算
+const HOTLINE_PATTERN = new RegExp(
+  `(?:專線|熱線|撥打|撥|電話|call|dial)[^\\d。！？!?\\n]{0,12}?(?<![\\d-])(${HOTLINE_NUMBERS.join('|')})(?![\\d-])(?!\\s*[年元歲])`,
+  'gi'
+)
+
+// remark（mdast）節點中用到的欄位；只在這裡使用，不另外引入 @types/mdast
+interface MdNode {
+  type: string
+  value?: string
+  url?: string
+  children?: MdNode[]
+}
+
+function hotlineLink(number: string): MdNode {
+  return { type: 'link', url: `tel:${number}`, children: [{ type: 'text', value: number }] }
+}
+
+// 只有號碼本身變成連結，前面的關鍵字維持文字
+function splitHotlines(node: MdNode): MdNode[] {
+  const value = node.value ?? ''
+  const parts: MdNode[] = []
+  let cursor = 0
+  for (const match of value.matchAll(HOTLINE_PATTERN)) {
+    const number = match[1]
+    const start = match.index + match[0].length - number.length
+    if (start > cursor) parts.push({ type: 'text', value: value.slice(cursor, start) })
+    parts.push(hotlineLink(number))
+    cursor = start + number.length
+  }
+  if (parts.length === 0) return [node]
+  if (cursor < value.length) parts.push({ type: 'text', value: value.slice(cursor) })
+  return parts
+}
+
+function linkHotlines(node: MdNode): void {
+  // 已經是連結或程式碼的內容不處理
+  if (!node.children || node.type === 'link' || node.type === 'linkReference') return
+  const [only] = node.children
+  const bolded = node.type === 'strong' && node.children.length === 1 && only.type === 'text' ? only.value?.trim() : undefined
+  if (bolded && HOTLINE_NUMBERS.includes(bolded)) {
+    node.children = [hotlineLink(bolded)]
+    return
+  }
+  node.children = node.children.flatMap((child) => {
+    if (child.type === 'text') return splitHotlines(child)
+    linkHotlines(child)
+    return [child]
+  })
+}
+
+export function remarkHotlineLinks() {
+  return (tree: MdNode) => linkHotlines(tree)
+}
+
+// react-markdown 預設的 urlTransform 不允許 tel:，這裡只額外放行純號碼的 tel: 連結
+export function safeUrlTransform(url: string): string {
+  return /^tel:\+?[\d-]+$/i.test(url) ? url : defaultUrlTransform(url)
+}
@@ -0,0 +1,154 @@
+/**
+ * meditation.ts — 冥想引導的計時、呼吸節奏與聲音提示（MeditationGuide 使用；
+ *                 計時器與聲音提示也用在漸進式肌肉放鬆的 PmrSequence）
+ *
+ * 計時：以實際經過的時間（Date.now()）計算，而不是數 setInterval 觸發了幾次。
+ *   瀏覽器在分頁切到背景時會大幅降低計時器頻率，數次數的話冥想時間會被拉長；
+ *   暫停時把已經進行的時間存起來，繼續時從新的起點接著算。
+ *
+ * 呼吸節奏：show_meditation 可以直接給秒數（breathing），也可以指定預設節奏（preset），
+ *   例如方形呼吸、4-7-8 呼吸法，對應表在 BREATHING_PRESETS。
+ *
+ * 聲音提示：用 Web Audio API 即時合成柔和的提示音，不需要音檔；
+ *   閉著眼睛的用戶也能跟著吸氣、屏氣、呼氣。
+ */
+
+import type { BreathingPreset, MeditationBreathing, MeditationEvent } from './types'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 呼吸節奏
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const BREATHING_PRESETS: Record<BreathingPreset, { label: string; breathing: MeditationBreathing }> = {
+  box: { label: '方形呼吸', breathing: { inhale_seconds: 4, hold_seconds: 4, exhale_seconds: 4, rest_seconds: 4 } },
+  calming: { label: '長呼氣安撫', breathing: { inhale_seconds: 4, hold_seconds: 2, exhale_seconds: 6, rest_seconds: 2 } },
+  '4-7-8': { label: '4-7-8 呼吸法', breathing: { inhale_seconds: 4, hold_seconds: 7, exhale_seconds: 8, rest_seconds: 0 } },
+  simple: { label: '簡單呼吸', breathing: { inhale_seconds: 4, hold_seconds: 0, exhale_seconds: 4, rest_seconds: 2 } },
+}
+
+// 指定了已知的 preset 就用 preset；否則用 breathing 的秒數；兩者都沒有時用方形呼吸
+export function resolveBreathing(event: MeditationEvent): { label: string | null; breathing: MeditationBreathing } {
+  if (event.preset && Object.hasOwn(BREATHING_PRESETS, event.preset)) return BREATHING_PRESETS[event.preset]
+  if (event.breathing) return { label: null, breathing: event.breathing }
+  return BREATHING_PRESETS.box
+}
+
+export type BreathingPhaseKind = 'inhale' | 'hold' | 'exhale' | 'rest'
+
+export interface BreathingPhase {
+  kind: BreathingPhaseKind
+  label: string     // 畫面上顯示的文字
+  cycle: number     // 第幾個呼吸循環（從 0 開始），用來分辨連續兩次相同的階段
+  remaining: number // 這個階段還剩幾秒（可能有小數）
+  scale: number     // 呼吸圓的縮放：吸氣時 1.0 → 1.5，呼氣時 1.5 → 1.0
+}
+
+const PHASE_LABELS: Record<BreathingPhaseKind, string> = {
+  inhale: '吸氣',
+  hold: '屏氣',
+  exhale: '呼氣',
+  rest: '休息',
+}
+
+// 依經過的秒數（可以有小數）推導目前的呼吸階段；秒數為 0 的階段會被略過
+export function breathingPhase(breathing: MeditationBreathing, elapsedSeconds: number): BreathingPhase {
+  const phases: [BreathingPhaseKind, number][] = [
+    ['inhale', breathing.inhale_seconds],
+    ['hold', breathing.hold_seconds],
+    ['exhale', breathing.exhale_seconds],
+    ['rest', breathing.rest_seconds],
+  ]
+  // 秒數來自模型，保險起見至少 1 秒，避免除以 0
+  const cycleDuration = Math.max(1, phases.reduce((sum, [, seconds]) => sum + Math.max(0, seconds), 0))
+  const cycle = Math.floor(elapsedSeconds / cycleDuration)
+  let offset = elapsedSeconds - cycle * cycleDuration
+
+  for (const [kind, seconds] of phases) {
+    if (seconds <= 0) continue
+    if (offset < seconds || kind === 'rest') {
+      const progress = Math.min(offset / seconds, 1)
+      const scale = kind === 'inhale' ? 1 + 0.5 * progress : kind === 'hold' ? 1.5 : kind === 'exhale' ? 1.5 - 0.5 * progress : 1
+      return { kind, label: PHASE_LABELS[kind], cycle, remaining: seconds - offset, scale }
+    }
+    offset -= seconds
+  }
+  // rest 為 0 時，浮點誤差可能讓 offset 剛好落在循環末端：視為呼氣的最後一刻
+  return { kind: 'exhale', label: PHASE_LABELS.exhale, cycle, remaining: 0, scale: 1 }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 可暫停的計時器（以實際時間計算）
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface MeditationClock {
+  accumulatedMs: number     // 之前各段（暫停前）累積的時間
+  startedAt: number | null  // 目前這一段開始的時間；暫停中為 null
+}
+
+export function startClock(now = Date.now()): MeditationClock {
+  return { accumulatedMs: 0, startedAt: now }
+}
+
+export function elapsedMs(clock: MeditationClock, now = Date.now()): number {
+  return clock.accumulatedMs + (clock.startedAt === null ? 0 : Math.max(0, now - clock.startedAt))
+}
+
+export function pauseClock(clock: MeditationClock, now = Date.now()): MeditationClock {
+  return clock.startedAt === null ? clock : { accumulatedMs: elapsedMs(clock, now), startedAt: null }
+}
+
+export function resumeClock(clock: MeditationClock, now = Date.now()): MeditationClock {
+  return clock.startedAt === null ? { ...clock, startedAt: now } : clock
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 聲音提示（Web Audio API）
+//
+// 每個階段一個音高，正弦波加上緩慢淡入淡出，聽起來像頌缽而不是提示音。
+// AudioContext 必須在用戶的點擊中建立，瀏覽器才允許播放聲音（見 MeditationGuide 的開關）。
+// ─────────────────────────────────────────────────────────────────────────────
+
+// 聲音提示的開關記在 localStorage，冥想與肌肉放鬆共用，下次練習沿用
+export const SOUND_KEY = 'counselor_meditation_sound'
+
+const PHASE_TONES: Record<BreathingPhaseKind | 'done', number[]> = {
+  inhale: [392],        // G4：上揚、開始
+  hold: [440],          // A4
+  exhale: [329.63],     // E4：下沉、放鬆
+  rest: [293.66],       // D4
+  done: [392, 493.88, 587.33], // 結束時的和弦
+}
+
+export interface TonePlayer {
+  play(tone: BreathingPhaseKind | 'done'): void
+  close(): void
+}
+
+export function createTonePlayer(): TonePlayer | null {
+  const AudioContextClass =
+    window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+  if (!AudioContextClass) return null
+  const context = new AudioContextClass()
+
+  return {
+    play(tone) {
+      if (context.state === 'suspended') void context.resume()
+      const now = context.currentTime
+      for (const frequency of PHASE_TONES[tone]) {
+        const oscillator = context.createOscillator()
+        const gain = context.createGain()
+        oscillator.type = 'sine'
+        oscillator.frequency.value = frequency
+        gain.gain.setValueAtTime(0, now)
+        gain.gain.linearRampToValueAtTime(0.12, now + 0.08)
+        gain.gain.exponentialRampToValueAtTime(0.0001, now + 1.6)
+        oscillator.connect(gain).connect(context.destination)
+        oscillator.start(now)
+        oscillator.stop(now + 1.7)
+      }
+    },
+    close() {
+      void context.close()
+    },
+  }
+}
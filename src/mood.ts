@@ -0,0 +1,113 @@
+/**
+ * mood.ts — 心情紀錄的 API 呼叫與整理（MoodPanel、MoodCheckIn 使用）
+ *
+ * 紀錄依用戶分開存放在 server（見 server/mood.ts）；用戶 ID 由前端產生並存在 localStorage，
+ * 和 sessionId 一樣不需要登入。趨勢圖以用戶當地的日期分組，所以分組在前端做。
+ */
+
+import type { MoodEntry, MoodSummary } from './types'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 用戶 ID
+// ─────────────────────────────────────────────────────────────────────────────
+
+const USER_KEY = 'counselor_user_id'
+
+export function getOrCreateUserId(): string {
+  const existing = localStorage.getItem(USER_KEY)
+  if (existing) return existing
+  const id = crypto.randomUUID()
+  localStorage.setItem(USER_KEY, id)
+  return id
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// API（server/routes/mood.ts）
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function requestJson<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, init)
+  const data = (await response.json().catch(() => ({}))) as T & { error?: string }
+  if (!response.ok) throw new Error(data.error ?? `請求失敗（${response.status}）`)
+  return data
+}
+
+export function fetchMood(userId: string, days: number): Promise<{ entries: MoodEntry[]; summary: MoodSummary }> {
+  const params = new URLSearchParams({ userId, days: String(days) })
+  return requestJson(`/api/mood?${params}`)
+}
+
+export async function postCheckIn(userId: string, rating: number, note: string): Promise<MoodEntry> {
+  const data = await requestJson<{ entry: MoodEntry }>('/api/mood/checkins', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, rating, ...(note.trim() ? { note: note.trim() } : {}) }),
+  })
+  return data.entry
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 顯示用的對照表
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const MOOD_RATINGS: { rating: number; emoji: string; label: string }[] = [
+  { rating: 1, emoji: '😣', label: '很糟' },
+  { rating: 2, emoji: '😔', label: '不太好' },
+  { rating: 3, emoji: '😐', label: '普通' },
+  { rating: 4, emoji: '🙂', label: '還不錯' },
+  { rating: 5, emoji: '😄', label: '很好' },
+]
+
+// 牌卡色彩主題的代表色（趨勢圖、長條圖使用；與 CardSelection 的漸層同色系）
+export const THEME_COLORS: Record<string, { color: string; label: string }> = {
+  ocean: { color: '#60a5fa', label: '海洋' },
+  sunrise: { color: '#fb923c', label: '日出' },
+  forest: { color: '#4ade80', label: '森林' },
+  sunshine: { color: '#fbbf24', label: '陽光' },
+  blossom: { color: '#f472b6', label: '花開' },
+  mountain: { color: '#94a3b8', label: '山嵐' },
+  lavender: { color: '#c084fc', label: '薰衣草' },
+  moonlight: { color: '#6366f1', label: '月光' },
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 依當地日期分組
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function localDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export interface MoodDay {
+  date: string            // YYYY-MM-DD（當地日期）
+  rating: number | null   // 當天打卡的平均；沒有打卡為 null
+  cards: MoodEntry[]      // 當天選的牌卡
+}
+
+// 從 now 往前 days 天，每天一筆（沒有紀錄的日子也有，畫圖時才看得出間隔）
+export function groupMoodByDay(entries: MoodEntry[], days: number, now = new Date()): MoodDay[] {
+  const byDate = new Map<string, MoodEntry[]>()
+  for (const entry of entries) {
+    const key = localDateKey(new Date(entry.createdAt))
+    byDate.set(key, [...(byDate.get(key) ?? []), entry])
+  }
+  const result: MoodDay[] = []
+  for (let i = days - 1; i >= 0; i--) {
+    const date = localDateKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - i))
+    const dayEntries = byDate.get(date) ?? []
+    const ratings = dayEntries.flatMap((e) => (e.rating === undefined ? [] : [e.rating]))
+    result.push({
+      date,
+      rating: ratings.length > 0 ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null,
+      cards: dayEntries.filter((e) => e.card),
+    })
+  }
+  return result
+}
+
+export function hasCheckedInToday(entries: MoodEntry[], now = new Date()): boolean {
+  const today = localDateKey(now)
+  return entries.some((e) => e.source === 'checkin' && localDateKey(new Date(e.createdAt)) === today)
+}
@@ -0,0 +1,43 @@
+/**
+ * pmr.ts — 漸進式肌肉放鬆的步驟推導（PmrSequence 使用）
+ *
+ * 每個肌肉群依序分成「收緊」與「放鬆」兩段，秒數由 show_pmr_sequence 的 steps 決定。
+ * 計時沿用 meditation.ts 的可暫停計時器，這裡只負責從經過的秒數推導目前在哪一組、哪一段。
+ */
+
+import type { PmrStep } from './types'
+
+export type PmrPhaseKind = 'tense' | 'release'
+
+export interface PmrPosition {
+  index: number        // 目前進行到第幾組（從 0 開始）
+  phase: PmrPhaseKind
+  remaining: number    // 這一段還剩幾秒（可能有小數）
+  progress: number     // 這一段的進度 0 ~ 1
+}
+
+export const PMR_PHASE_LABELS: Record<PmrPhaseKind, string> = {
+  tense: '收緊',
+  release: '放鬆',
+}
+
+// 和 server/interactions.ts 驗證 elapsedSeconds 時的算法一致
+export function pmrTotalSeconds(steps: PmrStep[]): number {
+  return Math.round(steps.reduce((sum, s) => sum + s.tense_seconds + s.release_seconds, 0))
+}
+
+// 依經過的秒數推導目前的位置；秒數為 0 的段落會被略過，全部做完時回傳 null
+export function pmrPosition(steps: PmrStep[], elapsedSeconds: number): PmrPosition | null {
+  let offset = elapsedSeconds
+  for (const [index, step] of steps.entries()) {
+    for (const [phase, seconds] of [
+      ['tense', step.tense_seconds],
+      ['release', step.release_seconds],
+    ] as const) {
+      if (seconds <= 0) continue
+      if (offset < seconds) return { index, phase, remaining: seconds - offset, progress: offset / seconds }
+      offset -= seconds
+    }
+  }
+  return null
+}
@@ -0,0 +1,210 @@
+/**
+ * types.ts — 前端共用的 TypeScript 型別
+ *
+ * 與後端 server/counselor.ts 的型別一一對應，
+ * App.tsx 與各個 UI 工具元件都從這裡引用。
+ */
+
+export interface Message {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  timestamp: Date
+  truncated?: boolean // 回覆途中連線中斷，只保留了一部分
+}
+
+// 對話列表（對應後端 server/session-store.ts 的 SessionSummary）
+export interface SessionSummary {
+  sessionId: string
+  title: string
+  updatedAt: string
+  messageCount: number
+}
+
+// 長期記憶檢視（對應後端 server/routes/memories.ts 的 GET /api/memories）
+export interface MemoryEntry {
+  index: number
+  tag: string                   // XML 標籤名稱；註解為 '#comment'
+  attrs: Record<string, string>
+  text: string                  // 去掉標籤後的純文字
+}
+
+export interface MemoryFile {
+  path: string                  // 例如 /memories/user_profile.xml
+  size: number                  // bytes
+  content: string               // 檔案原文
+  entries: MemoryEntry[] | null // 非 XML 或無法解析時為 null
+  parseError?: string
+}
+
+// 心情紀錄（對應後端 server/mood.ts，GET /api/mood）
+export interface MoodCardChoice {
+  id: string
+  name: string
+  symbol: string
+  colorTheme: string
+}
+
+export interface MoodEntry {
+  id: string
+  createdAt: string              // ISO 時間
+  source: 'card' | 'checkin'
+  card?: MoodCardChoice          // 選心情牌卡
+  sessionId?: string
+  rating?: number                // 每日心情打卡：1（很糟）~ 5（很好）
+  note?: string
+}
+
+export interface MoodSummary {
+  days: number
+  checkins: number
+  averageRating: number | null
+  recentAverage: number | null   // 最近 7 天
+  previousAverage: number | null // 再往前 7 天
+  cardCount: number
+  topThemes: { colorTheme: string; count: number }[]
+  topCards: { name: string; symbol: string; count: number }[]
+  lastEntryAt: string | null
+}
+
+// 練習作業（對應後端 server/homework.ts，GET /api/homework）
+export type HomeworkStatus = 'open' | 'done' | 'skipped'
+
+export interface HomeworkAssignment {
+  id: string
+  title: string
+  instructions: string
+  dueDate: string                // YYYY-MM-DD
+  createdAt: string              // ISO 時間
+  sessionId: string | null       // 在哪個對話中佈置的
+  status: HomeworkStatus
+  note?: string                  // 標記完成 / 跳過時留的話
+  closedAt?: string
+}
+
+// 'ui' SSE 事件：Claude 呼叫了某個技能宣告的 UI 工具
+// tool 對應 uiToolRegistry 的 key，payload 的格式由該工具的 input_schema 決定
+export interface UiEvent {
+  tool: string
+  payload: unknown
+}
+
+// 'tool_start' / 'tool_end' SSE 事件：Claude 正在使用的工具（對應後端 ToolActivityEvent）
+// 只有工具名稱與摘要，不含記憶內容
+export interface ToolActivity {
+  id: string
+  tool: string          // memory、read_skill 或 UI 工具名稱
+  summary: {
+    command?: string    // memory 工具的指令（view、create…）
+    path?: string       // 只有常用記憶檔案才會提供
+    skill?: string      // read_skill 載入的技能名稱
+  }
+  ok?: boolean          // 工具結束後才有：是否成功
+}
+
+// UI 工具的互動結果（對應後端 server/interactions.ts 的 Interaction）
+// 只送出選擇本身，顯示在對話中的文字與給 Claude 的工具結果都由 server 產生
+export type Interaction =
+  | { type: 'card_selection'; cardId: string }
+  | { type: 'meditation_result'; completed: boolean; elapsedSeconds: number }
+  | { type: 'pmr_result'; completed: boolean; completedSteps: number; elapsedSeconds: number }
+  | { type: 'thought_record'; record: ThoughtRecord }
+
+// 所有 UI 工具元件共用的 props
+// onSubmit：用戶完成互動後，把結構化的結果送回對話
+export interface UiToolProps<P> {
+  payload: P
+  disabled: boolean
+  onSubmit: (interaction: Interaction) => void
+}
+
+// /api/chat 超過請求頻率或每日 token 上限時的 429 回應（對應後端 server/rate-limit.ts）
+export interface RateLimitResponse {
+  error: string
+  limit: 'requests' | 'tokens'
+  scope: 'session' | 'ip'
+  retryAfter: number            // 幾秒後可以再試（同 Retry-After header）
+  crisis?: CrisisEvent          // 這則訊息命中危機訊號時附上，前端照樣顯示求助資源橫幅
+}
+
+// 'crisis' SSE 事件：server 偵測到危機訊號時送出（對應後端 server/crisis.ts）
+// 求助資源由 server 決定，不依賴模型回覆內容
+export interface CrisisResource {
+  name: string
+  contact: string
+  href?: string
+}
+
+export interface CrisisEvent {
+  level: 'high' | 'possible'
+  resources: CrisisResource[]
+}
+
+// 牌卡型別（對應後端 server/counselor.ts 的 MoodCard / CardEvent）
+export interface MoodCard {
+  id: string
+  name: string         // 繁體中文，例如「平靜」
+  english_name: string // 例如「Calm」
+  symbol: string       // Emoji，例如「🌊」
+  color_theme: string  // 對應 GRADIENTS 的 key
+  description: string  // 1-2 句描述
+}
+
+export interface CardEvent {
+  prompt: string    // Claude 的邀請語
+  cards: MoodCard[]
+}
+
+// 冥想引導型別（對應後端 MeditationBreathing / MeditationEvent）
+export interface MeditationBreathing {
+  inhale_seconds: number
+  hold_seconds: number
+  exhale_seconds: number
+  rest_seconds: number
+}
+
+// 預設呼吸節奏（秒數見 src/meditation.ts 的 BREATHING_PRESETS）
+export type BreathingPreset = 'box' | 'calming' | '4-7-8' | 'simple'
+
+export interface MeditationEvent {
+  title: string
+  guidance: string
+  duration_minutes: number
+  preset?: BreathingPreset        // 與 breathing 擇一
+  breathing?: MeditationBreathing
+}
+
+// 漸進式肌肉放鬆型別（對應後端 PmrStep / PmrEvent）
+export interface PmrStep {
+  muscle_group: string
+  instruction: string
+  tense_seconds: number
+  release_seconds: number
+}
+
+export interface PmrEvent {
+  title: string
+  guidance: string
+  steps: PmrStep[]
+}
+
+// 思維記錄型別（對應後端 ThoughtRecordEvent 與 server/thought-records.ts 的 ThoughtRecord）
+export interface ThoughtRecordEvent {
+  intro: string
+  situation?: string
+  automatic_thought?: string
+  emotion?: string
+  suggested_distortions?: string[]
+}
+
+export interface ThoughtRecord {
+  situation: string
+  automatic_thought: string
+  emotion: string
+  intensity: number         // 0-100
+  distortions: string[]     // 認知扭曲 id
+  evidence_for: string
+  evidence_against: string
+  balanced_thought: string
+  intensity_after?: number  // 0-100，寫下平衡思考後重新評估
+}
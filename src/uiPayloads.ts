@@ -0,0 +1,112 @@
+/**
+ * uiPayloads.ts — UI 工具 payload 的執行期檢查
+ *
+ * 'ui' 事件的 payload 是 Claude 呼叫工具時的 input。server 送出前已經用 SKILL.md 的
+ * input_schema 檢查過（server/json-schema.ts），但前端不直接相信它：
+ * 重新整理時還原的 pendingUi 可能來自舊版 server，元件又會拿這些數字做計算
+ * （例如冥想的呼吸循環長度），格式不對時寧可不渲染。
+ *
+ * 這裡的範圍與 SKILL.md 的 input_schema 一致；修改 schema 時記得一起改。
+ * 只檢查元件渲染需要的欄位，不是完整的 JSON Schema 檢查。
+ */
+
+import type { CardEvent, MeditationBreathing, MeditationEvent, PmrEvent, PmrStep, ThoughtRecordEvent } from './types'
+import { BREATHING_PRESETS } from './meditation'
+
+// 牌卡色彩主題：與 mood-awareness-cards/SKILL.md 的 color_theme enum、CardSelection 的 GRADIENTS 一致
+const COLOR_THEMES = ['ocean', 'sunrise', 'forest', 'sunshine', 'blossom', 'mountain', 'lavender', 'moonlight']
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string'
+}
+
+function inRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+}
+
+function isOptional<T>(value: unknown, guard: (v: unknown) => v is T): boolean {
+  return value === undefined || guard(value)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 各 UI 工具的 payload
+// ─────────────────────────────────────────────────────────────────────────────
+
+// show_mood_cards：4-6 張牌卡，色彩主題必須是已知的主題，id 不能重複（選牌時用 id 對回牌卡）
+export function isCardEvent(payload: unknown): payload is CardEvent {
+  if (!isObject(payload) || !isString(payload.prompt) || !Array.isArray(payload.cards)) return false
+  if (payload.cards.length < 4 || payload.cards.length > 6) return false
+  if (new Set(payload.cards.map((card) => (isObject(card) ? card.id : undefined))).size !== payload.cards.length) return false
+  return payload.cards.every(
+    (card) =>
+      isObject(card) &&
+      isString(card.id) &&
+      isString(card.name) &&
+      isString(card.english_name) &&
+      isString(card.symbol) &&
+      isString(card.description) &&
+      COLOR_THEMES.includes(card.color_theme as string)
+  )
+}
+
+function isBreathing(value: unknown): value is MeditationBreathing {
+  return (
+    isObject(value) &&
+    inRange(value.inhale_seconds, 2, 10) &&
+    inRange(value.hold_seconds, 0, 10) &&
+    inRange(value.exhale_seconds, 2, 10) &&
+    inRange(value.rest_seconds, 0, 10)
+  )
+}
+
+// show_meditation：時長 1-30 分鐘；preset 必須是已知的節奏，breathing 的秒數在範圍內
+export function isMeditationEvent(payload: unknown): payload is MeditationEvent {
+  return (
+    isObject(payload) &&
+    isString(payload.title) &&
+    isString(payload.guidance) &&
+    inRange(payload.duration_minutes, 1, 30) &&
+    (payload.preset === undefined || (isString(payload.preset) && Object.hasOwn(BREATHING_PRESETS, payload.preset))) &&
+    isOptional(payload.breathing, isBreathing)
+  )
+}
+
+function isPmrStep(value: unknown): value is PmrStep {
+  return (
+    isObject(value) &&
+    isString(value.muscle_group) &&
+    isString(value.instruction) &&
+    inRange(value.tense_seconds, 3, 10) &&
+    inRange(value.release_seconds, 5, 30)
+  )
+}
+
+// show_pmr_sequence：3-16 組肌肉群
+export function isPmrEvent(payload: unknown): payload is PmrEvent {
+  return (
+    isObject(payload) &&
+    isString(payload.title) &&
+    isString(payload.guidance) &&
+    Array.isArray(payload.steps) &&
+    payload.steps.length >= 3 &&
+    payload.steps.length <= 16 &&
+    payload.steps.every(isPmrStep)
+  )
+}
+
+// show_thought_record：預填欄位都是選填；不認識的認知扭曲 id 只是不會被標示，不影響渲染
+export function isThoughtRecordEvent(payload: unknown): payload is ThoughtRecordEvent {
+  return (
+    isObject(payload) &&
+    isString(payload.intro) &&
+    isOptional(payload.situation, isString) &&
+    isOptional(payload.automatic_thought, isString) &&
+    isOptional(payload.emotion, isString) &&
+    (payload.suggested_distortions === undefined ||
+      (Array.isArray(payload.suggested_distortions) && payload.suggested_distortions.every(isString)))
+  )
+}
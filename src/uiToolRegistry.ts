@@ -0,0 +1,44 @@
+/**
+ * uiToolRegistry.ts — UI 工具元件 registry
+ *
+ * 後端每個技能都可以在 SKILL.md 宣告一個 UI 工具；Claude 呼叫時，
+ * 前端會收到 'ui' SSE 事件 { tool, payload }，再由這張表找到要渲染的元件，
+ * 渲染前先檢查 payload 格式（見 uiPayloads.ts）。
+ *
+ * 新增互動式技能時，只要：
+ * 1. 在 SKILL.md frontmatter 宣告 ui_tool
+ * 2. 在 src/components/ 新增元件（props 為 UiToolProps<Payload>）
+ * 3. 在 uiPayloads.ts 新增 payload 的檢查函數（範圍與 input_schema 一致）
+ * 4. 在下方用 defineUiTool 登記「工具名稱 → 元件與檢查函數」
+ */
+
+import { createElement, type ComponentType, type ReactElement } from 'react'
+import CardSelection from './components/CardSelection'
+import MeditationGuide from './components/MeditationGuide'
+import PmrSequence from './components/PmrSequence'
+import ThoughtRecordForm from './components/ThoughtRecordForm'
+import type { UiToolProps } from './types'
+import { isCardEvent, isMeditationEvent, isPmrEvent, isThoughtRecordEvent } from './uiPayloads'
+
+// registry 的每一項：payload 在執行期才知道格式，檢查通過才交給元件渲染
+export interface UiToolEntry {
+  // payload 格式不對時回傳 null
+  render(payload: unknown, props: Omit<UiToolProps<unknown>, 'payload'>): ReactElement | null
+}
+
+// 把元件與 payload 檢查綁在一起：兩者的 payload 型別一定相同，registry 本身不需要知道
+function defineUiTool<P>(
+  component: ComponentType<UiToolProps<P>>,
+  isPayload: (payload: unknown) => payload is P
+): UiToolEntry {
+  return {
+    render: (payload, props) => (isPayload(payload) ? createElement(component, { ...props, payload }) : null),
+  }
+}
+
+export const UI_TOOL_REGISTRY: Record<string, UiToolEntry> = {
+  show_mood_cards: defineUiTool(CardSelection, isCardEvent),
+  show_meditation: defineUiTool(MeditationGuide, isMeditationEvent),
+  show_pmr_sequence: defineUiTool(PmrSequence, isPmrEvent),
+  show_thought_record: defineUiTool(ThoughtRecordForm, isThoughtRecordEvent),
+}